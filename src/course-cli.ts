@@ -0,0 +1,85 @@
+import 'dotenv/config';
+import path from 'path';
+import { PageNumbering } from './types.js';
+import { loadCourseManifest } from './course/course-manifest.js';
+import { CourseBuilderAgent, formatCourseReport } from './course/course-builder.js';
+import { ScriptValidationError } from './script/script-loader.js';
+import { formatValidationReport } from './script/script-validator.js';
+
+/**
+ * 講座ビルドCLI
+ * 講座マニフェストに並べた章の台本から、章ごとの資料（と全章まとめた資料）を一度に生成する
+ *
+ * Usage:
+ *   npm run course <manifest-path> [--combined] [--page-numbering <chapter|course|chapterPrefixed>] [--instructor] [--narration] [--force] [--json]
+ *   例: npm run course scripts/chatgpt-course.json --combined
+ *
+ *   --combined:       全章をまとめた資料も出力する（マニフェストの combined より優先）
+ *   --page-numbering: ページ番号（chapter: 章ごとに1から / course: 章をまたいだ通し番号 / chapterPrefixed: "2-5" 形式）
+ *   --instructor:     講師用ビルド（クイズの解答スライド・演習の解答例スライドを追加）
+ *   --narration:      章ごとにナレーション音声を生成して埋め込む（マニフェストの dictionary で読み替え）
+ *   --force:          内容が変わっていないセクションの音声も再生成する（通常は前回の音声を再利用）
+ *   --json:           結果をJSONで出力（CIなどでの機械処理用）
+ *
+ * 失敗した章がある場合は終了コード 1
+ */
+
+const pageNumberings: PageNumbering[] = ['chapter', 'course', 'chapterPrefixed'];
+
+/**
+ * "--name value" 形式のオプション値を取得
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const valueOptions = ['--page-numbering'];
+  const manifestPath = args.find((arg, i) => !arg.startsWith('--') && !valueOptions.includes(args[i - 1]));
+  const jsonOutput = args.includes('--json');
+
+  if (!manifestPath) {
+    console.error('❌ Usage: npm run course <manifest-path> [--combined] [--page-numbering <mode>] [--instructor] [--narration] [--force] [--json]');
+    console.error('   Example: npm run course scripts/chatgpt-course.json --combined');
+    process.exit(1);
+  }
+
+  const pageNumbering = getOption(args, '--page-numbering');
+  if (pageNumbering !== undefined && !pageNumberings.includes(pageNumbering as PageNumbering)) {
+    console.error(`❌ --page-numbering must be one of: ${pageNumberings.join(', ')}`);
+    process.exit(1);
+  }
+
+  try {
+    const fullPath = path.resolve(manifestPath);
+    console.log(`📖 Loading course manifest from: ${fullPath}\n`);
+    const course = await loadCourseManifest(fullPath);
+    console.log(`${formatValidationReport(course.validation, manifestPath, 'Course manifest')}\n`);
+
+    const builder = new CourseBuilderAgent();
+    const result = await builder.build(course, {
+      instructor: args.includes('--instructor'),
+      ...(args.includes('--combined') ? { combined: true } : {}),
+      ...(pageNumbering ? { pageNumbering: pageNumbering as PageNumbering } : {}),
+      narration: args.includes('--narration'),
+      force: args.includes('--force'),
+      usePaidTier: process.env.GEMINI_PAID_TIER === 'true'
+    });
+
+    console.log('');
+    console.log(jsonOutput ? JSON.stringify(result, null, 2) : formatCourseReport(result));
+    process.exit(result.status === 'success' ? 0 : 1);
+
+  } catch (error) {
+    if (error instanceof ScriptValidationError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    console.error('❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,228 @@
+import path from 'path';
+import { PageNumbering, ScriptInput } from '../types.js';
+import { SlideGeneratorAgent } from '../slide-generator.js';
+import { NarrationGeneratorAgent } from '../narration/narration-generator.js';
+import {
+  LoadedCourse,
+  loadChapterScripts,
+  mergeChapterScripts,
+  combineCourse,
+  chapterPageNumber,
+  safeFileName
+} from './course-manifest.js';
+
+/**
+ * 講座ビルドのオプション（マニフェストの指定より優先）
+ */
+export interface CourseBuildOptions {
+  instructor?: boolean; // 講師用ビルド（ファイル名に「_講師用」を付ける）
+  combined?: boolean;
+  pageNumbering?: PageNumbering;
+  narration?: boolean; // 章ごとにナレーション音声を生成して埋め込む（全章まとめた資料には埋め込まない）
+  usePaidTier?: boolean;
+  force?: boolean; // 内容が変わっていないセクションの音声も再生成する
+}
+
+export interface CourseChapterResult {
+  number: number;
+  title: string;
+  scripts: string[]; // マニフェストに書いた台本（カレントディレクトリからの相対パス）
+  status: 'success' | 'error';
+  filename?: string;
+  slideCount?: number;
+  firstPage?: string; // 表示されるページ番号（"41" / "2-1" など）
+  lastPage?: string;
+  warnings: number; // 台本の検証の warning 数
+  runtimeSec?: number; // ナレーションを埋め込んだ場合の再生時間
+  narrationFailures?: number;
+  error?: string;
+}
+
+/**
+ * 講座ビルドの結果
+ */
+export interface CourseBuildResult {
+  status: 'success' | 'error';
+  title: string;
+  outputDir: string;
+  pageNumbering: PageNumbering;
+  chapters: CourseChapterResult[];
+  combined?: {
+    status: 'success' | 'error';
+    filename?: string;
+    slideCount?: number;
+    error?: string;
+  };
+  totalSlides: number; // 章ごとの資料の合計枚数
+  metrics: {
+    durationMs: number;
+    timestamp: string;
+  };
+}
+
+/**
+ * CourseBuilderAgent - 講座マニフェストから章ごとの資料（と全章まとめた資料）を生成
+ *
+ * 生成前にすべての章の台本を検証し、1つでも error があれば何も出力しない
+ */
+export class CourseBuilderAgent {
+  private generator = new SlideGeneratorAgent();
+
+  async build(course: LoadedCourse, options: CourseBuildOptions = {}): Promise<CourseBuildResult> {
+    const startTime = Date.now();
+    const { manifest } = course;
+    const pageNumbering = options.pageNumbering || manifest.pageNumbering || 'chapter';
+    const combined = options.combined ?? manifest.combined === true;
+    const suffix = options.instructor ? '_講師用' : '';
+
+    // 1. 全章の台本を読み込んで検証（error は ScriptValidationError）
+    const chapterScripts: Array<{ script: ScriptInput; warnings: number }> = [];
+    for (const chapter of course.chapters) {
+      const loaded = await loadChapterScripts(course, chapter);
+      chapterScripts.push({
+        script: mergeChapterScripts(chapter, loaded.map(item => item.script)),
+        warnings: loaded.reduce((sum, item) => sum + item.validation.issues.length, 0)
+      });
+    }
+
+    console.log(`📚 Building course: ${manifest.title} (${course.chapters.length} chapters, page numbering: ${pageNumbering})\n`);
+
+    // 2. 章ごとの資料
+    const chapters: CourseChapterResult[] = [];
+    let slidesBefore = 0;
+    for (const [index, chapter] of course.chapters.entries()) {
+      const { script, warnings } = chapterScripts[index];
+      const number = String(chapter.number).padStart(2, '0');
+      const scripts = chapter.scripts.map(scriptPath => path.relative(process.cwd(), scriptPath) || scriptPath);
+      console.log(`\n📖 Chapter ${chapter.number}: ${script.title}`);
+
+      let narrationFailures: number | undefined;
+      if (options.narration) {
+        const audioDir = path.join(course.outputDir, 'narration', number);
+        narrationFailures = await this.generateNarration(script, audioDir, course.dictionary, options);
+        this.generator.setNarrationAudio({ audioDir });
+      } else {
+        this.generator.setNarrationAudio(null);
+      }
+
+      const pageNumber = chapterPageNumber(pageNumbering, chapter.number, slidesBefore);
+      const result = await this.generator.generate(script, {
+        output: { type: 'file', path: path.join(course.outputDir, `${number}_${safeFileName(script.title)}${suffix}.pptx`) },
+        instructor: options.instructor,
+        pageNumber
+      });
+
+      if (result.status === 'success') {
+        const slideCount = result.slideCount || 0;
+        const page = (slide: number) => `${pageNumber.prefix || ''}${(pageNumber.offset || 0) + slide}`;
+        chapters.push({
+          number: chapter.number,
+          title: script.title,
+          scripts,
+          status: 'success',
+          filename: result.filename,
+          slideCount,
+          firstPage: page(1),
+          lastPage: page(slideCount),
+          warnings,
+          ...(result.runtimeSec !== undefined ? { runtimeSec: result.runtimeSec } : {}),
+          ...(narrationFailures !== undefined ? { narrationFailures } : {})
+        });
+        slidesBefore += slideCount;
+      } else {
+        chapters.push({ number: chapter.number, title: script.title, scripts, status: 'error', warnings, error: result.error });
+      }
+    }
+
+    // 3. 全章をまとめた資料（ページ番号は先頭からの通し番号、ナレーション音声は埋め込まない）
+    let combinedResult: CourseBuildResult['combined'];
+    if (combined) {
+      console.log(`\n📦 Combined deck: ${manifest.title}`);
+      this.generator.setNarrationAudio(null);
+      const result = await this.generator.generate(combineCourse(manifest, chapterScripts.map(item => item.script)), {
+        output: { type: 'file', path: path.join(course.outputDir, `${safeFileName(manifest.title)}_全章${suffix}.pptx`) },
+        instructor: options.instructor
+      });
+      combinedResult = result.status === 'success'
+        ? { status: 'success', filename: result.filename, slideCount: result.slideCount }
+        : { status: 'error', error: result.error };
+    }
+
+    const failed = chapters.some(chapter => chapter.status === 'error') || combinedResult?.status === 'error';
+    return {
+      status: failed ? 'error' : 'success',
+      title: manifest.title,
+      outputDir: course.outputDir,
+      pageNumbering,
+      chapters,
+      ...(combinedResult ? { combined: combinedResult } : {}),
+      totalSlides: chapters.reduce((sum, chapter) => sum + (chapter.slideCount || 0), 0),
+      metrics: {
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString()
+      }
+    };
+  }
+
+  /**
+   * 章のナレーション音声を生成（失敗したセクション数を返す、該当スライドは既定の表示時間になる）
+   */
+  private async generateNarration(
+    script: ScriptInput,
+    audioDir: string,
+    dictionary: string | undefined,
+    options: CourseBuildOptions
+  ): Promise<number> {
+    const narrator = new NarrationGeneratorAgent(undefined, options.usePaidTier ?? false);
+    narrator.setOutputDir(audioDir);
+    if (dictionary) narrator.setDictionaryPath(dictionary);
+
+    const narration = await narrator.generate(script, { force: options.force });
+    if (narration.status !== 'success') {
+      console.warn(`⚠️  Narration failed for ${narration.metrics.failureCount} section(s); those slides will use the default duration`);
+    }
+    return narration.metrics.failureCount;
+  }
+}
+
+/**
+ * 講座ビルドの結果を人が読める形式に整形
+ */
+export function formatCourseReport(result: CourseBuildResult): string {
+  const lines = [
+    `${result.status === 'success' ? '✅' : '❌'} Course build: ${result.title}`,
+    `📁 Output: ${result.outputDir}`,
+    ''
+  ];
+
+  for (const chapter of result.chapters) {
+    const header = `  ${chapter.number}. ${chapter.title}`;
+    if (chapter.status === 'error') {
+      lines.push(header, `     ❌ ${chapter.error}`);
+      continue;
+    }
+
+    const details = [
+      `${chapter.slideCount} slides`,
+      `p.${chapter.firstPage}-${chapter.lastPage}`,
+      ...(chapter.warnings > 0 ? [`${chapter.warnings} warning(s)`] : []),
+      ...(chapter.runtimeSec !== undefined ? [`runtime ${Math.floor(chapter.runtimeSec / 60)}分${Math.round(chapter.runtimeSec % 60)}秒`] : []),
+      ...(chapter.narrationFailures ? [`${chapter.narrationFailures} narration failure(s)`] : [])
+    ];
+    lines.push(header, `     ${details.join(' / ')}`, `     📄 ${path.basename(chapter.filename!)}`);
+    if (chapter.scripts.length > 1) {
+      lines.push(`     📝 ${chapter.scripts.join(' + ')}`);
+    }
+  }
+
+  if (result.combined) {
+    lines.push('');
+    lines.push(result.combined.status === 'success'
+      ? `  📦 Combined: ${path.basename(result.combined.filename!)} (${result.combined.slideCount} slides)`
+      : `  📦 Combined: ❌ ${result.combined.error}`);
+  }
+
+  const built = result.chapters.filter(chapter => chapter.status === 'success').length;
+  lines.push('', `📊 ${built}/${result.chapters.length} chapter deck(s), ${result.totalSlides} slides (page numbering: ${result.pageNumbering})`);
+  return lines.join('\n');
+}
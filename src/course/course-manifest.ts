@@ -0,0 +1,178 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { CourseManifest, PageNumbering, PageNumberOptions, ScriptInput } from '../types.js';
+import { ScriptSource, ScriptSyntaxError, parseJsonSource } from '../script/script-source.js';
+import { validateCourseManifest, ValidationResult } from '../script/script-validator.js';
+import { loadScript, LoadedScript, ScriptValidationError } from '../script/script-loader.js';
+
+/**
+ * 講座マニフェスト - 複数の章の台本・共通のブランディング・辞書をまとめた講座の定義
+ *
+ * 章の台本・辞書・出力先のパスはマニフェストのディレクトリからの相対パス
+ * （ロゴなど台本内のパスは台本と同じくカレントディレクトリからの相対パス）
+ */
+
+export interface CourseChapterScripts {
+  number: number; // 章の通し番号（1始まり）
+  scripts: string[]; // 台本の絶対パス
+  title?: string;
+  duration?: string;
+  voice?: string;
+}
+
+/**
+ * 読み込んだ講座マニフェスト（パスは解決済み）
+ */
+export interface LoadedCourse {
+  manifest: CourseManifest;
+  chapters: CourseChapterScripts[];
+  outputDir: string;
+  dictionary?: string;
+  validation: ValidationResult; // warning のみ含む
+}
+
+const minutesPattern = /^\s*(\d+)\s*分\s*$/;
+
+/**
+ * 講座マニフェスト（JSON）を読み込んで検証する
+ * 構文エラー・スキーマの error がある場合は ScriptValidationError を投げる
+ */
+export async function loadCourseManifest(filePath: string): Promise<LoadedCourse> {
+  const data = await readFile(filePath, 'utf-8');
+  const displayPath = path.relative(process.cwd(), filePath) || filePath;
+  const baseDir = path.dirname(filePath);
+
+  let source: ScriptSource;
+  try {
+    source = parseJsonSource(data);
+  } catch (error) {
+    if (error instanceof ScriptSyntaxError) {
+      const issue = { severity: 'error' as const, path: '', message: error.reason, line: error.line };
+      throw new ScriptValidationError({ valid: false, issues: [issue] }, displayPath, 'Course manifest');
+    }
+    throw error;
+  }
+
+  const validation = validateCourseManifest(source.data, baseDir, source.lines);
+  if (!validation.valid) {
+    throw new ScriptValidationError(validation, displayPath, 'Course manifest');
+  }
+
+  const manifest = source.data as CourseManifest;
+  const chapters = manifest.chapters.map((chapter, index): CourseChapterScripts => {
+    const entry = typeof chapter === 'string' ? { scripts: [chapter] } : chapter;
+    return {
+      number: index + 1,
+      scripts: entry.scripts.map(script => path.resolve(baseDir, script)),
+      ...(entry.title ? { title: entry.title } : {}),
+      ...(entry.duration ? { duration: entry.duration } : {}),
+      ...(entry.voice ? { voice: entry.voice } : {})
+    };
+  });
+
+  return {
+    manifest,
+    chapters,
+    outputDir: manifest.outputDir
+      ? path.resolve(baseDir, manifest.outputDir)
+      : path.resolve('output', safeFileName(manifest.title)),
+    ...(manifest.dictionary ? { dictionary: path.resolve(baseDir, manifest.dictionary) } : {}),
+    validation
+  };
+}
+
+/**
+ * 全章で共通の設定（各章の台本の値を上書きする）
+ */
+export function courseOverrides(manifest: CourseManifest): Partial<ScriptInput> {
+  return {
+    ...(manifest.branding ? { branding: manifest.branding } : {}),
+    ...(manifest.theme ? { theme: manifest.theme } : {}),
+    ...(manifest.progressTracker !== undefined ? { progressTracker: manifest.progressTracker } : {}),
+    ...(manifest.narrationPlacement ? { narrationPlacement: manifest.narrationPlacement } : {})
+  };
+}
+
+/**
+ * 章の台本をすべて読み込んで検証する（1つでも error があれば ScriptValidationError）
+ */
+export async function loadChapterScripts(course: LoadedCourse, chapter: CourseChapterScripts): Promise<LoadedScript[]> {
+  const overrides = courseOverrides(course.manifest);
+  const loaded: LoadedScript[] = [];
+  for (const scriptPath of chapter.scripts) {
+    loaded.push(await loadScript(scriptPath, overrides));
+  }
+  return loaded;
+}
+
+/**
+ * 所要時間を合計（すべて "N分" の場合のみ合算し、それ以外は " + " でつなぐ）
+ */
+export function sumDurations(durations: string[]): string {
+  const minutes = durations.map(duration => duration.match(minutesPattern));
+  if (minutes.every(match => match !== null)) {
+    return `${minutes.reduce((sum, match) => sum + Number(match![1]), 0)}分`;
+  }
+  return durations.filter(duration => duration.trim()).join(' + ');
+}
+
+/**
+ * 章の台本（複数ファイルはセクションを順につなげる、メタデータは最初の台本）
+ * 声は章の voice > 各台本の voice の順でセクションに付け、会話の話者はすべての台本の speakers を合わせる
+ */
+export function mergeChapterScripts(chapter: CourseChapterScripts, scripts: ScriptInput[]): ScriptInput {
+  const [first] = scripts;
+  const speakers = Object.assign({}, ...scripts.map(script => script.speakers));
+  return {
+    ...first,
+    title: chapter.title || first.title,
+    duration: chapter.duration || sumDurations(scripts.map(script => script.duration)),
+    ...(chapter.voice ? { voice: chapter.voice } : {}),
+    ...(Object.keys(speakers).length > 0 ? { speakers } : {}),
+    sections: scripts.flatMap(script => script.sections.map(section => {
+      const voice = section.voice || chapter.voice || script.voice;
+      return voice ? { ...section, voice } : section;
+    }))
+  };
+}
+
+/**
+ * 全章をまとめた台本（講座のタイトルスライドの後に各章のセクションを並べる）
+ */
+export function combineCourse(manifest: CourseManifest, chapters: ScriptInput[]): ScriptInput {
+  const [{ voice: _voice, ...first }] = chapters; // 章の声はセクションに付いている（最初の章の声を全体に広げない）
+  const speakers = Object.assign({}, ...chapters.map(chapter => chapter.speakers));
+  return {
+    ...first,
+    ...(Object.keys(speakers).length > 0 ? { speakers } : {}),
+    ...courseOverrides(manifest),
+    title: manifest.title,
+    duration: manifest.duration || sumDurations(chapters.map(chapter => chapter.duration)),
+    sections: [
+      { type: 'title', title: manifest.title, ...(manifest.subtitle ? { subtitle: manifest.subtitle } : {}) },
+      ...chapters.flatMap(chapter => chapter.sections)
+    ]
+  };
+}
+
+/**
+ * 章の資料のページ番号
+ * @param slidesBefore 前の章までの資料の合計枚数（"course" の通し番号に使う）
+ */
+export function chapterPageNumber(numbering: PageNumbering, chapterNumber: number, slidesBefore: number): PageNumberOptions {
+  switch (numbering) {
+    case 'course':
+      return { offset: slidesBefore };
+    case 'chapterPrefixed':
+      return { prefix: `${chapterNumber}-` };
+    default:
+      return {};
+  }
+}
+
+/**
+ * ファイル名に使えない文字・空白を "_" に置き換える
+ */
+export function safeFileName(name: string): string {
+  return name.trim().replace(/[\\/:*?"<>|\s]+/g, '_');
+}
@@ -1,12 +1,23 @@
 import { SlideGeneratorAgent } from './slide-generator.js';
 import { sampleScript } from './sample-script.js';
 import { ScriptInput } from './types.js';
-import { mkdirSync, existsSync, readFileSync } from 'fs';
+import { loadScript, ScriptValidationError } from './script/script-loader.js';
+import { formatValidationReport } from './script/script-validator.js';
+import { mkdirSync, existsSync } from 'fs';
 import * as path from 'path';
 
 /**
  * メインエントリーポイント
- * サンプル台本またはJSONファイルからスライドを生成
+ * サンプル台本またはJSON / Markdownファイルからスライドを生成
+ *
+ * Usage:
+ *   npm run dev [script-path] [--theme <name|path>] [--notes-only] [--progress] [--instructor]
+ *   例: npm run dev scripts/chapter1-detailed.json --theme dark
+ *   例: npm run dev scripts/example.md
+ *
+ *   --notes-only: ナレーションをスライド本文に表示せず、スピーカーノートのみに書き込む
+ *   --progress:   本文スライドに現在の部（セクション区切り）の進捗を表示する
+ *   --instructor: 講師用ビルド（クイズの解答スライド・演習の解答例スライドを追加、ファイル名に「_講師用」を付ける）
  */
 async function main() {
   console.log('🚀 Miyabi Slide Generator - Starting...\n');
@@ -17,22 +28,39 @@ async function main() {
     console.log('📁 Created output directory\n');
   }
 
-  // スクリプトの読み込み（コマンドライン引数があればJSONから、なければsampleScript）
+  // スクリプトの読み込み（コマンドライン引数があればJSON / Markdownから、なければsampleScript）
   let script: ScriptInput;
-  const scriptPath = process.argv[2];
+  const args = process.argv.slice(2);
+  const themeIndex = args.indexOf('--theme');
+  const themeOption = themeIndex >= 0 ? args[themeIndex + 1] : undefined;
+  const scriptPath = args.find((arg, i) => !arg.startsWith('--') && (themeIndex < 0 || i !== themeIndex + 1));
 
   if (scriptPath) {
-    // JSONファイルから読み込み
+    // JSON / Markdownファイルから読み込み
     const fullPath = path.resolve(scriptPath);
     console.log(`📖 Loading script from: ${fullPath}\n`);
-    const scriptData = readFileSync(fullPath, 'utf-8');
-    script = JSON.parse(scriptData);
+    const loaded = await loadScript(fullPath);
+    console.log(`${formatValidationReport(loaded.validation, scriptPath)}\n`);
+    script = loaded.script;
   } else {
     // デフォルトのサンプルスクリプトを使用
     console.log('📖 Using default sample script\n');
     script = sampleScript;
   }
 
+  // --theme 指定は台本の theme より優先
+  if (themeOption) {
+    script = { ...script, theme: themeOption };
+  }
+  if (args.includes('--notes-only')) {
+    script = { ...script, narrationPlacement: 'notes' };
+  }
+  if (args.includes('--progress')) {
+    script = { ...script, progressTracker: true };
+  }
+
+  const instructor = args.includes('--instructor');
+
   // SlideGeneratorAgentの初期化
   const generator = new SlideGeneratorAgent();
 
@@ -41,9 +69,12 @@ async function main() {
   console.log(`   Title: ${script.title}`);
   console.log(`   Duration: ${script.duration}`);
   console.log(`   Sections: ${script.sections.length}`);
-  console.log(`   Company: ${script.branding.company}\n`);
+  console.log(`   Company: ${script.branding.company}`);
+  console.log(`   Theme: ${script.theme || 'default'}`);
+  console.log(`   Narration: ${script.narrationPlacement === 'notes' ? 'speaker notes only' : 'slide + speaker notes'}`);
+  console.log(`   Build: ${instructor ? 'instructor (with answer keys)' : 'trainee'}\n`);
 
-  const result = await generator.generate(script);
+  const result = await generator.generate(script, { instructor });
 
   // 結果表示
   console.log('\n📈 Generation Result:');
@@ -61,6 +92,11 @@ async function main() {
 // 実行
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch((error) => {
+    // 台本の検証エラーはスライド生成前に中断（レポートのみ表示）
+    if (error instanceof ScriptValidationError) {
+      console.error(error.message);
+      process.exit(1);
+    }
     console.error('💥 Fatal error:', error);
     process.exit(1);
   });
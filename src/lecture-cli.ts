@@ -0,0 +1,106 @@
+import 'dotenv/config';
+import { LectureBuilderAgent, DEFAULT_LECTURE_AUDIO_DIR } from './lecture/lecture-builder.js';
+import { ScriptInput } from './types.js';
+import { loadScript, ScriptValidationError } from './script/script-loader.js';
+import { formatValidationReport } from './script/script-validator.js';
+import { mkdirSync, existsSync } from 'fs';
+import path from 'path';
+
+/**
+ * 自動再生レクチャービルドCLI
+ * ナレーション音声を生成し、各スライドに埋め込んだPPTXを出力する
+ * （音声の長さで自動切り替えされるため、PowerPointからそのまま動画にエクスポートできる）
+ *
+ * Usage:
+ *   npm run lecture <script-path> [--skip-narration] [--audio-dir <dir>] [--default-duration <sec>] [--theme <name|path>] [--progress] [--force]
+ *   例: npm run lecture scripts/chapter1-detailed.json
+ *
+ *   --skip-narration:   音声を生成せず、--audio-dir にある既存の section_NN_*.mp3 を使う
+ *   --audio-dir:        ナレーション音声のディレクトリ（デフォルト: ./output/narration）
+ *   --default-duration: 音声のないスライド（タイトル・区切りなど）の表示秒数（デフォルト: 5）
+ *   --progress:         本文スライドに現在の部（セクション区切り）の進捗を表示する
+ *   --force:            内容が変わっていないセクションの音声も再生成する（通常は前回の音声を再利用）
+ */
+
+/**
+ * "--name value" 形式のオプション値を取得
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const valueOptions = ['--audio-dir', '--default-duration', '--theme'];
+  const scriptPath = args.find((arg, i) => !arg.startsWith('--') && !valueOptions.includes(args[i - 1]));
+
+  if (!scriptPath) {
+    console.error('❌ Usage: npm run lecture <script-path> [--skip-narration] [--audio-dir <dir>] [--default-duration <sec>]');
+    console.error('   Example: npm run lecture scripts/chapter1-detailed.json');
+    process.exit(1);
+  }
+
+  const audioDir = getOption(args, '--audio-dir') || DEFAULT_LECTURE_AUDIO_DIR;
+  const defaultDuration = Number(getOption(args, '--default-duration') ?? 5);
+  if (!Number.isFinite(defaultDuration) || defaultDuration < 0) {
+    console.error('❌ --default-duration must be a non-negative number of seconds');
+    process.exit(1);
+  }
+
+  try {
+    // JSON / Markdownファイルを読み込み
+    const fullPath = path.resolve(scriptPath);
+    console.log(`📖 Loading script from: ${fullPath}\n`);
+
+    // 台本を検証（エラーがあれば音声生成前に中断）
+    const loaded = await loadScript(fullPath);
+    console.log(`${formatValidationReport(loaded.validation, scriptPath)}\n`);
+    let script: ScriptInput = loaded.script;
+
+    const themeOption = getOption(args, '--theme');
+    if (themeOption) {
+      script = { ...script, theme: themeOption };
+    }
+    if (args.includes('--progress')) {
+      script = { ...script, progressTracker: true };
+    }
+
+    if (!existsSync('./output')) {
+      mkdirSync('./output', { recursive: true });
+    }
+
+    // ナレーション音声を --audio-dir に生成し、同じ場所の音声をスライドに埋め込む
+    const builder = new LectureBuilderAgent();
+    const { slides: result } = await builder.build(script, {
+      audioDir,
+      skipNarration: args.includes('--skip-narration'),
+      defaultSlideDurationSec: defaultDuration,
+      usePaidTier: process.env.GEMINI_PAID_TIER === 'true',
+      force: args.includes('--force')
+    });
+
+    if (result.status === 'success') {
+      const minutes = Math.floor((result.runtimeSec || 0) / 60);
+      const seconds = Math.round((result.runtimeSec || 0) % 60);
+      console.log('\n✅ Lecture build successful!');
+      console.log(`📁 Output: ${result.filename}`);
+      console.log(`📊 Slides: ${result.slideCount}`);
+      console.log(`⏱️  Runtime: ${minutes}分${seconds}秒`);
+    } else {
+      console.error('\n❌ Lecture build failed!');
+      console.error(`Error: ${result.error || 'Unknown error'}`);
+      process.exit(1);
+    }
+
+  } catch (error) {
+    if (error instanceof ScriptValidationError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    console.error('❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+main();
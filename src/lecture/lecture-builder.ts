@@ -0,0 +1,71 @@
+import { ScriptInput, SlideGenerationResult, SlideOutput } from '../types.js';
+import { SlideGeneratorAgent } from '../slide-generator.js';
+import { NarrationGeneratorAgent } from '../narration/narration-generator.js';
+import { TtsProvider } from '../narration/tts-provider.js';
+
+/**
+ * ナレーション音声の既定の出力先
+ */
+export const DEFAULT_LECTURE_AUDIO_DIR = './output/narration';
+
+/**
+ * レクチャービルドのオプション
+ */
+export interface LectureBuildOptions {
+  audioDir?: string; // 音声の生成先かつスライドが読み込む場所（デフォルト: ./output/narration）
+  skipNarration?: boolean; // 音声を生成せず、audioDir にある既存の section_NN_*.mp3 を使う
+  defaultSlideDurationSec?: number; // 音声のないスライドの表示秒数
+  usePaidTier?: boolean;
+  force?: boolean; // 内容が変わっていないセクションの音声も再生成する
+  output?: SlideOutput; // デフォルト: { type: 'directory', dir: './output' }
+}
+
+/**
+ * レクチャービルドの結果
+ */
+export interface LectureBuildResult {
+  slides: SlideGenerationResult;
+  narrationFailures?: number; // 音声を生成した場合のみ（該当スライドは既定の表示時間になる）
+}
+
+/**
+ * LectureBuilderAgent - ナレーション音声を生成し、各スライドに埋め込んだ資料を出力
+ *
+ * 音声の生成先とスライドが読み込む場所は常に同じ audioDir
+ */
+export class LectureBuilderAgent {
+  private generator = new SlideGeneratorAgent();
+
+  /**
+   * @param provider 省略時は環境変数 TTS_PROVIDER（NarrationGeneratorAgent と同じ）
+   */
+  constructor(private readonly provider?: TtsProvider) {}
+
+  async build(script: ScriptInput, options: LectureBuildOptions = {}): Promise<LectureBuildResult> {
+    const audioDir = options.audioDir || DEFAULT_LECTURE_AUDIO_DIR;
+
+    // 1. ナレーション音声の生成
+    let narrationFailures: number | undefined;
+    if (options.skipNarration) {
+      console.log(`⏭️  Skipping narration, using existing audio in: ${audioDir}\n`);
+    } else {
+      const narrator = new NarrationGeneratorAgent(undefined, options.usePaidTier ?? false, this.provider);
+      narrator.setOutputDir(audioDir);
+      const narration = await narrator.generate(script, { force: options.force });
+
+      if (narration.status !== 'success') {
+        console.warn(`⚠️  Narration failed for ${narration.metrics.failureCount} section(s); those slides will use the default duration\n`);
+      }
+      narrationFailures = narration.metrics.failureCount;
+    }
+
+    // 2. 音声を埋め込んだスライドの生成
+    this.generator.setNarrationAudio({ audioDir, defaultSlideDurationSec: options.defaultSlideDurationSec });
+    const slides = await this.generator.generate(script, options.output ? { output: options.output } : {});
+
+    return {
+      slides,
+      ...(narrationFailures !== undefined ? { narrationFailures } : {})
+    };
+  }
+}
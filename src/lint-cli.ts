@@ -0,0 +1,69 @@
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { loadScript, isMarkdownScript, ScriptValidationError } from './script/script-loader.js';
+import { lintScript, fixJsonSource, fixMarkdownSource, formatLintReport } from './script/design-linter.js';
+
+/**
+ * デザインルールリンターCLI
+ * 台本のテキストを designRules（文字数・禁止記号・絵文字・箇条書きの句点・サブタイトルの行数）で検査する
+ *
+ * Usage:
+ *   npm run lint:script <script-path> [--json] [--fix]
+ *   例: npm run lint:script scripts/chapter1-detailed.json
+ *
+ *   --json: 検査結果をJSONで出力（CIなどでの機械処理用）
+ *   --fix:  禁止記号・絵文字・箇条書きの句点を修正して台本を書き戻す（文字数・行数は手で直す）
+ *
+ * 違反が残っている場合は終了コード 1
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const scriptPath = args.find(arg => !arg.startsWith('--'));
+  const jsonOutput = args.includes('--json');
+
+  if (!scriptPath) {
+    console.error('❌ Usage: npm run lint:script <script-path> [--json] [--fix]');
+    console.error('   Example: npm run lint:script scripts/chapter1-detailed.json');
+    process.exit(1);
+  }
+
+  try {
+    const fullPath = path.resolve(scriptPath);
+    const { script, lines } = await loadScript(fullPath);
+    let report = lintScript(script, lines);
+
+    if (args.includes('--fix') && report.fixableCount > 0) {
+      const data = await readFile(fullPath, 'utf-8');
+      const fixed = isMarkdownScript(fullPath)
+        ? fixMarkdownSource(data, report.violations)
+        : fixJsonSource(data, report.violations);
+      await writeFile(fullPath, fixed, 'utf-8');
+
+      // 修正後の台本を検査し直し、手で直す必要のある違反だけを報告
+      const fixedCount = report.fixableCount;
+      const reloaded = await loadScript(fullPath);
+      report = lintScript(reloaded.script, reloaded.lines);
+      if (!jsonOutput) {
+        console.log(`🔧 Fixed ${fixedCount - report.fixableCount} violation(s) in ${scriptPath}\n`);
+      }
+    }
+
+    if (jsonOutput) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log(formatLintReport(report, scriptPath));
+    }
+
+    process.exit(report.violations.length > 0 ? 1 : 0);
+
+  } catch (error) {
+    if (error instanceof ScriptValidationError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    console.error('❌ Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+main();
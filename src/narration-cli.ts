@@ -1,31 +1,46 @@
 import { NarrationGeneratorAgent } from './narration/narration-generator.js';
-import { ScriptInput } from './types.js';
-import { readFile } from 'fs/promises';
+import { loadNarrationResult, NARRATION_RESULT_FILE } from './narration/narration-job.js';
+import { loadScript, ScriptValidationError } from './script/script-loader.js';
+import { formatValidationReport } from './script/script-validator.js';
 import path from 'path';
 
 /**
  * ナレーション生成CLI
  *
  * Usage:
- *   npm run narration <script-json-path>
+ *   npm run narration <script-path> [--force | --resume | --retry-failed]（JSON / Markdown）
  *   例: npm run narration scripts/chapter1-detailed.json
+ *
+ *   --force:        内容が変わっていないセクションも再生成する
+ *                   （通常は output/narration/narration-cache.json を参照して前回の音声を再利用）
+ *   --resume:       途中で止まった前回の生成の続きから生成する（output/narration/narration-job.json を参照）
+ *   --retry-failed: 前回の生成で失敗したセクションだけを再生成する（output/narration/narration-result.json を参照）
  */
 async function main() {
-  const scriptPath = process.argv[2];
+  const args = process.argv.slice(2);
+  const scriptPath = args.find(arg => !arg.startsWith('--'));
+  const force = args.includes('--force');
+  const resume = args.includes('--resume');
+  const retryFailed = args.includes('--retry-failed');
 
   if (!scriptPath) {
-    console.error('❌ Usage: npm run narration <script-json-path>');
+    console.error('❌ Usage: npm run narration <script-path> [--force | --resume | --retry-failed]');
     console.error('   Example: npm run narration scripts/chapter1-detailed.json');
     process.exit(1);
   }
+  if ([force, resume, retryFailed].filter(Boolean).length > 1) {
+    console.error('❌ --force, --resume and --retry-failed cannot be combined');
+    process.exit(1);
+  }
 
   try {
-    // JSONファイルを読み込み
+    // JSON / Markdownファイルを読み込み
     const fullPath = path.resolve(scriptPath);
     console.log(`📖 Loading script from: ${fullPath}\n`);
 
-    const scriptData = await readFile(fullPath, 'utf-8');
-    const script: ScriptInput = JSON.parse(scriptData);
+    // 台本を検証（エラーがあれば音声生成前に中断し、TTSの利用枠を消費しない）
+    const { script, validation } = await loadScript(fullPath);
+    console.log(`${formatValidationReport(validation, scriptPath)}\n`);
 
     console.log(`📊 Script Details:`);
     console.log(`   Title: ${script.title}`);
@@ -40,33 +55,56 @@ async function main() {
     console.log(`🔧 Mode: ${tierName}\n`);
 
     const generator = new NarrationGeneratorAgent(undefined, usePaidTier);
-    const result = await generator.generate(script);
+
+    // 前回の結果（失敗したセクションの再生成）
+    const previous = retryFailed ? await loadNarrationResult(generator.getOutputDir()) : null;
+    if (retryFailed && !previous) {
+      console.error(`❌ No previous narration result: ${path.join(generator.getOutputDir(), NARRATION_RESULT_FILE)}`);
+      process.exit(1);
+    }
+    if (previous && !previous.failures?.length) {
+      console.log('✅ The previous run has no failed sections, nothing to retry');
+      return;
+    }
+
+    const result = await generator.generate(script, { force, resume, ...(previous ? { retryFailed: previous } : {}) });
 
     if (result.status === 'success') {
       console.log('\n✅ Narration generation successful!');
-      console.log(`📁 Output directory: ./output/narration`);
+      console.log(`📁 Output directory: ${generator.getOutputDir()}`);
       console.log(`📊 Generated files: ${result.files?.length || 0}`);
 
       if (result.files && result.files.length > 0) {
         console.log('\n📝 Generated files:');
         result.files.forEach((file, index) => {
-          console.log(`   ${index + 1}. ${file.filename}`);
+          console.log(`   ${index + 1}. ${file.filename}${file.cached ? ' (reused)' : ''}`);
           console.log(`      Section: ${file.sectionTitle}`);
         });
       }
 
       console.log(`\n⏱️  Total time: ${result.metrics.durationMs}ms`);
-      console.log(`📊 Success rate: ${result.metrics.successCount}/${result.metrics.totalSections}`);
+      console.log(`📊 Success rate: ${result.metrics.successCount}/${result.metrics.totalSections} (reused: ${result.metrics.cachedCount})`);
 
     } else {
       console.error('\n❌ Narration generation failed!');
       console.error(`Error: ${result.error || 'Unknown error'}`);
       console.error(`Failed sections: ${result.metrics.failureCount}`);
+      result.failures?.forEach(failure => {
+        console.error(`   - ${failure.sectionTitle}: chunk ${failure.chunk}/${failure.chunkCount} (${failure.chars} chars): ${failure.error}`);
+      });
+      if (result.failures?.length) {
+        console.error('\n💡 Re-run only the failed sections: npm run narration <script-path> --retry-failed');
+      }
       process.exit(1);
     }
 
   } catch (error) {
+    if (error instanceof ScriptValidationError) {
+      console.error(error.message);
+      process.exit(1);
+    }
     console.error('❌ Fatal error:', error);
+    console.error('💡 Continue from where it stopped: npm run narration <script-path> --resume');
     process.exit(1);
   }
 }
@@ -0,0 +1,146 @@
+import { GoogleGenAI, SpeechConfig } from '@google/genai';
+import { DialogueLine } from '../types.js';
+import { SpeechStyle, SynthesizedAudio, TtsProvider, TtsVoice } from './tts-provider.js';
+
+/**
+ * Gemini TTS の組み込みの声（https://ai.google.dev/gemini-api/docs/speech-generation）
+ */
+const geminiVoices: TtsVoice[] = [
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Callirrhoe', description: 'Easy-going' },
+  { name: 'Autonoe', description: 'Bright' },
+  { name: 'Enceladus', description: 'Breathy' },
+  { name: 'Iapetus', description: 'Clear' },
+  { name: 'Umbriel', description: 'Easy-going' },
+  { name: 'Algieba', description: 'Smooth' },
+  { name: 'Despina', description: 'Smooth' },
+  { name: 'Erinome', description: 'Clear' },
+  { name: 'Algenib', description: 'Gravelly' },
+  { name: 'Rasalgethi', description: 'Informative' },
+  { name: 'Laomedeia', description: 'Upbeat' },
+  { name: 'Achernar', description: 'Soft' },
+  { name: 'Alnilam', description: 'Firm' },
+  { name: 'Schedar', description: 'Even' },
+  { name: 'Gacrux', description: 'Mature' },
+  { name: 'Pulcherrima', description: 'Forward' },
+  { name: 'Achird', description: 'Friendly' },
+  { name: 'Zubenelgenubi', description: 'Casual' },
+  { name: 'Vindemiatrix', description: 'Gentle' },
+  { name: 'Sadachbia', description: 'Lively' },
+  { name: 'Sadaltager', description: 'Knowledgeable' },
+  { name: 'Sulafat', description: 'Warm' }
+];
+
+const maxRetries = 3;
+const emphasisPrompt = 'Say with emphasis: '; // Gemini TTS は自然文の指示で読み方を変えられる
+
+/**
+ * GeminiTtsProvider - Google Gemini TTS による音声合成
+ * 出力は 24000Hz / モノラル / 16-bit PCM
+ */
+export class GeminiTtsProvider implements TtsProvider {
+  readonly name = 'gemini';
+  readonly defaultVoice = 'Charon'; // Informative（情報的、ナレーション向き、呼吸音少ない）
+  readonly maxChunkChars = 1000; // Gemini TTS制限: 約1000-1500文字
+  readonly rateLimited = true;
+  readonly dialogueSpeakers = 2; // マルチスピーカーの音声合成は2人の話者を指定する
+  private ai: GoogleGenAI;
+
+  constructor(apiKey?: string, readonly model: string = 'gemini-2.5-flash-preview-tts') {
+    const key = apiKey || process.env.GEMINI_API_KEY;
+    if (!key) {
+      throw new Error('Gemini API key is required. Set GEMINI_API_KEY environment variable.');
+    }
+    this.ai = new GoogleGenAI({ apiKey: key });
+  }
+
+  listVoices(): TtsVoice[] {
+    return geminiVoices;
+  }
+
+  /**
+   * テキストから音声を合成
+   */
+  async synthesize(text: string, voice: string, style: SpeechStyle = {}): Promise<SynthesizedAudio> {
+    return this.generateAudio(style.emphasis ? `${emphasisPrompt}${text}` : text, {
+      voiceConfig: {
+        prebuiltVoiceConfig: {
+          voiceName: voice,
+        },
+      },
+    });
+  }
+
+  /**
+   * 会話をマルチスピーカーの設定で合成（「話者: セリフ」の行を話者ごとの声で読む）
+   */
+  async synthesizeDialogue(lines: DialogueLine[], voices: Record<string, string>): Promise<SynthesizedAudio> {
+    const speakers = Object.keys(voices);
+    if (speakers.length !== this.dialogueSpeakers) {
+      throw new Error(`Gemini multi-speaker TTS needs exactly ${this.dialogueSpeakers} speakers (got ${speakers.length})`);
+    }
+
+    const transcript = lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+    return this.generateAudio(`TTS the following conversation between ${speakers.join(' and ')}:\n${transcript}`, {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: speakers.map(speaker => ({
+          speaker,
+          voiceConfig: {
+            prebuiltVoiceConfig: {
+              voiceName: voices[speaker],
+            },
+          },
+        })),
+      },
+    });
+  }
+
+  /**
+   * 音声を生成（サーバー側の一時的なエラーはリトライ）
+   */
+  private async generateAudio(text: string, speechConfig: SpeechConfig, retryCount: number = 0): Promise<SynthesizedAudio> {
+    try {
+      const response = await this.ai.models.generateContent({
+        model: this.model,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: ['AUDIO'],
+          speechConfig,
+        },
+      });
+
+      const audioPart = response.candidates?.[0]?.content?.parts?.[0];
+
+      if (!audioPart || !('inlineData' in audioPart) || !audioPart.inlineData?.data) {
+        throw new Error('No audio data returned from Gemini API');
+      }
+
+      return { pcm: Buffer.from(audioPart.inlineData.data, 'base64'), sampleRate: 24000 };
+
+    } catch (error: any) {
+      // Gemini APIの内部エラー（500番台）の場合はリトライ
+      const isRetryableError =
+        error?.message?.includes('INTERNAL') ||
+        error?.message?.includes('500') ||
+        error?.message?.includes('503');
+
+      if (isRetryableError && retryCount < maxRetries) {
+        const waitTime = Math.pow(2, retryCount) * 1000; // 指数バックオフ: 1秒, 2秒, 4秒
+        console.log(`  ⚠️  API error, retrying in ${waitTime/1000}s... (attempt ${retryCount + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, waitTime));
+        return this.generateAudio(text, speechConfig, retryCount + 1);
+      }
+
+      // リトライ不可能なエラー、またはリトライ上限に達した場合
+      console.error(`  ❌ Gemini API error: ${error?.message || error}`);
+      throw new Error(`Gemini API error: ${error?.message || 'Unknown error'}. Please try again later.`);
+    }
+  }
+}
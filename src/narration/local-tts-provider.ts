@@ -0,0 +1,81 @@
+import { SpeechStyle, SynthesizedAudio, TtsProvider, TtsVoice } from './tts-provider.js';
+
+/**
+ * トーン合成の声（基準の高さ）
+ */
+const localVoices: Array<TtsVoice & { baseFrequency: number }> = [
+  { name: 'tone-low', description: '低めのトーン', baseFrequency: 180 },
+  { name: 'tone-high', description: '高めのトーン', baseFrequency: 320 }
+];
+
+const sampleRate = 24000;
+const charSec = 0.12; // 1文字あたりの長さ
+const pauseSec = 0.15; // 読点・空白の無音
+const sentencePauseSec = 0.4; // 句点・改行の無音
+const fadeSec = 0.01; // 文字の境界のクリックノイズを防ぐフェード
+const amplitude = 0.3;
+const emphasisAmplitude = 0.5; // {emphasis} は音を大きくする
+
+/**
+ * LocalTtsProvider - オフラインで動く決定的なトーン合成（APIキー・ネットワーク不要）
+ *
+ * 1文字ごとに文字コードで決まる高さの短いトーンを鳴らし、句読点・改行は無音にする
+ * 同じテキストと声からは常に同じPCMが得られ、長さはテキストの長さに比例するため、
+ * ナレーションのパイプライン（分割・変換・スライドへの埋め込み・表示時間）のテストやプレビューに使う
+ */
+export class LocalTtsProvider implements TtsProvider {
+  readonly name = 'local';
+  readonly model = 'tone-v1';
+  readonly defaultVoice = 'tone-low';
+  readonly maxChunkChars = 1000;
+  readonly rateLimited = false;
+
+  listVoices(): TtsVoice[] {
+    return localVoices.map(({ name, description }) => ({ name, description }));
+  }
+
+  async synthesize(text: string, voice: string, style: SpeechStyle = {}): Promise<SynthesizedAudio> {
+    const profile = localVoices.find(item => item.name === voice);
+    if (!profile) {
+      throw new Error(`Unknown voice "${voice}" for the local TTS provider (expected one of: ${localVoices.map(item => item.name).join(', ')})`);
+    }
+
+    const segments: Int16Array[] = [];
+    for (const char of text.trim()) {
+      if (/[。．.！!？?\n]/.test(char)) {
+        segments.push(silence(sentencePauseSec));
+      } else if (/[、，,\s・「」『』（）()]/.test(char)) {
+        segments.push(silence(pauseSec));
+      } else {
+        const frequency = profile.baseFrequency * (1 + (char.codePointAt(0)! % 12) / 12);
+        segments.push(tone(frequency, style.emphasis ? emphasisAmplitude : amplitude));
+      }
+    }
+
+    const samples = new Int16Array(segments.reduce((sum, segment) => sum + segment.length, 0));
+    let offset = 0;
+    for (const segment of segments) {
+      samples.set(segment, offset);
+      offset += segment.length;
+    }
+    return { pcm: Buffer.from(samples.buffer), sampleRate };
+  }
+}
+
+function silence(seconds: number): Int16Array {
+  return new Int16Array(Math.round(seconds * sampleRate));
+}
+
+/**
+ * 1文字分のトーン（両端をフェードする正弦波）
+ */
+function tone(frequency: number, volume: number): Int16Array {
+  const length = Math.round(charSec * sampleRate);
+  const fadeLength = Math.round(fadeSec * sampleRate);
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fadeLength, (length - 1 - i) / fadeLength);
+    samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * volume * 32767);
+  }
+  return samples;
+}
@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import { readFile, writeFile, copyFile, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+
+/**
+ * ナレーションのビルドキャッシュ - 内容が変わっていないセクションの音声を再利用する
+ *
+ * 音声の出力先に narration-cache.json を置き、セクションの音声ファイルごとに
+ * 内容ハッシュ（辞書適用後のテキスト・声・モデル・ノイズ除去の設定）を記録する
+ * ハッシュが一致し、音声ファイルが残っていればTTS APIを呼ばずにそのまま使う
+ */
+
+export const NARRATION_CACHE_FILE = 'narration-cache.json';
+
+const cacheVersion = 2; // 2: セクションの音声もチャンク分割・正規化するようになった（それ以前の音声は再生成する）
+
+/**
+ * 音声の内容を決める入力（どれかが変われば再生成する）
+ */
+export interface NarrationHashInput {
+  text: string; // 辞書適用後のテキスト
+  voice: string;
+  model: string;
+  denoise: unknown; // ノイズ除去の設定（無効の場合は null）
+}
+
+export interface NarrationCacheEntry {
+  hash: string;
+  sectionTitle: string;
+  generatedAt: string;
+}
+
+interface NarrationCacheManifest {
+  version: number;
+  files: Record<string, NarrationCacheEntry>; // 音声ファイル名 → エントリ
+}
+
+/**
+ * セクションの音声ファイル名（section_NN_タイトル.mp3、タイトルは安全な文字だけ残す）
+ * スライドへの埋め込みも同じ規則でファイルを探す
+ */
+export function sectionAudioFilename(sectionTitle: string, sectionIndex: number): string {
+  const safeTitle = sectionTitle
+    .replace(/[^a-zA-Z0-9\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF\s]/g, '')
+    .replace(/\s+/g, '_')
+    .substring(0, 50);
+
+  return `section_${String(sectionIndex + 1).padStart(2, '0')}_${safeTitle}.mp3`;
+}
+
+/**
+ * セクションの内容ハッシュ（SHA-256）
+ */
+export function narrationHash(input: NarrationHashInput): string {
+  const payload = JSON.stringify([input.text, input.voice, input.model, input.denoise ?? null]);
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * 音声ディレクトリのキャッシュマニフェスト
+ */
+export class NarrationCache {
+  private constructor(
+    private readonly dir: string,
+    private files: Record<string, NarrationCacheEntry>
+  ) {}
+
+  /**
+   * マニフェストを読み込む（存在しない・壊れている場合は空のキャッシュ）
+   */
+  static async load(dir: string): Promise<NarrationCache> {
+    const manifestPath = path.join(dir, NARRATION_CACHE_FILE);
+    if (!existsSync(manifestPath)) {
+      return new NarrationCache(dir, {});
+    }
+
+    try {
+      const manifest = JSON.parse(await readFile(manifestPath, 'utf-8')) as NarrationCacheManifest;
+      if (manifest.version !== cacheVersion || typeof manifest.files !== 'object' || manifest.files === null) {
+        console.warn(`⚠️  Ignoring narration cache from another version: ${manifestPath}`);
+        return new NarrationCache(dir, {});
+      }
+      return new NarrationCache(dir, manifest.files);
+    } catch (error) {
+      console.warn(`⚠️  Ignoring unreadable narration cache ${manifestPath}:`, error);
+      return new NarrationCache(dir, {});
+    }
+  }
+
+  /**
+   * 同じハッシュの音声を filename として使えるようにする（使えない場合は false）
+   * セクションの追加・削除で番号がずれた場合は、前回のファイルをコピーして再利用する
+   */
+  async reuse(hash: string, filename: string): Promise<boolean> {
+    const current = this.files[filename];
+    if (current?.hash === hash && existsSync(path.join(this.dir, filename))) {
+      return true;
+    }
+
+    const previous = Object.entries(this.files)
+      .find(([name, entry]) => entry.hash === hash && existsSync(path.join(this.dir, name)));
+    if (!previous) return false;
+
+    await copyFile(path.join(this.dir, previous[0]), path.join(this.dir, filename));
+    this.files[filename] = { ...previous[1] };
+    return true;
+  }
+
+  /**
+   * 生成した音声を記録
+   */
+  record(filename: string, hash: string, sectionTitle: string): void {
+    this.files[filename] = { hash, sectionTitle, generatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * マニフェストを保存する
+   * 今回の台本で使わなかった音声（削除・改名されたセクション、再生成に失敗したセクションの古い音声）は
+   * ファイルごと削除し、番号が同じ別セクションの音声がスライドに埋め込まれないようにする
+   */
+  async save(usedFiles: ReadonlySet<string>): Promise<string[]> {
+    const removed: string[] = [];
+    for (const filename of Object.keys(this.files)) {
+      if (usedFiles.has(filename)) continue;
+
+      delete this.files[filename];
+      const filePath = path.join(this.dir, filename);
+      if (existsSync(filePath)) {
+        await unlink(filePath);
+        removed.push(filename);
+      }
+    }
+
+    const manifest: NarrationCacheManifest = { version: cacheVersion, files: this.files };
+    await writeFile(path.join(this.dir, NARRATION_CACHE_FILE), `${JSON.stringify(manifest, null, 2)}\n`);
+    return removed;
+  }
+}
@@ -1,14 +1,21 @@
-import { GoogleGenAI } from '@google/genai';
 import { writeFile, readFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
-import { ScriptInput, Section } from '../types.js';
+import { DialogueLine, ScriptInput, Section } from '../types.js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { AudioDenoiser, DenoiseLevel, DenoiseOptions, NoiseType } from './audio-denoiser.js';
+import { validateScript, validateVoices, formatValidationReport } from '../script/script-validator.js';
+import { NarrationCache, narrationHash, sectionAudioFilename } from './narration-cache.js';
+import { NarrationJob, NARRATION_JOB_FILE, saveNarrationResult, mergeNarrationResults } from './narration-job.js';
+import { SynthesizedAudio, TtsProvider, createTtsProvider } from './tts-provider.js';
+import { SpeechRun, SpeechChunk, parseSpeechMarkup, mergeSpeechRuns, serializeSpeechRuns, planSpeechChunks, paceTempo } from './speech-markup.js';
+import { splitTextIntoChunks } from './text-chunks.js';
 
 const execAsync = promisify(exec);
 
+const normalizeTempo = 0.95; // 正規化で速度を少し遅くして安定化する倍率
+
 /**
  * ナレーション生成結果
  */
@@ -18,17 +25,68 @@ export interface NarrationResult {
     sectionTitle: string;
     filename: string;
     duration?: number;
+    cached?: boolean; // 前回の音声を再利用した
+    chunks?: number; // 生成時に分割したチャンク数
   }[];
+  failures?: NarrationFailure[];
   error?: string;
   metrics: {
     totalSections: number;
-    successCount: number;
+    successCount: number; // 再利用したセクションを含む
     failureCount: number;
+    cachedCount: number;
     durationMs: number;
     timestamp: string;
   };
 }
 
+/**
+ * 音声を生成できなかったセクション（どのチャンクで失敗したか）
+ */
+export interface NarrationFailure {
+  sectionTitle: string;
+  filename: string;
+  chunk: number; // 失敗したチャンク（1始まり）
+  chunkCount: number;
+  chars: number; // 失敗したチャンクの文字数
+  error: string;
+}
+
+/**
+ * チャンクの音声合成・変換の失敗（何番目のチャンクかを保持する）
+ */
+export class NarrationChunkError extends Error {
+  constructor(readonly chunk: number, readonly chunkCount: number, readonly chars: number, cause: unknown) {
+    super(`Chunk ${chunk}/${chunkCount} (${chars} chars) failed: ${cause instanceof Error ? cause.message : cause}`);
+    this.name = 'NarrationChunkError';
+  }
+}
+
+/**
+ * ナレーション生成のオプション
+ */
+export interface NarrationGenerateOptions {
+  force?: boolean; // キャッシュを使わずすべてのセクションを再生成する
+  resume?: boolean; // 途中で止まった前回のジョブ（narration-job.json）の続きから生成する
+  retryFailed?: NarrationResult; // 前回の結果で失敗したセクションだけを再生成する（他のセクションは生成しない）
+}
+
+/**
+ * 読み上げの一部分（会話形式では1行ごと、話者の声で読む）
+ */
+interface SpeechPart {
+  runs: SpeechRun[];
+  voice: string;
+  speaker?: string; // 会話形式の話者名
+}
+
+/**
+ * 1回の合成の単位（声を指定したチャンク、またはマルチスピーカーで一度に合成する会話）
+ */
+type SynthesisUnit =
+  | SpeechChunk & { voice: string }
+  | SpeechChunk & { dialogue: DialogueLine[]; voices: Record<string, string> };
+
 /**
  * 辞書データ型
  */
@@ -41,17 +99,18 @@ interface Dictionary {
  * NarrationGeneratorAgent - 台本から音声ナレーションを自動生成
  *
  * 機能:
- * - Google Gemini 2.5 Flash Preview TTS を使用した高品質音声合成
+ * - TTSプロバイダーによる音声合成（既定: Google Gemini 2.5 Flash Preview TTS、オフラインの local も選べる）
  * - 辞書機能による専門用語の読み替え
  * - セクションごとの音声ファイル生成（MP3形式）
- * - 30代男性アナウンサー風の声質（Puck voice - upbeat）
+ * - 声の指定（既定の声 < 台本の voice < セクションの voice）
+ * - 会話形式のナレーション（dialogue、2人ならマルチスピーカーで合成、それ以外は1行ずつ話者の声で合成してつなぐ）
  */
 export class NarrationGeneratorAgent {
-  private ai: GoogleGenAI;
+  private provider: TtsProvider;
   private dictionary: Dictionary | null = null;
+  private dictionaryPath: string = './src/narration/dictionary.json';
   private outputDir: string = './output/narration';
-  private voice: string = 'Charon'; // Informative（情報的、ナレーション向き、呼吸音少ない）
-  private ttsModel: string = 'gemini-2.5-flash-preview-tts'; // Gemini 2.5 Flash TTS（呼吸音が少ない）
+  private voice: string; // 台本・セクションで声を指定しない場合の声
   private rateLimitMs: number = 1000; // API rate limit待機時間（デフォルト: 1秒 = 有料プラン想定）
   private denoiser: AudioDenoiser; // ノイズ除去エンジン
   private enableDenoise: boolean = true; // ノイズ除去の有効/無効（デフォルトON - 呼吸音除去）
@@ -61,15 +120,15 @@ export class NarrationGeneratorAgent {
     targetType: NoiseType.BREATH // 呼吸音除去モード
   };
 
-  constructor(apiKey?: string, usePaidTier: boolean = true) {
-    const key = apiKey || process.env.GEMINI_API_KEY;
-    if (!key) {
-      throw new Error('Gemini API key is required. Set GEMINI_API_KEY environment variable.');
-    }
-    this.ai = new GoogleGenAI({ apiKey: key });
+  /**
+   * @param provider 省略時は環境変数 TTS_PROVIDER（既定: gemini、APIキーがなければエラー）
+   */
+  constructor(apiKey?: string, usePaidTier: boolean = true, provider?: TtsProvider) {
+    this.provider = provider || createTtsProvider({ apiKey });
+    this.voice = this.provider.defaultVoice;
 
-    // レート制限設定（有料: 1秒、無料: 35秒）
-    this.rateLimitMs = usePaidTier ? 1000 : 35000;
+    // レート制限設定（有料: 1秒、無料: 35秒、ローカルの合成は待機なし）
+    this.rateLimitMs = !this.provider.rateLimited ? 0 : usePaidTier ? 1000 : 35000;
 
     // ノイズ除去エンジンの初期化
     this.denoiser = new AudioDenoiser();
@@ -87,6 +146,35 @@ export class NarrationGeneratorAgent {
     }
   }
 
+  /**
+   * 音声の出力先を変更（講座のビルドでは章ごとのディレクトリ）
+   */
+  setOutputDir(outputDir: string): void {
+    this.outputDir = outputDir;
+  }
+
+  getOutputDir(): string {
+    return this.outputDir;
+  }
+
+  /**
+   * 読み替え辞書のパスを変更（講座マニフェストの共通辞書など）
+   */
+  setDictionaryPath(dictionaryPath: string): void {
+    this.dictionaryPath = dictionaryPath;
+  }
+
+  /**
+   * 声を変更（プロバイダーにない声はエラー）
+   */
+  setVoice(voice: string): void {
+    const voices = this.provider.listVoices().map(item => item.name);
+    if (!voices.includes(voice)) {
+      throw new Error(`Unknown voice "${voice}" for the ${this.provider.name} TTS provider (available: ${voices.join(', ')})`);
+    }
+    this.voice = voice;
+  }
+
   /**
    * ノイズ除去の設定
    */
@@ -101,7 +189,7 @@ export class NarrationGeneratorAgent {
   /**
    * 辞書を読み込む
    */
-  async loadDictionary(dictionaryPath: string = './src/narration/dictionary.json'): Promise<void> {
+  async loadDictionary(dictionaryPath: string = this.dictionaryPath): Promise<void> {
     try {
       const data = await readFile(dictionaryPath, 'utf-8');
       this.dictionary = JSON.parse(data);
@@ -137,70 +225,110 @@ export class NarrationGeneratorAgent {
   }
 
   /**
-   * セクションからナレーション用テキストを抽出
+   * セクションからナレーション用テキストを抽出（ナレーションの読み上げ記法は解析済み）
+   * 会話形式のセクションは会話の各行だけを話者の声で読む
    */
-  private extractNarrationText(section: Section): string {
-    const parts: string[] = [];
+  private extractSpeech(script: ScriptInput, section: Section): SpeechPart[] {
+    if (section.dialogue && section.dialogue.length > 0) {
+      return section.dialogue.map(line => ({
+        runs: parseSpeechMarkup(line.text),
+        voice: script.speakers?.[line.speaker] || this.voice,
+        speaker: line.speaker
+      }));
+    }
+
+    const plain = (text: string): SpeechRun => ({ type: 'text', text, pace: 'normal', emphasis: false });
+    const parts: SpeechRun[][] = [];
 
     // タイトル
     if (section.title) {
-      parts.push(section.title);
+      parts.push([plain(section.title)]);
     }
 
     // サブタイトル
     if (section.subtitle) {
-      parts.push(section.subtitle);
+      parts.push([plain(section.subtitle)]);
     }
 
-    // ナレーション
+    // ナレーション（[pause] / {slow} / {read:…} などの記法を含む）
     if (section.narration) {
-      parts.push(section.narration);
+      parts.push(parseSpeechMarkup(section.narration));
     }
 
     // 箇条書き
     if (section.bullets && section.bullets.length > 0) {
-      parts.push(...section.bullets);
+      parts.push(...section.bullets.map(bullet => [plain(bullet)]));
     }
 
-    return parts.join('\n\n');
+    const runs = parts.flatMap((items, i) => i === 0 ? items : [plain('\n\n'), ...items]);
+    return [{ runs, voice: section.voice || script.voice || this.voice }];
   }
 
   /**
-   * テキストを適切な長さに分割
-   * Gemini TTS制限: 約1000-1500文字（750語）が上限
-   * 句点（。）で自然に分割し、各チャンクを800-1000文字程度に保つ
+   * 読み上げに辞書を適用（読み指定の箇所には適用しない）して、同じ読み方の隣り合うテキストをつなげる
    */
-  private splitTextIntoChunks(text: string, maxChunkSize: number = 1000): string[] {
-    // 短いテキストはそのまま返す
-    if (text.length <= maxChunkSize) {
-      return [text];
-    }
-
-    const chunks: string[] = [];
-    const sentences = text.split(/(?<=[。！？\n])/); // 句点、感嘆符、疑問符、改行で分割
+  private applyDictionaryToRuns(runs: SpeechRun[]): SpeechRun[] {
+    return mergeSpeechRuns(runs.map(run =>
+      run.type === 'text' && !run.literal ? { ...run, text: this.applyDictionary(run.text) } : run
+    ));
+  }
 
-    let currentChunk = '';
+  /**
+   * 読み上げを合成の単位に分ける
+   * 2人の会話で記法（間・速さ・強調）のない行だけなら、プロバイダーのマルチスピーカー合成で数行ずつまとめて合成する
+   * それ以外は部分ごとにチャンクに分け、それぞれの声で合成する
+   */
+  private planSynthesis(parts: SpeechPart[]): SynthesisUnit[] {
+    const max = this.provider.maxChunkChars;
+    const voices = Object.fromEntries(parts.flatMap(part => part.speaker ? [[part.speaker, part.voice]] : []));
+    const lines = parts.map(part => ({ speaker: part.speaker, runs: mergeSpeechRuns(part.runs) }));
+    const multiSpeaker = this.provider.synthesizeDialogue !== undefined &&
+      Object.keys(voices).length === this.provider.dialogueSpeakers &&
+      lines.every(line => line.runs.every(run => run.type === 'text' && run.pace === 'normal' && !run.emphasis));
+
+    if (!multiSpeaker) {
+      return parts.flatMap(part => planSpeechChunks(part.runs, max).map(chunk => ({ ...chunk, voice: part.voice })));
+    }
 
-    for (const sentence of sentences) {
-      // 現在のチャンクに追加しても maxChunkSize を超えない場合
-      if ((currentChunk + sentence).length <= maxChunkSize) {
-        currentChunk += sentence;
-      } else {
-        // 現在のチャンクを保存
-        if (currentChunk) {
-          chunks.push(currentChunk.trim());
+    // 「話者: セリフ」の行を上限の文字数までまとめる（長いセリフは文で分ける）
+    const groups: DialogueLine[][] = [];
+    let length = 0;
+    for (const line of lines) {
+      const text = line.runs.map(run => run.type === 'text' ? run.text : '').join('').trim();
+      for (const piece of text ? splitTextIntoChunks(text, max) : []) {
+        const dialogueLine = { speaker: line.speaker!, text: piece };
+        const lineLength = dialogueLine.speaker.length + piece.length + 3; // "話者: " と改行
+        if (groups.length === 0 || length + lineLength > max) {
+          groups.push([]);
+          length = 0;
         }
-        // 新しいチャンクを開始
-        currentChunk = sentence;
+        groups[groups.length - 1].push(dialogueLine);
+        length += lineLength;
       }
     }
 
-    // 最後のチャンクを追加
-    if (currentChunk) {
-      chunks.push(currentChunk.trim());
-    }
+    return groups.map(group => ({
+      text: group.map(line => `${line.speaker}: ${line.text}`).join('\n'),
+      pace: 'normal',
+      emphasis: false,
+      pauseBeforeMs: 0,
+      pauseAfterMs: 0,
+      dialogue: group,
+      voices
+    }));
+  }
 
-    return chunks.filter(chunk => chunk.length > 0);
+  /**
+   * 合成の単位から音声を合成
+   */
+  private async synthesizeUnit(unit: SynthesisUnit): Promise<SynthesizedAudio> {
+    if ('dialogue' in unit) {
+      if (!this.provider.synthesizeDialogue) {
+        throw new Error(`The ${this.provider.name} TTS provider does not support multi-speaker dialogue`);
+      }
+      return this.provider.synthesizeDialogue(unit.dialogue, unit.voices);
+    }
+    return this.provider.synthesize(unit.text, unit.voice, unit.emphasis ? { emphasis: true } : undefined);
   }
 
   /**
@@ -235,25 +363,21 @@ export class NarrationGeneratorAgent {
 
   /**
    * PCMデータをMP3に変換（ffmpeg使用）
-   * @param base64PcmData Base64エンコードされたPCMデータ
+   * @param audio プロバイダーが合成した音声（モノラル, 16-bit PCM）
    * @param outputPath 出力MP3ファイルパス
    */
-  private async pcmToMp3(base64PcmData: string, outputPath: string): Promise<void> {
-    // Base64デコード
-    const pcmBuffer = Buffer.from(base64PcmData, 'base64');
-
+  private async pcmToMp3(audio: SynthesizedAudio, outputPath: string): Promise<void> {
     // 一時PCMファイルに保存
     const tempPcmPath = outputPath.replace('.mp3', '_temp.pcm');
-    await writeFile(tempPcmPath, pcmBuffer);
+    await writeFile(tempPcmPath, audio.pcm);
 
     try {
       // ffmpegでPCMをMP3に変換
-      // Gemini TTS: 24000Hz, モノラル, 16-bit PCM
       const tempMp3Path = this.enableDenoise
         ? outputPath.replace('.mp3', '_raw.mp3')
         : outputPath;
 
-      const ffmpegCmd = `ffmpeg -f s16le -ar 24000 -ac 1 -i "${tempPcmPath}" -codec:a libmp3lame -b:a 128k -y "${tempMp3Path}"`;
+      const ffmpegCmd = `ffmpeg -f s16le -ar ${audio.sampleRate} -ac 1 -i "${tempPcmPath}" -codec:a libmp3lame -b:a 128k -y "${tempMp3Path}"`;
 
       await execAsync(ffmpegCmd);
 
@@ -283,89 +407,93 @@ export class NarrationGeneratorAgent {
   }
 
   /**
-   * 単一セクションの音声を生成
+   * 単一セクションの音声を生成（辞書適用済みの読み上げを渡す）
    */
   private async generateSectionAudio(
-    text: string,
+    parts: SpeechPart[],
     sectionTitle: string,
-    sectionIndex: number
-  ): Promise<{ filename: string; success: boolean }> {
-    try {
-      // 辞書適用
-      const processedText = this.applyDictionary(text);
-
-      // 文字数チェック（Geminiの制限は明示されていないが、長すぎる場合は分割を検討）
-      if (processedText.length > 5000) {
-        console.warn(`⚠️  Section "${sectionTitle}" is very long (${processedText.length} chars), may take longer...`);
-      }
-
-      console.log(`  🎙️  Generating audio for: ${sectionTitle} (${processedText.length} chars)`);
-
-      // Gemini TTS API呼び出し（公式ドキュメント準拠の形式）
-      const response = await this.ai.models.generateContent({
-        model: this.ttsModel,
-        contents: [{ parts: [{ text: processedText }] }],
-        config: {
-          responseModalities: ['AUDIO'],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: {
-                voiceName: this.voice,
-              },
-            },
-          },
-        },
-      });
-
-      // 音声データを取得
-      const audioPart = response.candidates?.[0]?.content?.parts?.[0];
-
-      if (!audioPart || !('inlineData' in audioPart) || !audioPart.inlineData?.data) {
-        throw new Error('No audio data returned from Gemini API');
-      }
-
-      const base64PcmData = audioPart.inlineData.data;
-
-      // ファイル名生成（安全な形式）
-      const safeTitle = sectionTitle
-        .replace(/[^a-zA-Z0-9\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF\s]/g, '')
-        .replace(/\s+/g, '_')
-        .substring(0, 50);
-
-      const filename = `section_${String(sectionIndex + 1).padStart(2, '0')}_${safeTitle}.mp3`;
-      const filepath = path.join(this.outputDir, filename);
-
-      // PCMをMP3に変換してファイル保存
-      console.log(`  🔄 Converting PCM to MP3...`);
-      await this.pcmToMp3(base64PcmData, filepath);
+    filename: string
+  ): Promise<{ success: true; chunks: number } | { success: false; failure: NarrationFailure }> {
+    const chars = speechLength(parts);
+    console.log(`  🎙️  Generating audio for: ${sectionTitle} (${chars} chars)`);
 
+    try {
+      const chunks = await this.synthesizeToFile(this.planSynthesis(parts), path.join(this.outputDir, filename));
       console.log(`  ✅ Saved: ${filename}`);
-
-      return { filename, success: true };
+      return { success: true, chunks };
 
     } catch (error) {
-      console.error(`  ❌ Failed to generate audio for "${sectionTitle}":`, error);
-      return { filename: '', success: false };
+      console.error(`  ❌ Failed to generate audio for "${sectionTitle}":`, error instanceof Error ? error.message : error);
+      const chunk = error instanceof NarrationChunkError
+        ? { chunk: error.chunk, chunkCount: error.chunkCount, chars: error.chars }
+        : { chunk: 1, chunkCount: 1, chars };
+      return {
+        success: false,
+        failure: { sectionTitle, filename, ...chunk, error: error instanceof Error ? error.message : String(error) }
+      };
     }
   }
 
   /**
    * 台本全体からナレーションを生成
+   * 前回から内容（辞書適用後のテキスト・声・モデル・ノイズ除去の設定）が変わっていないセクションは
+   * 出力先の narration-cache.json を参照して既存の音声を再利用する（options.force で無効化）
+   * 台本の声（voice・speakers）がプロバイダーにない場合は、TTS APIを呼ばずにエラーを返す
+   *
+   * セクションを処理するたびに進み具合を narration-job.json に保存し、最後に結果を narration-result.json に保存する
+   * - options.resume: 前回のジョブで生成済みのセクションを飛ばして続きから生成する
+   * - options.retryFailed: 前回の結果で失敗したセクションだけを生成する
    */
-  async generate(script: ScriptInput): Promise<NarrationResult> {
+  async generate(script: ScriptInput, options: NarrationGenerateOptions = {}): Promise<NarrationResult> {
     const startTime = Date.now();
+    const errorResult = (error: string): NarrationResult => ({
+      status: 'error',
+      error,
+      metrics: {
+        totalSections: Array.isArray(script.sections) ? script.sections.length : 0,
+        successCount: 0,
+        failureCount: 0,
+        cachedCount: 0,
+        durationMs: Date.now() - startTime,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+    // 台本の検証（エラーがあればTTS APIを呼ばずに終了）
+    let validation = validateScript(script);
+    if (validation.valid) {
+      validation = validateVoices(script, this.provider.listVoices().map(voice => voice.name), this.provider.name);
+    }
+    if (!validation.valid) {
+      console.error(formatValidationReport(validation));
+      return errorResult(`Invalid script: ${validation.issues.filter(issue => issue.severity === 'error').length} error(s)`);
+    }
+    if (options.force && (options.resume || options.retryFailed)) {
+      return errorResult('force cannot be combined with resume or retryFailed');
+    }
 
     console.log(`🎬 Generating narration for: ${script.title}`);
     console.log(`📊 Total sections: ${script.sections.length}\n`);
+    await this.ensureOutputDir();
 
     // 辞書読み込み
     await this.loadDictionary();
 
-    const results: { sectionTitle: string; filename: string }[] = [];
-    let successCount = 0;
-    let failureCount = 0;
+    // 前回のジョブ（続きからの生成・失敗したセクションの再生成で使う）
+    const previousJob = options.resume || options.retryFailed ? await NarrationJob.load(this.outputDir) : null;
+    if (options.resume && !previousJob) {
+      return errorResult(`No narration job to resume in ${this.outputDir} (${NARRATION_JOB_FILE} not found)`);
+    }
+    if (previousJob && previousJob.scriptTitle !== script.title) {
+      return errorResult(`The narration job in ${this.outputDir} is for "${previousJob.scriptTitle}", not "${script.title}" (run without resume or retryFailed to start a new job)`);
+    }
 
-    // セクションごとに処理
+    const cache = await NarrationCache.load(this.outputDir);
+    const denoise = this.enableDenoise ? this.denoiseOptions : null;
+    const usedFiles = new Set<string>();
+
+    // 読み上げるセクションとその音声ファイル・内容ハッシュ
+    const plans: Array<{ section: Section; parts: SpeechPart[]; filename: string; hash: string }> = [];
     for (let i = 0; i < script.sections.length; i++) {
       const section = script.sections[i];
 
@@ -375,24 +503,76 @@ export class NarrationGeneratorAgent {
         continue;
       }
 
-      // ナレーション用テキスト抽出
-      const narrationText = this.extractNarrationText(section);
+      // ナレーション用テキスト抽出（読み上げ記法の誤りは台本の検証で error になっている）
+      const parts = this.extractSpeech(script, section)
+        .map(part => ({ ...part, runs: this.applyDictionaryToRuns(part.runs) }));
 
-      if (!narrationText || narrationText.trim().length === 0) {
+      if (speechLength(parts) === 0) {
         console.log(`  ⏭️  Skipping: ${section.title} (no narration text)`);
         continue;
       }
 
+      const filename = sectionAudioFilename(section.title, i);
+      const hash = narrationHash({ ...speechHashInput(parts), model: `${this.provider.name}/${this.provider.model}`, denoise });
+      plans.push({ section, parts, filename, hash });
+    }
+
+    const job = NarrationJob.start(this.outputDir, script.title, previousJob);
+    await job.plan(plans.map(({ section, filename, hash }) => ({ filename, hash, sectionTitle: section.title })));
+
+    // 失敗したセクションの再生成では、それ以外のセクションは生成しない
+    const retryFiles = options.retryFailed ? new Set((options.retryFailed.failures || []).map(failure => failure.filename)) : null;
+    if (retryFiles) {
+      const unknown = [...retryFiles].filter(filename => !plans.some(plan => plan.filename === filename));
+      console.log(`🔁 Retrying ${retryFiles.size - unknown.length} failed section(s)`);
+      for (const filename of unknown) {
+        console.warn(`⚠️  Failed section is no longer in the script: ${filename}`);
+      }
+    }
+
+    const results: NonNullable<NarrationResult['files']> = [];
+    const failures: NarrationFailure[] = [];
+    let successCount = 0;
+    let failureCount = 0;
+    let cachedCount = 0;
+
+    // セクションごとに処理（終わるたびにジョブマニフェストを保存）
+    for (const { section, parts, filename, hash } of plans) {
+      // 前回のジョブで生成済み・内容が変わっていなければ前回の音声を再利用（APIを呼ばないので待機も不要）
+      if (!options.force && (job.isDone(filename, hash) || await cache.reuse(hash, filename))) {
+        console.log(`  ♻️  Unchanged: ${section.title} (${filename})`);
+        results.push({ sectionTitle: section.title, filename, cached: true });
+        cache.record(filename, hash, section.title);
+        await job.update(filename, 'done', false);
+        usedFiles.add(filename);
+        successCount++;
+        cachedCount++;
+        continue;
+      }
+
+      // 再生成の対象でないセクションは生成しない（変更されていても今の音声を残す）
+      if (retryFiles && !retryFiles.has(filename)) {
+        console.log(`  ⏭️  Not retried: ${section.title} (no up-to-date audio, run without --retry-failed to generate it)`);
+        usedFiles.add(filename);
+        continue;
+      }
+
       // 音声生成
-      const result = await this.generateSectionAudio(narrationText, section.title, i);
+      const result = await this.generateSectionAudio(parts, section.title, filename);
 
       if (result.success) {
         results.push({
           sectionTitle: section.title,
-          filename: result.filename
+          filename,
+          chunks: result.chunks
         });
+        cache.record(filename, hash, section.title);
+        await job.update(filename, 'done', true);
+        usedFiles.add(filename);
         successCount++;
       } else {
+        failures.push(result.failure);
+        await job.update(filename, 'failed', true, result.failure.error);
         failureCount++;
       }
 
@@ -400,89 +580,69 @@ export class NarrationGeneratorAgent {
       await new Promise(resolve => setTimeout(resolve, this.rateLimitMs));
     }
 
+    const removed = await cache.save(usedFiles);
+    if (removed.length > 0) {
+      console.log(`\n🧹 Removed ${removed.length} outdated audio file(s)`);
+    }
+
     const durationMs = Date.now() - startTime;
 
     console.log(`\n✅ Narration generation complete!`);
-    console.log(`📊 Success: ${successCount}, Failed: ${failureCount}`);
+    console.log(`📊 Success: ${successCount} (reused: ${cachedCount}), Failed: ${failureCount}`);
+    for (const failure of failures) {
+      console.log(`   ❌ ${failure.sectionTitle}: chunk ${failure.chunk}/${failure.chunkCount} (${failure.chars} chars) - ${failure.error}`);
+    }
     console.log(`⏱️  Duration: ${durationMs}ms`);
 
-    return {
+    const runResult: NarrationResult = {
       status: failureCount === 0 ? 'success' : 'error',
       files: results,
+      ...(failures.length > 0 ? { failures } : {}),
       metrics: {
         totalSections: script.sections.length,
         successCount,
         failureCount,
+        cachedCount,
         durationMs,
         timestamp: new Date().toISOString()
       }
     };
+    // 失敗したセクションの再生成では、再生成しなかったセクションの前回の結果を残す
+    const narrationResult = options.retryFailed
+      ? mergeNarrationResults(options.retryFailed, runResult, plans.map(plan => plan.filename))
+      : runResult;
+    await saveNarrationResult(this.outputDir, narrationResult);
+    return narrationResult;
   }
 
   /**
-   * 単一チャンクから音声を生成（内部用）
-   * リトライ機能付き
+   * チャンクの前後に間の無音を付ける（後で atempo で伸縮される分を見込んだ長さ）
    */
-  private async generateAudioChunk(text: string, retryCount: number = 0): Promise<string> {
-    const maxRetries = 3;
+  private withPauses(audio: SynthesizedAudio, chunk: SynthesisUnit): SynthesizedAudio {
+    if (chunk.pauseBeforeMs === 0 && chunk.pauseAfterMs === 0) return audio;
 
-    try {
-      const response = await this.ai.models.generateContent({
-        model: this.ttsModel,
-        contents: [{ parts: [{ text: text }] }],
-        config: {
-          responseModalities: ['AUDIO'],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: {
-                voiceName: this.voice,
-              },
-            },
-          },
-        },
-      });
-
-      const audioPart = response.candidates?.[0]?.content?.parts?.[0];
-
-      if (!audioPart || !('inlineData' in audioPart) || !audioPart.inlineData?.data) {
-        throw new Error('No audio data returned from Gemini API');
-      }
-
-      return audioPart.inlineData.data;
-
-    } catch (error: any) {
-      // Gemini APIの内部エラー（500番台）の場合はリトライ
-      const isRetryableError =
-        error?.message?.includes('INTERNAL') ||
-        error?.message?.includes('500') ||
-        error?.message?.includes('503');
-
-      if (isRetryableError && retryCount < maxRetries) {
-        const waitTime = Math.pow(2, retryCount) * 1000; // 指数バックオフ: 1秒, 2秒, 4秒
-        console.log(`  ⚠️  API error, retrying in ${waitTime/1000}s... (attempt ${retryCount + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        return this.generateAudioChunk(text, retryCount + 1);
-      }
-
-      // リトライ不可能なエラー、またはリトライ上限に達した場合
-      console.error(`  ❌ Gemini API error: ${error?.message || error}`);
-      throw new Error(`Gemini API error: ${error?.message || 'Unknown error'}. Please try again later.`);
-    }
+    const tempo = normalizeTempo * paceTempo[chunk.pace];
+    const silence = (ms: number) => Buffer.alloc(Math.round((ms * tempo * audio.sampleRate) / 1000) * 2); // 16-bit
+    return {
+      pcm: Buffer.concat([silence(chunk.pauseBeforeMs), audio.pcm, silence(chunk.pauseAfterMs)]),
+      sampleRate: audio.sampleRate
+    };
   }
 
   /**
    * 音声の速度・声質・トーンを統一
    * 高品質なフィルタを使用し、音質劣化を最小限に抑える
+   * @param paceTempo 読み上げ記法の {slow} / {fast} の速さ（0.95倍にさらに掛ける）
    */
-  private async normalizeAudioCharacteristics(inputPath: string, outputPath: string): Promise<void> {
+  private async normalizeAudioCharacteristics(inputPath: string, outputPath: string, paceTempo: number = 1): Promise<void> {
     console.log(`  🎵 Normalizing speed, voice quality, and tone...`);
 
     // 複数のフィルタを組み合わせて声質を統一
-    // 1. atempo=0.95: 速度を少し遅くして安定化
+    // 1. atempo=0.95: 速度を少し遅くして安定化（{slow} / {fast} の箇所はその倍率も掛ける）
     // 2. dynaudnorm: 動的音量正規化（loudnormより自然、こもらない）
     // 3. highpass/lowpass: 軽いフィルタリングでトーンを統一
     const filters = [
-      'atempo=0.95',                          // 速度を0.95倍に
+      `atempo=${Number((normalizeTempo * paceTempo).toFixed(4))}`, // 速度を0.95倍に
       'dynaudnorm=f=75:g=3:p=0.9:s=5',       // 動的音量正規化（自然）
       'highpass=f=80',                        // 80Hz以下の低音ノイズをカット
       'lowpass=f=12000',                      // 12kHz以上の高音ノイズをカット
@@ -494,45 +654,61 @@ export class NarrationGeneratorAgent {
   }
 
   /**
-   * 単一テキストから音声を生成
-   * Gemini TTS制限（約1000文字）を考慮して自動的に分割
+   * 単一テキストから音声を生成（読み上げ記法を使える）
    */
   async generateFromText(
     text: string,
     filename: string = 'test_narration.mp3'
   ): Promise<void> {
+    await this.ensureOutputDir();
     await this.loadDictionary();
-    const processedText = this.applyDictionary(text);
+    const parts = [{ runs: this.applyDictionaryToRuns(parseSpeechMarkup(text)), voice: this.voice }];
 
-    console.log(`🎙️  Generating audio from text (${processedText.length} chars)...`);
+    console.log(`🎙️  Generating audio from text (${speechLength(parts)} chars)...`);
+
+    const filepath = path.join(this.outputDir, filename);
+    await this.synthesizeToFile(this.planSynthesis(parts), filepath);
+    console.log(`✅ Audio saved: ${filepath}`);
+  }
 
-    // Gemini TTS制限を考慮して分割（1000文字チャンク）
-    const chunks = this.splitTextIntoChunks(processedText, 1000);
+  /**
+   * 辞書適用済みの読み上げから1つのMP3を生成する（台本・単一テキスト共通）
+   * TTSプロバイダーの制限（Gemini: 約1000文字）・読み方（速さ・強調）・声の変わり目で分けたチャンク（planSynthesis）ごとに
+   * 合成（リトライはプロバイダー側）・間の無音の挿入・正規化（{slow} / {fast} は atempo）をしてから結合する
+   * 失敗した場合は NarrationChunkError を投げ、一時ファイルは残さない
+   * @returns チャンク数
+   */
+  private async synthesizeToFile(chunks: SynthesisUnit[], filepath: string): Promise<number> {
 
     if (chunks.length > 1) {
-      console.log(`📋 Text split into ${chunks.length} chunks (Gemini TTS limit: ~1000 chars)`);
+      console.log(`  📋 Text split into ${chunks.length} chunks (${this.provider.name} TTS limit: ~${this.provider.maxChunkChars} chars, speech markup)`);
     }
 
-    const filepath = path.join(this.outputDir, filename);
     const tempFiles: string[] = [];
 
     try {
       // 各チャンクで音声を生成
       for (let i = 0; i < chunks.length; i++) {
         const chunk = chunks[i];
-        console.log(`  🎤 Generating chunk ${i + 1}/${chunks.length} (${chunk.length} chars)...`);
+        if (chunks.length > 1) {
+          console.log(`  🎤 Generating chunk ${i + 1}/${chunks.length} (${chunk.text.length} chars)...`);
+        }
 
-        const base64PcmData = await this.generateAudioChunk(chunk);
-        const tempFilename = `${filename.replace('.mp3', '')}_chunk_${i}.mp3`;
-        const tempFilepath = path.join(this.outputDir, tempFilename);
+        const tempFilepath = filepath.replace(/\.mp3$/, `_chunk_${i}.mp3`);
+        const normalizedPath = tempFilepath.replace('.mp3', '_normalized.mp3');
+        try {
+          const audio = await this.synthesizeUnit(chunk);
 
-        // PCMをMP3に変換
-        await this.pcmToMp3(base64PcmData, tempFilepath);
+          // 間の無音を付けてPCMをMP3に変換
+          await this.pcmToMp3(this.withPauses(audio, chunk), tempFilepath);
 
-        // 速度・声質・トーンを統一
-        const normalizedPath = tempFilepath.replace('.mp3', '_normalized.mp3');
-        await this.normalizeAudioCharacteristics(tempFilepath, normalizedPath);
-        await execAsync(`rm "${tempFilepath}"`);
+          // 速度・声質・トーンを統一
+          await this.normalizeAudioCharacteristics(tempFilepath, normalizedPath, paceTempo[chunk.pace]);
+          await execAsync(`rm "${tempFilepath}"`);
+        } catch (error) {
+          await execAsync(`rm -f "${tempFilepath}" "${normalizedPath}"`).catch(() => undefined);
+          throw new NarrationChunkError(i + 1, chunks.length, chunk.text.length, error);
+        }
 
         tempFiles.push(normalizedPath);
 
@@ -544,14 +720,13 @@ export class NarrationGeneratorAgent {
 
       // 複数チャンクの場合は結合
       if (tempFiles.length > 1) {
-        console.log(`  🔗 Concatenating ${tempFiles.length} audio chunks...`);
         await this.concatenateAudioFiles(tempFiles, filepath);
       } else if (tempFiles.length === 1) {
         // 1チャンクの場合はリネーム
         await execAsync(`mv "${tempFiles[0]}" "${filepath}"`);
       }
 
-      console.log(`✅ Audio saved: ${filepath}`);
+      return chunks.length;
 
     } catch (error) {
       // エラー時は一時ファイルをクリーンアップ
@@ -564,3 +739,25 @@ export class NarrationGeneratorAgent {
     }
   }
 }
+
+/**
+ * 読み上げるテキストの文字数（空白のみのテキストは 0）
+ */
+function speechLength(parts: SpeechPart[]): number {
+  return parts.reduce((sum, part) =>
+    sum + part.runs.reduce((partSum, run) => partSum + (run.type === 'text' ? run.text.trim().length : 0), 0), 0);
+}
+
+/**
+ * キャッシュのハッシュに使うテキストと声
+ * 会話形式は「話者: セリフ」の行と話者ごとの声（1人で読むセクションは従来と同じ値になる）
+ */
+function speechHashInput(parts: SpeechPart[]): { text: string; voice: string } {
+  if (parts.some(part => part.speaker !== undefined)) {
+    return {
+      text: parts.map(part => `${part.speaker}: ${serializeSpeechRuns(part.runs)}`).join('\n'),
+      voice: JSON.stringify(Object.fromEntries(parts.map(part => [part.speaker, part.voice])))
+    };
+  }
+  return { text: parts.map(part => serializeSpeechRuns(part.runs)).join(''), voice: parts[0]?.voice ?? '' };
+}
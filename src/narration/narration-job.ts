@@ -0,0 +1,194 @@
+import { readFile, writeFile, rename } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import type { NarrationResult } from './narration-generator.js';
+
+/**
+ * ナレーションのジョブマニフェスト - 生成の進み具合をセクションごとにファイルへ書き出す
+ *
+ * 音声の出力先に narration-job.json を置き、セクションの処理が終わるたびに
+ * 状態（pending / done / failed）・音声ファイル名・内容ハッシュ・試行回数・エラーを保存する
+ * 途中で止まった長い台本は、このマニフェストから続きを生成できる（--resume）
+ * 最後まで終わった生成の結果は narration-result.json に保存し、失敗したセクションの再生成に使う（--retry-failed）
+ */
+
+export const NARRATION_JOB_FILE = 'narration-job.json';
+export const NARRATION_RESULT_FILE = 'narration-result.json';
+
+const jobVersion = 1;
+
+export type NarrationJobStatus = 'pending' | 'done' | 'failed';
+
+export interface NarrationJobEntry {
+  sectionTitle: string;
+  status: NarrationJobStatus;
+  hash: string; // 内容ハッシュ（narrationHash、変わっていれば done でも再生成する）
+  attempts: number; // 音声の生成を試みた回数（再利用した回は数えない）
+  error?: string; // 最後に失敗したときのエラー
+  updatedAt: string;
+}
+
+interface NarrationJobManifest {
+  version: number;
+  scriptTitle: string;
+  startedAt: string;
+  updatedAt: string;
+  sections: Record<string, NarrationJobEntry>; // 音声ファイル名 → エントリ
+}
+
+/**
+ * 音声ディレクトリのジョブマニフェスト
+ */
+export class NarrationJob {
+  private constructor(
+    private readonly dir: string,
+    private manifest: NarrationJobManifest
+  ) {}
+
+  /**
+   * 新しいジョブを始める（前回のジョブを渡すと各セクションの状態・試行回数を引き継ぐ）
+   */
+  static start(dir: string, scriptTitle: string, previous?: NarrationJob | null): NarrationJob {
+    const now = new Date().toISOString();
+    return new NarrationJob(dir, {
+      version: jobVersion,
+      scriptTitle,
+      startedAt: previous?.manifest.startedAt || now,
+      updatedAt: now,
+      sections: previous ? { ...previous.manifest.sections } : {}
+    });
+  }
+
+  /**
+   * 前回のジョブを読み込む（存在しない・壊れている・別バージョンの場合は null）
+   */
+  static async load(dir: string): Promise<NarrationJob | null> {
+    const manifestPath = path.join(dir, NARRATION_JOB_FILE);
+    if (!existsSync(manifestPath)) return null;
+
+    try {
+      const manifest = JSON.parse(await readFile(manifestPath, 'utf-8')) as NarrationJobManifest;
+      if (manifest.version !== jobVersion || typeof manifest.sections !== 'object' || manifest.sections === null) {
+        console.warn(`⚠️  Ignoring narration job from another version: ${manifestPath}`);
+        return null;
+      }
+      return new NarrationJob(dir, manifest);
+    } catch (error) {
+      console.warn(`⚠️  Ignoring unreadable narration job ${manifestPath}:`, error);
+      return null;
+    }
+  }
+
+  get scriptTitle(): string {
+    return this.manifest.scriptTitle;
+  }
+
+  entry(filename: string): NarrationJobEntry | undefined {
+    return this.manifest.sections[filename];
+  }
+
+  /**
+   * 同じ内容の音声が前回のジョブで生成済みか（音声ファイルが残っている場合のみ）
+   */
+  isDone(filename: string, hash: string): boolean {
+    const entry = this.manifest.sections[filename];
+    return entry?.status === 'done' && entry.hash === hash && existsSync(path.join(this.dir, filename));
+  }
+
+  /**
+   * 今回の台本のセクションだけを残し、まだ生成していないものを pending にする
+   * @param sections 音声ファイル名と内容ハッシュ・タイトル（台本の順）
+   */
+  async plan(sections: Array<{ filename: string; hash: string; sectionTitle: string }>): Promise<void> {
+    const previous = this.manifest.sections;
+    this.manifest.sections = {};
+    for (const { filename, hash, sectionTitle } of sections) {
+      const entry = previous[filename];
+      this.manifest.sections[filename] = entry && entry.hash === hash
+        ? { ...entry, sectionTitle }
+        : { sectionTitle, status: 'pending', hash, attempts: entry?.attempts ?? 0, updatedAt: new Date().toISOString() };
+    }
+    await this.save();
+  }
+
+  /**
+   * セクションの状態を更新してすぐに保存する（途中で止まっても、それまでの進み具合が残る）
+   * @param attempted 今回音声の生成を試みた（試行回数を増やす）
+   */
+  async update(filename: string, status: NarrationJobStatus, attempted: boolean, error?: string): Promise<void> {
+    const entry = this.manifest.sections[filename];
+    if (!entry) return;
+
+    this.manifest.sections[filename] = {
+      sectionTitle: entry.sectionTitle,
+      status,
+      hash: entry.hash,
+      attempts: entry.attempts + (attempted ? 1 : 0),
+      ...(error ? { error } : {}),
+      updatedAt: new Date().toISOString()
+    };
+    await this.save();
+  }
+
+  /**
+   * マニフェストを保存する（書き込みの途中で止まっても壊れないよう、一時ファイルから置き換える）
+   */
+  private async save(): Promise<void> {
+    this.manifest.updatedAt = new Date().toISOString();
+    const manifestPath = path.join(this.dir, NARRATION_JOB_FILE);
+    const tempPath = `${manifestPath}.tmp`;
+    await writeFile(tempPath, `${JSON.stringify(this.manifest, null, 2)}\n`);
+    await rename(tempPath, manifestPath);
+  }
+}
+
+/**
+ * 生成の結果を保存する（--retry-failed で失敗したセクションを再生成するため）
+ */
+export async function saveNarrationResult(dir: string, result: NarrationResult): Promise<void> {
+  await writeFile(path.join(dir, NARRATION_RESULT_FILE), `${JSON.stringify(result, null, 2)}\n`);
+}
+
+/**
+ * 失敗したセクションの再生成の結果を前回の結果に重ねる（今回処理しなかったセクションは前回の結果を残す）
+ * @param filenames 今回の台本の音声ファイル名（台本の順、台本から消えたセクションは残さない）
+ */
+export function mergeNarrationResults(previous: NarrationResult, current: NarrationResult, filenames: string[]): NarrationResult {
+  const files: NonNullable<NarrationResult['files']> = [];
+  const failures: NonNullable<NarrationResult['failures']> = [];
+
+  for (const filename of filenames) {
+    const file = current.files?.find(item => item.filename === filename);
+    const failure = current.failures?.find(item => item.filename === filename);
+    if (file) {
+      files.push(file);
+    } else if (failure) {
+      failures.push(failure);
+    } else {
+      const previousFile = previous.files?.find(item => item.filename === filename);
+      const previousFailure = previous.failures?.find(item => item.filename === filename);
+      if (previousFile) files.push(previousFile);
+      else if (previousFailure) failures.push(previousFailure);
+    }
+  }
+
+  return {
+    status: failures.length === 0 ? 'success' : 'error',
+    files,
+    ...(failures.length > 0 ? { failures } : {}),
+    metrics: {
+      ...current.metrics,
+      successCount: files.length,
+      failureCount: failures.length
+    }
+  };
+}
+
+/**
+ * 保存した生成の結果を読み込む（存在しない場合は null）
+ */
+export async function loadNarrationResult(dir: string): Promise<NarrationResult | null> {
+  const resultPath = path.join(dir, NARRATION_RESULT_FILE);
+  if (!existsSync(resultPath)) return null;
+  return JSON.parse(await readFile(resultPath, 'utf-8')) as NarrationResult;
+}
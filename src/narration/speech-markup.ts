@@ -0,0 +1,206 @@
+import { splitTextIntoChunks } from './text-chunks.js';
+
+/**
+ * ナレーションの読み上げ記法 - 間・強調・速さ・読みをナレーション本文に書き込む
+ *
+ * - [pause 800ms] / [pause 1.5s] / [pause]: 間を入れる（省略時 500ms、無音を挿入）
+ * - {slow}…{/slow} / {fast}…{/fast}: 読む速さを変える（音声を atempo で伸縮）
+ * - {emphasis}…{/emphasis}: 強調して読む（TTSプロバイダーへの指示）
+ * - {read:ジーピーティーフォー}GPT-4{/read}: その箇所だけ読みを指定する（辞書は適用しない）
+ *
+ * スライド・スピーカーノートには記法を取り除いたテキスト（読み指定は表記）を表示する
+ * 上記以外の {…}（プロンプトのテンプレートの {topic} など）は記法ではなく、そのまま読み上げるテキストとして扱う
+ */
+
+export type SpeechPace = 'normal' | 'slow' | 'fast';
+
+export type SpeechRun =
+  | { type: 'text'; text: string; pace: SpeechPace; emphasis: boolean; literal?: boolean } // literal: 読み指定（辞書を適用しない）
+  | { type: 'pause'; ms: number };
+
+/**
+ * 読み上げ記法のエラー（index は記法のテキスト内の位置）
+ */
+export class SpeechMarkupError extends Error {
+  constructor(readonly reason: string, readonly index: number) {
+    super(`Speech markup: ${reason}`);
+    this.name = 'SpeechMarkupError';
+  }
+}
+
+/**
+ * 速さごとの再生速度（atempo の倍率）
+ */
+export const paceTempo: Record<SpeechPace, number> = {
+  normal: 1,
+  slow: 0.85,
+  fast: 1.15
+};
+
+const defaultPauseMs = 500;
+const maxPauseMs = 10000;
+const tagNames = ['slow', 'fast', 'emphasis', 'read'];
+
+const tokenPattern = new RegExp(`\\[pause(?:\\s+([^\\]]*))?\\]|\\{(\\/?)(${tagNames.join('|')})(?::([^}]*))?\\}`, 'g');
+const pausePattern = /^(\d+(?:\.\d+)?)\s*(ms|s)$/;
+
+function parsePause(value: string | undefined, index: number): number {
+  if (value === undefined || !value.trim()) return defaultPauseMs;
+
+  const match = value.trim().match(pausePattern);
+  if (!match) {
+    throw new SpeechMarkupError(`Invalid pause "${value.trim()}" (expected e.g. [pause 800ms] or [pause 1.5s])`, index);
+  }
+  const ms = Math.round(Number(match[1]) * (match[2] === 's' ? 1000 : 1));
+  if (ms <= 0 || ms > maxPauseMs) {
+    throw new SpeechMarkupError(`Pause must be between 1ms and ${maxPauseMs / 1000}s (got ${value.trim()})`, index);
+  }
+  return ms;
+}
+
+/**
+ * 読み上げ記法を解析する（閉じていないタグ・入れ子の誤りなどは SpeechMarkupError）
+ * 空のテキストは含めず、速さ・強調が同じ隣り合うテキストはつなげない（辞書の適用後に mergeSpeechRuns でつなぐ）
+ */
+export function parseSpeechMarkup(text: string): SpeechRun[] {
+  const runs: SpeechRun[] = [];
+  const open: Array<{ name: string; index: number }> = [];
+  let read: { reading: string; index: number; written: string } | null = null;
+  let last = 0;
+
+  const pace = (): SpeechPace => {
+    const tag = [...open].reverse().find(item => item.name === 'slow' || item.name === 'fast');
+    return (tag?.name as SpeechPace | undefined) || 'normal';
+  };
+  const emphasis = () => open.some(item => item.name === 'emphasis');
+  const pushText = (value: string) => {
+    if (read) {
+      read.written += value;
+    } else if (value) {
+      runs.push({ type: 'text', text: value, pace: pace(), emphasis: emphasis() });
+    }
+  };
+
+  for (const match of text.matchAll(tokenPattern)) {
+    const index = match.index!;
+    pushText(text.slice(last, index));
+    last = index + match[0].length;
+
+    if (match[0].startsWith('[')) {
+      if (read) throw new SpeechMarkupError('[pause] cannot be used inside {read:…}', index);
+      runs.push({ type: 'pause', ms: parsePause(match[1], index) });
+      continue;
+    }
+
+    const [, , closing, name, argument] = match;
+
+    if (closing) {
+      if (name === 'read' && read) {
+        if (!read.written.trim()) throw new SpeechMarkupError('{read:…} needs the written text before {/read}', index);
+        runs.push({ type: 'text', text: read.reading, pace: pace(), emphasis: emphasis(), literal: true });
+        read = null;
+        continue;
+      }
+      const top = open[open.length - 1];
+      if (read || !top || top.name !== name) {
+        const expected = read ? '{/read}' : top ? `{/${top.name}}` : 'no closing tag';
+        throw new SpeechMarkupError(`Unexpected "{/${name}}" (expected ${expected})`, index);
+      }
+      open.pop();
+      continue;
+    }
+
+    if (read) throw new SpeechMarkupError(`"{${name}}" cannot be used inside {read:…}`, index);
+    if (name === 'read') {
+      if (!argument?.trim()) throw new SpeechMarkupError('{read:…} needs a reading (e.g. {read:ジーピーティー}GPT{/read})', index);
+      read = { reading: argument.trim(), index, written: '' };
+      continue;
+    }
+    if (argument !== undefined) throw new SpeechMarkupError(`"{${name}}" does not take a value`, index);
+    open.push({ name, index });
+  }
+
+  if (read) throw new SpeechMarkupError('"{read:…}" is not closed with {/read}', read.index);
+  const unclosed = open[open.length - 1];
+  if (unclosed) throw new SpeechMarkupError(`"{${unclosed.name}}" is not closed with {/${unclosed.name}}`, unclosed.index);
+
+  pushText(text.slice(last));
+  return runs;
+}
+
+/**
+ * 速さ・強調が同じ隣り合うテキストをつなげる（1回の合成にまとめる）
+ */
+export function mergeSpeechRuns(runs: SpeechRun[]): SpeechRun[] {
+  const merged: SpeechRun[] = [];
+  for (const run of runs) {
+    const previous = merged[merged.length - 1];
+    if (run.type === 'text' && previous?.type === 'text' && previous.pace === run.pace && previous.emphasis === run.emphasis) {
+      merged[merged.length - 1] = { type: 'text', text: previous.text + run.text, pace: run.pace, emphasis: run.emphasis };
+    } else {
+      merged.push(run.type === 'text' ? { type: 'text', text: run.text, pace: run.pace, emphasis: run.emphasis } : run);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 解析済みの読み上げを記法の文字列に戻す（記法のないテキストはそのまま、キャッシュのハッシュに使う）
+ */
+export function serializeSpeechRuns(runs: SpeechRun[]): string {
+  return runs.map(run => {
+    if (run.type === 'pause') return `[pause ${run.ms}ms]`;
+    let text = run.text;
+    if (run.emphasis) text = `{emphasis}${text}{/emphasis}`;
+    if (run.pace !== 'normal') text = `{${run.pace}}${text}{/${run.pace}}`;
+    return text;
+  }).join('');
+}
+
+/**
+ * 表示用に記法を取り除く（読み指定は表記を残す、記法の誤りがあってもエラーにしない）
+ */
+export function stripSpeechMarkup(text: string): string {
+  return text
+    .replace(/\{read:[^}]*\}([\s\S]*?)\{\/read\}/g, '$1')
+    .replace(/( ?)\[pause(?:\s+[^\]]*)?\] ?/g, '$1')
+    .replace(/\{\/?(?:slow|fast|emphasis)\}/g, '');
+}
+
+/**
+ * 1回の合成に渡すチャンク（前後の間は無音として付ける）
+ */
+export interface SpeechChunk {
+  text: string;
+  pace: SpeechPace;
+  emphasis: boolean;
+  pauseBeforeMs: number;
+  pauseAfterMs: number;
+}
+
+/**
+ * 読み上げを合成の単位に分ける
+ * テキストは maxChunkSize 以下に分割し、間は次のチャンクの前（最後の間は直前のチャンクの後）に付ける
+ */
+export function planSpeechChunks(runs: SpeechRun[], maxChunkSize: number): SpeechChunk[] {
+  const chunks: SpeechChunk[] = [];
+  let pendingPauseMs = 0;
+
+  for (const run of mergeSpeechRuns(runs)) {
+    if (run.type === 'pause') {
+      pendingPauseMs += run.ms;
+      continue;
+    }
+    if (!run.text.trim()) continue;
+
+    for (const text of splitTextIntoChunks(run.text.trim(), maxChunkSize)) {
+      chunks.push({ text, pace: run.pace, emphasis: run.emphasis, pauseBeforeMs: pendingPauseMs, pauseAfterMs: 0 });
+      pendingPauseMs = 0;
+    }
+  }
+
+  if (pendingPauseMs > 0 && chunks.length > 0) {
+    chunks[chunks.length - 1].pauseAfterMs = pendingPauseMs;
+  }
+  return chunks;
+}
@@ -0,0 +1,68 @@
+/**
+ * TTSに渡すテキストの分割
+ *
+ * Gemini TTS制限: 約1000-1500文字（750語）が上限で、超えると失敗・途中で途切れることがある
+ * 句点（。）で自然に分割し、各チャンクを maxChunkSize 以下に保つ
+ */
+
+/**
+ * 1文が maxChunkSize を超える場合は読点（、）で、それでも超える場合は文字数で分割
+ */
+function splitLongSentence(sentence: string, maxChunkSize: number): string[] {
+  if (sentence.length <= maxChunkSize) return [sentence];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const clause of sentence.split(/(?<=[、，,])/)) {
+    if ((current + clause).length <= maxChunkSize) {
+      current += clause;
+      continue;
+    }
+    if (current) parts.push(current);
+    current = clause;
+    while (current.length > maxChunkSize) {
+      parts.push(current.slice(0, maxChunkSize));
+      current = current.slice(maxChunkSize);
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * テキストを maxChunkSize 以下のチャンクに分割（句点・感嘆符・疑問符・改行の位置で区切る）
+ */
+export function splitTextIntoChunks(text: string, maxChunkSize: number = 1000): string[] {
+  // 短いテキストはそのまま返す
+  if (text.length <= maxChunkSize) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  const sentences = text
+    .split(/(?<=[。！？\n])/) // 句点、感嘆符、疑問符、改行で分割
+    .flatMap(sentence => splitLongSentence(sentence, maxChunkSize));
+
+  let currentChunk = '';
+
+  for (const sentence of sentences) {
+    // 現在のチャンクに追加しても maxChunkSize を超えない場合
+    if ((currentChunk + sentence).length <= maxChunkSize) {
+      currentChunk += sentence;
+    } else {
+      // 現在のチャンクを保存
+      if (currentChunk.trim()) {
+        chunks.push(currentChunk.trim());
+      }
+      // 新しいチャンクを開始
+      currentChunk = sentence;
+    }
+  }
+
+  // 最後のチャンクを追加
+  if (currentChunk.trim()) {
+    chunks.push(currentChunk.trim());
+  }
+
+  return chunks;
+}
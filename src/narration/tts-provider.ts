@@ -0,0 +1,75 @@
+import { GeminiTtsProvider } from './gemini-tts-provider.js';
+import { LocalTtsProvider } from './local-tts-provider.js';
+import { DialogueLine } from '../types.js';
+
+/**
+ * TTSプロバイダー - テキストから音声（PCM）を合成するエンジンの共通インターフェース
+ *
+ * NarrationGeneratorAgent はプロバイダーが返したPCMをMP3に変換・ノイズ除去する
+ * - gemini: Google Gemini TTS（GEMINI_API_KEY が必要）
+ * - local:  オフラインで動く決定的なトーン合成（テスト・プレビュー用、APIキー不要）
+ */
+
+export type TtsProviderName = 'gemini' | 'local';
+
+export const ttsProviderNames: TtsProviderName[] = ['gemini', 'local'];
+
+export interface TtsVoice {
+  name: string;
+  description: string;
+}
+
+/**
+ * 合成した音声（16-bit リトルエンディアン、モノラルのPCM）
+ */
+export interface SynthesizedAudio {
+  pcm: Buffer;
+  sampleRate: number;
+}
+
+/**
+ * 合成時の読み方の指定（読み上げ記法の {emphasis} など）
+ */
+export interface SpeechStyle {
+  emphasis?: boolean;
+}
+
+export interface TtsProvider {
+  readonly name: TtsProviderName;
+  readonly model: string; // キャッシュのハッシュに含める（モデルが変われば再生成）
+  readonly defaultVoice: string;
+  readonly maxChunkChars: number; // 1回の合成に渡せるテキストの長さ（超える場合は分割する）
+  readonly rateLimited: boolean; // 合成ごとにAPIの利用制限を考慮して待機するか
+
+  readonly dialogueSpeakers?: number; // 1回の合成で話し分けられる話者の数（synthesizeDialogue がある場合）
+
+  listVoices(): TtsVoice[];
+  synthesize(text: string, voice: string, style?: SpeechStyle): Promise<SynthesizedAudio>;
+
+  /**
+   * 会話を1回で合成する（話者ごとの声を話し分ける、対応していないプロバイダーは1行ずつ合成してつなぐ）
+   * @param voices 話者名 → 声（lines の話者をすべて含む）
+   */
+  synthesizeDialogue?(lines: DialogueLine[], voices: Record<string, string>): Promise<SynthesizedAudio>;
+}
+
+export interface TtsProviderConfig {
+  provider?: string; // 省略時は環境変数 TTS_PROVIDER、それもなければ gemini
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * 設定からTTSプロバイダーを作成する（未知のプロバイダー名はエラー）
+ */
+export function createTtsProvider(config: TtsProviderConfig = {}): TtsProvider {
+  const name = config.provider || process.env.TTS_PROVIDER || 'gemini';
+  switch (name) {
+    case 'gemini':
+      return new GeminiTtsProvider(config.apiKey, config.model);
+    case 'local':
+      return new LocalTtsProvider();
+    default:
+      throw new Error(`Unknown TTS provider "${name}" (expected one of: ${ttsProviderNames.join(', ')})`);
+  }
+}
@@ -9,6 +9,7 @@ export const sampleScript: ScriptInput = {
   duration: '15分',
   branding: {
     company: 'Stella Co., Ltd.',
+    logo: './assets/stella-logo.png',
     primaryColor: '#5FB8A6'
   },
   sections: [
@@ -0,0 +1,338 @@
+import { ScriptInput, Section, Theme } from '../types.js';
+import { designRules } from '../templates.js';
+import { loadTheme } from '../slides/theme-loader.js';
+import { countWrappedLines } from '../slides/text-measure.js';
+import { lineForPath } from './script-source.js';
+
+/**
+ * デザインルールリンター - 台本のテキストを designRules（まじん式v3）に照らして検査
+ *
+ * SlideGeneratorAgent は生成時に禁止記号・絵文字・箇条書き文末の句点を自動で除去するが、
+ * 台本の書き手には何が変わったのかが見えない。リンターは同じルールで違反を報告し、
+ * 自動修正できるものは修正後のテキストを提示する。
+ */
+
+export type DesignRule =
+  | 'title-length'
+  | 'subhead-length'
+  | 'subhead-lines'
+  | 'bullet-length'
+  | 'forbidden-symbol'
+  | 'emoji'
+  | 'bullet-punctuation';
+
+/**
+ * テキストの種別（文字数制限・句点ルールの適用先）
+ * body はナレーションなどの本文（禁止記号・絵文字のみ検査）
+ */
+export type TextKind = 'title' | 'subhead' | 'bullet' | 'body';
+
+export interface DesignViolation {
+  rule: DesignRule;
+  sectionIndex: number;
+  field: string; // セクション内のフィールド（例: "bullets[2]"）
+  path: string; // 台本全体でのパス（例: "sections[3].bullets[2]"）
+  text: string; // 違反しているテキスト
+  message: string;
+  fix?: string; // 自動修正後のテキスト（自動修正できるルールのみ）
+  line?: number;
+}
+
+export interface DesignLintReport {
+  violations: DesignViolation[];
+  fixableCount: number;
+}
+
+// 絵文字の範囲（顔文字・シンボル・乗り物・その他記号・装飾記号）
+const emojiPattern = /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/gu;
+
+const lengthRules: Partial<Record<TextKind, DesignRule>> = {
+  title: 'title-length',
+  subhead: 'subhead-length',
+  bullet: 'bullet-length'
+};
+
+function removeForbiddenSymbols(text: string): string {
+  return designRules.forbidden.symbols.reduce((result, symbol) => result.split(symbol).join(''), text);
+}
+
+function removeEmoji(text: string): string {
+  return designRules.forbidden.emoji ? text.replace(emojiPattern, '') : text;
+}
+
+function removeTrailingPunctuation(text: string): string {
+  const trimmed = text.trimEnd();
+  const punct = designRules.forbidden.punctuation.find(p => trimmed.endsWith(p));
+  return punct ? trimmed.slice(0, -punct.length) : text;
+}
+
+/**
+ * デザインルールで自動修正できる違反を修正（禁止記号・絵文字・箇条書き文末の句点）
+ */
+export function fixDesignText(text: string, kind: TextKind): string {
+  let fixed = removeEmoji(removeForbiddenSymbols(text));
+  if (kind === 'bullet') {
+    fixed = removeTrailingPunctuation(fixed);
+  }
+  return fixed.trim();
+}
+
+/**
+ * 1つのテキストを検査
+ */
+function lintText(text: string, kind: TextKind, subtitleLines?: (text: string) => number): Omit<DesignViolation, 'sectionIndex' | 'field' | 'path'>[] {
+  const violations: Omit<DesignViolation, 'sectionIndex' | 'field' | 'path'>[] = [];
+
+  const symbols = designRules.forbidden.symbols.filter(symbol => text.includes(symbol));
+  if (symbols.length > 0) {
+    violations.push({
+      rule: 'forbidden-symbol',
+      text,
+      message: `Forbidden symbol ${symbols.map(s => `"${s}"`).join(', ')}`,
+      fix: removeForbiddenSymbols(text).trim()
+    });
+  }
+
+  const emoji = designRules.forbidden.emoji ? text.match(emojiPattern) : null;
+  if (emoji) {
+    violations.push({
+      rule: 'emoji',
+      text,
+      message: `Emoji are not allowed: ${[...new Set(emoji)].join(' ')}`,
+      fix: removeEmoji(text).trim()
+    });
+  }
+
+  if (kind === 'bullet' && removeTrailingPunctuation(text) !== text) {
+    violations.push({
+      rule: 'bullet-punctuation',
+      text,
+      message: 'Bullets must not end with punctuation',
+      fix: removeTrailingPunctuation(text).trim()
+    });
+  }
+
+  const lengthRule = lengthRules[kind];
+  const limit = kind === 'body' ? undefined : designRules.textLimits[kind];
+  if (lengthRule && limit && text.length > limit) {
+    violations.push({
+      rule: lengthRule,
+      text,
+      message: `Too long: ${text.length}/${limit} chars (shorten by ${text.length - limit})`
+    });
+  }
+
+  if (kind === 'subhead' && subtitleLines) {
+    const maxLines = designRules.textLimits.maxLines.subhead;
+    const lines = subtitleLines(text);
+    if (lines > maxLines) {
+      violations.push({
+        rule: 'subhead-lines',
+        text,
+        message: `Wraps to ${lines} lines (max ${maxLines})`
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * セクション内の検査対象テキスト（フィールド名・種別）
+ */
+function lintTargets(section: Section): Array<{ field: string; text: string; kind: TextKind }> {
+  const targets: Array<{ field: string; text: string; kind: TextKind }> = [
+    { field: 'title', text: section.title, kind: 'title' }
+  ];
+
+  if (section.subtitle) targets.push({ field: 'subtitle', text: section.subtitle, kind: 'subhead' });
+  if (section.narration) targets.push({ field: 'narration', text: section.narration, kind: 'body' });
+  section.bullets?.forEach((bullet, i) => targets.push({ field: `bullets[${i}]`, text: bullet, kind: 'bullet' }));
+  section.columns?.forEach((column, i) => {
+    targets.push({ field: `columns[${i}].heading`, text: column.heading, kind: 'subhead' });
+    column.bullets?.forEach((bullet, j) => {
+      targets.push({ field: `columns[${i}].bullets[${j}]`, text: bullet, kind: 'bullet' });
+    });
+  });
+  if (section.code?.description) {
+    targets.push({ field: 'code.description', text: section.code.description, kind: 'subhead' });
+  }
+  if (section.chart?.source) {
+    targets.push({ field: 'chart.source', text: section.chart.source, kind: 'subhead' });
+  }
+  section.screenshot?.annotations?.forEach((annotation, i) => {
+    targets.push({ field: `screenshot.annotations[${i}].text`, text: annotation.text, kind: 'bullet' });
+  });
+  if (section.quiz) {
+    targets.push({ field: 'quiz.question', text: section.quiz.question, kind: 'body' });
+    section.quiz.choices?.forEach((choice, i) => targets.push({ field: `quiz.choices[${i}]`, text: choice, kind: 'bullet' }));
+    if (section.quiz.explanation) targets.push({ field: 'quiz.explanation', text: section.quiz.explanation, kind: 'body' });
+  }
+  if (section.exercise) {
+    targets.push({ field: 'exercise.goal', text: section.exercise.goal, kind: 'body' });
+    section.exercise.steps?.forEach((step, i) => targets.push({ field: `exercise.steps[${i}]`, text: step, kind: 'bullet' }));
+  }
+
+  return targets.filter(target => typeof target.text === 'string');
+}
+
+/**
+ * テーマを読み込む（読み込めない場合はデフォルトテーマで検査）
+ */
+function themeFor(script: ScriptInput): Theme {
+  try {
+    return loadTheme(script.theme);
+  } catch {
+    return loadTheme();
+  }
+}
+
+/**
+ * 台本をデザインルールで検査
+ * @param lines JSONパスと行番号の対応（ScriptSource.lines）
+ */
+export function lintScript(script: ScriptInput, lines?: Map<string, number>): DesignLintReport {
+  const theme = themeFor(script);
+  const violations: DesignViolation[] = [];
+
+  script.sections.forEach((section, sectionIndex) => {
+    // サブタイトルの行数はセクションのテンプレートの幅・フォントサイズで計算
+    const style = theme.slides[section.type]?.subtitleStyle;
+    const subtitleLines = style?.w
+      ? (text: string) => countWrappedLines(text, style.fontSize, style.w!)
+      : undefined;
+
+    for (const target of lintTargets(section)) {
+      const path = `sections[${sectionIndex}].${target.field}`;
+      const line = lines ? lineForPath(lines, path) : undefined;
+
+      const lineCounter = target.field === 'subtitle' ? subtitleLines : undefined;
+      for (const violation of lintText(target.text, target.kind, lineCounter)) {
+        violations.push({
+          ...violation,
+          sectionIndex,
+          field: target.field,
+          path,
+          ...(line !== undefined ? { line } : {})
+        });
+      }
+    }
+  });
+
+  return {
+    violations,
+    fixableCount: violations.filter(violation => violation.fix !== undefined).length
+  };
+}
+
+/**
+ * 自動修正できる違反をすべて修正した台本を返す（元の台本は変更しない）
+ */
+export function fixScript(script: ScriptInput): ScriptInput {
+  const fixed: ScriptInput = structuredClone(script);
+
+  for (const section of fixed.sections) {
+    section.title = fixDesignText(section.title, 'title');
+    if (section.subtitle) section.subtitle = fixDesignText(section.subtitle, 'subhead');
+    if (section.narration) section.narration = fixDesignText(section.narration, 'body');
+    if (section.bullets) section.bullets = section.bullets.map(bullet => fixDesignText(bullet, 'bullet'));
+    section.columns?.forEach(column => {
+      column.heading = fixDesignText(column.heading, 'subhead');
+      if (column.bullets) column.bullets = column.bullets.map(bullet => fixDesignText(bullet, 'bullet'));
+    });
+    if (section.code?.description) section.code.description = fixDesignText(section.code.description, 'subhead');
+    if (section.chart?.source) section.chart.source = fixDesignText(section.chart.source, 'subhead');
+    section.screenshot?.annotations?.forEach(annotation => {
+      annotation.text = fixDesignText(annotation.text, 'bullet');
+    });
+    if (section.quiz) {
+      section.quiz.question = fixDesignText(section.quiz.question, 'body');
+      section.quiz.choices = section.quiz.choices.map(choice => fixDesignText(choice, 'bullet'));
+      if (section.quiz.explanation) section.quiz.explanation = fixDesignText(section.quiz.explanation, 'body');
+    }
+    if (section.exercise) {
+      section.exercise.goal = fixDesignText(section.exercise.goal, 'body');
+      section.exercise.steps = section.exercise.steps.map(step => fixDesignText(step, 'bullet'));
+    }
+  }
+
+  return fixed;
+}
+
+/**
+ * Markdown台本のソースに自動修正を適用
+ * 違反のあった行ごとに禁止記号・絵文字を除去し、箇条書きは行末の句点を除去する
+ * （複数行にまたがる箇条書きなど、行単位で直せないものは修正されずに残る）
+ */
+export function fixMarkdownSource(markdown: string, violations: DesignViolation[]): string {
+  const sourceLines = markdown.split('\n');
+
+  for (const violation of violations) {
+    if (violation.fix === undefined || violation.line === undefined) continue;
+
+    const index = violation.line - 1;
+    let line = sourceLines[index];
+    if (line === undefined) continue;
+
+    if (violation.rule === 'bullet-punctuation') {
+      line = removeTrailingPunctuation(line.replace(/\s+$/, ''));
+    } else {
+      line = removeEmoji(removeForbiddenSymbols(line)).replace(/ {2,}/g, ' ');
+    }
+    sourceLines[index] = line;
+  }
+
+  return sourceLines.join('\n');
+}
+
+/**
+ * JSON台本のソースに自動修正を適用
+ * 違反のあった文字列リテラルだけを書き換え、元の整形（インデント・配列の1行表記など）を保つ
+ */
+export function fixJsonSource(json: string, violations: DesignViolation[]): string {
+  const sourceLines = json.split('\n');
+
+  // 同じテキストに複数の違反（記号と句点など）がある場合はまとめて修正
+  const byPath = new Map<string, DesignViolation[]>();
+  for (const violation of violations) {
+    if (violation.fix === undefined || violation.line === undefined) continue;
+    byPath.set(violation.path, [...(byPath.get(violation.path) || []), violation]);
+  }
+
+  for (const pathViolations of byPath.values()) {
+    const { text, line } = pathViolations[0];
+    const kind: TextKind = pathViolations.some(v => v.rule === 'bullet-punctuation') ? 'bullet' : 'body';
+    const index = line! - 1;
+    const encoded = JSON.stringify(text);
+
+    if (sourceLines[index]?.includes(encoded)) {
+      sourceLines[index] = sourceLines[index].replace(encoded, () => JSON.stringify(fixDesignText(text, kind)));
+    }
+  }
+
+  return sourceLines.join('\n');
+}
+
+/**
+ * 検査結果を人が読める形式に整形
+ */
+export function formatLintReport(report: DesignLintReport, source?: string): string {
+  if (report.violations.length === 0) {
+    return '✅ Design rules: no violations';
+  }
+
+  const lines = [
+    `📐 Design rules: ${report.violations.length} violation(s), ${report.fixableCount} auto-fixable (--fix)`
+  ];
+
+  for (const violation of report.violations) {
+    const location = [source, violation.line].filter(part => part !== undefined).join(':');
+    lines.push(`  ${location ? `${location} ` : ''}${violation.path} [${violation.rule}] ${violation.message}`);
+    lines.push(`      "${violation.text}"`);
+    if (violation.fix !== undefined) {
+      lines.push(`    → "${violation.fix}"`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,778 @@
+import {
+  ScriptInput,
+  Section,
+  SectionType,
+  TableColumn,
+  Annotation,
+  NarrationPlacement,
+  ChartData,
+  ColumnContent,
+  QuizData,
+  ExerciseData,
+  DiagramDirection
+} from '../types.js';
+import { ScriptSource, ScriptSyntaxError, parseJsonSource } from './script-source.js';
+import { parseDiagram, DiagramSyntaxError } from '../slides/diagram-dsl.js';
+
+/**
+ * Markdown台本パーサー - Markdown形式の台本を ScriptInput に変換
+ *
+ * 記法:
+ * - 先頭の front matter（--- で囲む）: title / duration / theme / illustrations / narrationPlacement / progressTracker / voice / branding
+ *   （会話の話者は speakers: 講師=Charon, 受講生=Puck のように 話者名=声 を並べる）
+ * - `#` タイトルスライド、`##` セクション区切り、`###` コンテンツスライド
+ * - 見出し直後の段落: subtitle
+ * - 箇条書き（- / * / 1.）: bullets
+ * - 引用（>）: narration
+ * - コードブロック（```言語 {2,4-6} showLineNumbers）: codeBlock（直後の段落はキャプション）
+ * - ```chart ブロック（中身は ChartData のJSON）: chart（直後の段落は出典）
+ * - ```diagram ブロック（中身はフロー図DSL、```diagram vertical で縦向き）: diagram
+ * - ```dialogue ブロック（"話者: セリフ" の行）: dialogue（会話形式のナレーション）
+ * - パイプテーブル: table（区切り行の : で列の配置を指定）
+ * - 画像（![](path)）: screenshot（"- (x, y) テキスト #色" 形式の箇条書きは注釈。x・y がともに 1 以下なら割合、それ以外はピクセル座標）
+ * - 見出し末尾の {.screenshot} などでセクションタイプを明示できる（{.agenda} は後続の区切りから目次を自動生成）
+ * - 見出し末尾の {keywords=AI,業務} でイラスト選択用のキーワードを指定できる（{.sectionDivider keywords=AI} のようにタイプと併記可）
+ * - 見出し末尾の {voice=Puck} でそのセクションのナレーションの声を指定できる
+ * - {.comparison} / {.twoColumn} セクションでは `####` 見出しで列を区切る（末尾の {#色} はアイコンの色、列内の画像・箇条書きはその列に入る）
+ * - {.quiz} セクション: 見出し直後の段落が問題文、タスクリスト（- [ ] / - [x]）が選択肢と正解、選択肢の後の段落が解説
+ * - {.exercise timer=10} セクション: 見出し直後の段落がゴール、箇条書きが手順、手順の後の段落またはコードブロックが期待される成果物
+ */
+
+type FrontMatter = Record<string, string | Record<string, string>>;
+
+/**
+ * 組み立て中のセクション
+ */
+interface SectionDraft {
+  section: Section;
+  level: number;
+  explicitType?: SectionType;
+  answers?: number[]; // クイズの正解の番号（- [x] の選択肢）
+}
+
+const sectionTypes: SectionType[] = [
+  'title', 'agenda', 'sectionDivider', 'content', 'comparison', 'twoColumn', 'table', 'chart', 'diagram', 'codeBlock',
+  'screenshot', 'quiz', 'exercise'
+];
+
+// #### 見出しで列を区切るセクションタイプ
+const columnSectionTypes: SectionType[] = ['comparison', 'twoColumn'];
+
+const headingPattern = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const typeAttributePattern = /\s*\{(?:\.([A-Za-z]+)(?=[\s}]))?((?:\s*[A-Za-z]+=[^\s{}]+)*)\s*\}$/;
+const columnColorPattern = /\s*\{(#?[0-9A-Fa-f]{6}|#?[0-9A-Fa-f]{3})\}$/;
+const fencePattern = /^(`{3,}|~{3,})\s*(.*)$/;
+const listItemPattern = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+const taskItemPattern = /^\[([ xX])\]\s+(.*)$/;
+const blockquotePattern = /^\s*>\s?(.*)$/;
+const imagePattern = /^!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)$/;
+const tableSeparatorPattern = /^\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?$/;
+const dialogueLinePattern = /^\s*([^:：]+?)\s*[:：]\s*(.+?)\s*$/;
+const annotationPattern = /^\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)\s+(.+?)(?:\s+(#?[0-9A-Fa-f]{6}|#?[0-9A-Fa-f]{3}))?$/;
+
+// 注釈の色の既定値
+const DEFAULT_ANNOTATION_COLOR = 'E74C3C';
+
+function parseError(line: number, message: string): ScriptSyntaxError {
+  return new ScriptSyntaxError(message, line, 'Markdown script');
+}
+
+/**
+ * 強調・インラインコードの記号を除去（スライド上は装飾なしで表示するため）
+ */
+function stripInlineMarkup(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .trim();
+}
+
+/**
+ * 改行で区切られた行を1つの文に連結（日本語同士は空白なし、英単語の間は空白を入れる）
+ */
+function joinLines(lines: string[]): string {
+  return lines.reduce((joined, line) => {
+    const text = line.trim();
+    if (!joined) return text;
+    if (!text) return joined;
+    const needsSpace = /[\x21-\x7E]$/.test(joined) && /^[\x21-\x7E]/.test(text);
+    return joined + (needsSpace ? ' ' : '') + text;
+  }, '');
+}
+
+/**
+ * front matter の値（前後の引用符を除去）
+ */
+function parseScalar(value: string): string {
+  const trimmed = value.trim();
+  const quoted = trimmed.match(/^(["'])(.*)\1$/);
+  return quoted ? quoted[2] : trimmed;
+}
+
+/**
+ * front matter を解析（"key: value" と1段のネストのみ対応、# で始まる行はコメント）
+ * 各キーの行番号を sourceLines に記録する
+ */
+function parseFrontMatter(lines: string[], startLine: number, sourceLines: Map<string, number>): FrontMatter {
+  const result: FrontMatter = {};
+  let parent: Record<string, string> | null = null;
+  let parentKey = '';
+
+  lines.forEach((raw, index) => {
+    const lineNumber = startLine + index;
+    if (!raw.trim() || raw.trim().startsWith('#')) return;
+
+    const match = raw.match(/^(\s*)([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+    if (!match) {
+      throw parseError(lineNumber, `Invalid front matter line: "${raw.trim()}"`);
+    }
+
+    const [, indent, key, value] = match;
+    if (indent.length > 0) {
+      if (!parent) {
+        throw parseError(lineNumber, `Unexpected indentation in front matter: "${key}"`);
+      }
+      parent[key] = parseScalar(value);
+      sourceLines.set(`${parentKey}.${key}`, lineNumber);
+    } else if (value.trim() === '') {
+      parent = {};
+      parentKey = key;
+      result[key] = parent;
+      sourceLines.set(key, lineNumber);
+    } else {
+      parent = null;
+      result[key] = parseScalar(value);
+      sourceLines.set(key, lineNumber);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * パイプテーブルの1行をセルに分割（\| はセル内の | として扱う）
+ */
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => stripInlineMarkup(cell.replace(/\\\|/g, '|')));
+}
+
+/**
+ * テーブル区切り行から列の配置を取得（指定がなければ undefined）
+ */
+function parseColumnAligns(separator: string): TableColumn[] | undefined {
+  const columns = splitTableRow(separator).map((cell): TableColumn => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return { align: 'center' };
+    if (right) return { align: 'right' };
+    if (left) return { align: 'left' };
+    return {};
+  });
+  return columns.some(column => column.align) ? columns : undefined;
+}
+
+/**
+ * コードブロックの情報文字列（例: "python {2,4-6} showLineNumbers"）を解析
+ */
+function parseFenceInfo(info: string): { language: string; highlightLines?: string; showLineNumbers?: boolean } {
+  const highlight = info.match(/\{([\d,\s-]+)\}/);
+  const rest = info.replace(/\{[^}]*\}/, ' ').trim().split(/\s+/).filter(Boolean);
+  const language = rest.find(token => token !== 'showLineNumbers' && token !== 'noLineNumbers') || 'prompt';
+
+  return {
+    language,
+    ...(highlight ? { highlightLines: highlight[1].replace(/\s+/g, '') } : {}),
+    ...(rest.includes('showLineNumbers') ? { showLineNumbers: true } : {}),
+    ...(rest.includes('noLineNumbers') ? { showLineNumbers: false } : {})
+  };
+}
+
+/**
+ * 箇条書きのうち注釈形式（"(x, y) テキスト #色"）のものを注釈に変換
+ */
+function extractAnnotations(bullets: string[]): { annotations: Annotation[]; bullets: string[] } {
+  const annotations: Annotation[] = [];
+  const rest: string[] = [];
+
+  for (const bullet of bullets) {
+    const match = bullet.match(annotationPattern);
+    if (match) {
+      annotations.push({
+        x: Number(match[1]),
+        y: Number(match[2]),
+        text: match[3],
+        color: match[4] || DEFAULT_ANNOTATION_COLOR
+      });
+    } else {
+      rest.push(bullet);
+    }
+  }
+
+  return { annotations, bullets: rest };
+}
+
+/**
+ * 見出しレベルと内容からセクションタイプを確定
+ */
+function finalizeSection(draft: SectionDraft): Section {
+  const section = draft.section;
+
+  if (draft.explicitType) {
+    section.type = draft.explicitType;
+  } else if (draft.level === 1) {
+    section.type = 'title';
+  } else if (draft.level === 2) {
+    section.type = 'sectionDivider';
+  } else if (section.chart) {
+    section.type = 'chart';
+  } else if (section.diagram) {
+    section.type = 'diagram';
+  } else if (section.code) {
+    section.type = 'codeBlock';
+  } else if (section.table) {
+    section.type = 'table';
+  } else if (section.screenshot) {
+    section.type = 'screenshot';
+  } else {
+    section.type = 'content';
+  }
+
+  if (section.quiz) {
+    const answers = draft.answers || [];
+    section.quiz.answer = answers.length === 1 ? answers[0] : answers;
+  }
+
+  if (section.type === 'screenshot' && section.bullets) {
+    const { annotations, bullets } = extractAnnotations(section.bullets);
+    if (annotations.length > 0) {
+      section.screenshot = { imagePath: section.screenshot?.imagePath || '', annotations };
+    }
+    section.bullets = bullets.length > 0 ? bullets : undefined;
+  }
+
+  return section;
+}
+
+/**
+ * Markdown台本を ScriptInput に変換
+ * 記法の誤りは行番号付きのエラー（ScriptSyntaxError）として投げる
+ */
+export function parseMarkdownScript(markdown: string): ScriptInput {
+  return parseMarkdownSource(markdown).data as ScriptInput;
+}
+
+/**
+ * Markdown台本を解析し、ScriptInput と各パスの行番号を返す
+ */
+export function parseMarkdownSource(markdown: string): ScriptSource {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const sourceLines = new Map<string, number>();
+  let index = 0;
+
+  // front matter
+  let frontMatter: FrontMatter = {};
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end < 0) {
+      throw parseError(1, 'Front matter is not closed with "---"');
+    }
+    frontMatter = parseFrontMatter(lines.slice(1, end), 2, sourceLines);
+    index = end + 1;
+  }
+
+  const drafts: SectionDraft[] = [];
+  let current: SectionDraft | null = null;
+  let column: ColumnContent | null = null; // comparison / twoColumn の現在の列
+  let lastBlock: 'heading' | 'column' | 'paragraph' | 'list' | 'quote' | 'code' | 'chart' | 'table' | 'image' | null = null;
+
+  // 現在のセクション内のパス（例: ".bullets[2]"）の行番号を記録
+  const mark = (subPath: string, lineNumber: number) => {
+    const key = `sections[${drafts.length - 1}]${subPath}`;
+    if (!sourceLines.has(key)) sourceLines.set(key, lineNumber);
+  };
+
+  const requireSection = (lineNumber: number): SectionDraft => {
+    if (!current) {
+      throw parseError(lineNumber, 'Content must follow a heading (#, ## or ###)');
+    }
+    return current;
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const lineNumber = index + 1;
+
+    // 空行（直前のブロックの種類は引き継ぐ）
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    // 見出し
+    const heading = line.match(headingPattern);
+    if (heading) {
+      const level = heading[1].length;
+
+      // 列の見出し（{.comparison} / {.twoColumn} セクション内の ####、末尾の {#色} でアイコンの色を指定）
+      if (level === 4 && current?.explicitType && columnSectionTypes.includes(current.explicitType)) {
+        const columns: ColumnContent[] = current.section.columns || (current.section.columns = []);
+        const colorAttribute = heading[2].match(columnColorPattern);
+        mark(`.columns[${columns.length}]`, lineNumber);
+        mark(`.columns[${columns.length}].heading`, lineNumber);
+        column = {
+          heading: stripInlineMarkup(heading[2].replace(columnColorPattern, '')),
+          ...(colorAttribute ? { color: colorAttribute[1] } : {})
+        };
+        columns.push(column);
+        lastBlock = 'column';
+        index++;
+        continue;
+      }
+
+      if (level > 3) {
+        throw parseError(
+          lineNumber,
+          `Heading level ${level} is not supported (use #, ## or ###; #### starts a column in {.comparison} / {.twoColumn} sections)`
+        );
+      }
+
+      let title = heading[2];
+      let explicitType: SectionType | undefined;
+      const attributeMatch = title.match(typeAttributePattern);
+      const typeAttribute = attributeMatch && (attributeMatch[1] || attributeMatch[2].trim()) ? attributeMatch : null;
+      if (typeAttribute) {
+        title = title.replace(typeAttributePattern, '');
+      }
+      if (typeAttribute?.[1]) {
+        if (!sectionTypes.includes(typeAttribute[1] as SectionType)) {
+          throw parseError(lineNumber, `Unknown section type "{.${typeAttribute[1]}}" (expected: ${sectionTypes.join(', ')})`);
+        }
+        explicitType = typeAttribute[1] as SectionType;
+      }
+
+      current = {
+        section: { type: 'content', title: stripInlineMarkup(title) },
+        level,
+        explicitType
+      };
+      column = null;
+      drafts.push(current);
+      mark('', lineNumber);
+      mark('.title', lineNumber);
+      if (explicitType === 'quiz' || explicitType === 'exercise') {
+        mark(`.${explicitType}`, lineNumber);
+      }
+
+      // 見出しの属性（{keywords=AI,業務} のイラスト用キーワード、{voice=Puck} の声、{.exercise timer=10} の制限時間）
+      for (const attribute of (typeAttribute?.[2] || '').trim().split(/\s+/).filter(Boolean)) {
+        const [key, value] = attribute.split('=');
+        if (key === 'keywords') {
+          current.section.keywords = value.split(/[,、]/).map(keyword => keyword.trim()).filter(Boolean);
+          mark('.keywords', lineNumber);
+          continue;
+        }
+        if (key === 'voice') {
+          current.section.voice = value;
+          mark('.voice', lineNumber);
+          continue;
+        }
+        if (key !== 'timer' || explicitType !== 'exercise') {
+          throw parseError(lineNumber, `Unknown heading attribute "${key}" (expected "keywords", "voice", or "timer" on {.exercise} sections)`);
+        }
+        const minutes = Number(value.replace(/(分|min)$/, ''));
+        if (!Number.isFinite(minutes) || minutes <= 0) {
+          throw parseError(lineNumber, `timer must be a positive number of minutes (got "${value}")`);
+        }
+        exerciseOf(current.section).timerMinutes = minutes;
+        mark('.exercise.timerMinutes', lineNumber);
+      }
+      lastBlock = 'heading';
+      index++;
+      continue;
+    }
+
+    const draft = requireSection(lineNumber);
+    const section = draft.section;
+
+    // コードブロック
+    const fence = line.match(fencePattern);
+    if (fence) {
+      const closing = lines.findIndex((candidate, i) => (
+        i > index && candidate.trim().startsWith(fence[1][0].repeat(fence[1].length)) && candidate.trim().replace(/[`~]/g, '') === ''
+      ));
+      if (closing < 0) {
+        throw parseError(lineNumber, 'Code block is not closed');
+      }
+
+      // グラフ（```chart の中身は ChartData のJSON）
+      if (fence[2].trim() === 'chart') {
+        if (section.chart) {
+          throw parseError(lineNumber, `Section "${section.title}" already has a chart`);
+        }
+        let chart: ScriptSource;
+        try {
+          chart = parseJsonSource(lines.slice(index + 1, closing).join('\n'));
+        } catch (error) {
+          if (error instanceof ScriptSyntaxError) {
+            throw parseError(lineNumber + error.line, `Invalid chart JSON: ${error.reason.replace(/^Invalid JSON: /, '')}`);
+          }
+          throw error;
+        }
+        if (typeof chart.data !== 'object' || chart.data === null || Array.isArray(chart.data)) {
+          throw parseError(lineNumber + 1, 'Chart block must be a JSON object with type, labels and series');
+        }
+        section.chart = chart.data as ChartData;
+        mark('.chart', lineNumber);
+        for (const [chartPath, chartLine] of chart.lines) {
+          if (chartPath) mark(`.chart.${chartPath}`, lineNumber + chartLine);
+        }
+        lastBlock = 'chart';
+        index = closing + 1;
+        continue;
+      }
+
+      // フロー図（```diagram の中身はDSL、情報文字列の vertical / horizontal で向きを指定）
+      const [fenceType, fenceDirection] = fence[2].trim().split(/\s+/);
+      if (fenceType === 'diagram') {
+        if (section.diagram) {
+          throw parseError(lineNumber, `Section "${section.title}" already has a diagram`);
+        }
+        if (fenceDirection && fenceDirection !== 'horizontal' && fenceDirection !== 'vertical') {
+          throw parseError(lineNumber, `Diagram direction must be "horizontal" or "vertical" (got "${fenceDirection}")`);
+        }
+        const source = lines.slice(index + 1, closing).join('\n');
+        try {
+          parseDiagram(source);
+        } catch (error) {
+          if (error instanceof DiagramSyntaxError) {
+            throw parseError(lineNumber + error.line, `Invalid diagram: ${error.reason}`);
+          }
+          throw error;
+        }
+        section.diagram = {
+          source,
+          ...(fenceDirection ? { direction: fenceDirection as DiagramDirection } : {})
+        };
+        mark('.diagram', lineNumber);
+        mark('.diagram.source', lineNumber + 1);
+        lastBlock = 'code';
+        index = closing + 1;
+        continue;
+      }
+
+      // 会話形式のナレーション（```dialogue の各行は "話者: セリフ"）
+      if (fenceType === 'dialogue') {
+        if (section.dialogue) {
+          throw parseError(lineNumber, `Section "${section.title}" already has a dialogue`);
+        }
+        section.dialogue = [];
+        mark('.dialogue', lineNumber);
+        for (let lineIndex = index + 1; lineIndex < closing; lineIndex++) {
+          if (!lines[lineIndex].trim()) continue;
+          const dialogueLine = lines[lineIndex].match(dialogueLinePattern);
+          if (!dialogueLine) {
+            throw parseError(lineIndex + 1, `Dialogue line must be "speaker: text" (got "${lines[lineIndex].trim()}")`);
+          }
+          const linePath = `.dialogue[${section.dialogue.length}]`;
+          section.dialogue.push({ speaker: dialogueLine[1], text: dialogueLine[2] });
+          mark(linePath, lineIndex + 1);
+          mark(`${linePath}.speaker`, lineIndex + 1);
+          mark(`${linePath}.text`, lineIndex + 1);
+        }
+        if (section.dialogue.length === 0) {
+          throw parseError(lineNumber, 'Dialogue block has no lines');
+        }
+        lastBlock = 'code';
+        index = closing + 1;
+        continue;
+      }
+
+      // 演習のコードブロックは期待される成果物（改行をそのまま残す）
+      if (draft.explicitType === 'exercise') {
+        const exercise = exerciseOf(section);
+        if (exercise.expectedOutput) {
+          throw parseError(lineNumber, `Exercise "${section.title}" already has an expected output`);
+        }
+        exercise.expectedOutput = lines.slice(index + 1, closing).join('\n');
+        mark('.exercise.expectedOutput', lineNumber + 1);
+        lastBlock = 'code';
+        index = closing + 1;
+        continue;
+      }
+
+      if (section.code) {
+        throw parseError(lineNumber, `Section "${section.title}" already has a code block`);
+      }
+
+      section.code = {
+        ...parseFenceInfo(fence[2]),
+        code: lines.slice(index + 1, closing).join('\n')
+      };
+      mark('.code', lineNumber);
+      mark('.code.code', lineNumber + 1);
+      lastBlock = 'code';
+      index = closing + 1;
+      continue;
+    }
+
+    // テーブル（ヘッダー行 + 区切り行）
+    if (line.trim().startsWith('|') && tableSeparatorPattern.test(lines[index + 1]?.trim() || '')) {
+      if (section.table) {
+        throw parseError(lineNumber, `Section "${section.title}" already has a table`);
+      }
+
+      const headers = splitTableRow(line);
+      const columns = parseColumnAligns(lines[index + 1]);
+      const rows: string[][] = [];
+      mark('.table', lineNumber);
+      mark('.table.headers', lineNumber);
+      mark('.table.columns', lineNumber + 1);
+      index += 2;
+      while (index < lines.length && lines[index].trim().startsWith('|')) {
+        const cells = splitTableRow(lines[index]);
+        mark(`.table.rows[${rows.length}]`, index + 1);
+        rows.push(headers.map((_, col) => cells[col] ?? ''));
+        index++;
+      }
+
+      section.table = { headers, rows, ...(columns ? { columns } : {}) };
+      lastBlock = 'table';
+      continue;
+    }
+
+    // 画像
+    const image = line.trim().match(imagePattern);
+    if (image && column) {
+      if (column.image) {
+        throw parseError(lineNumber, `Column "${column.heading}" already has an image`);
+      }
+      column.image = image[2];
+      mark(`.columns[${section.columns!.length - 1}].image`, lineNumber);
+      lastBlock = 'image';
+      index++;
+      continue;
+    }
+    if (image) {
+      if (section.screenshot) {
+        throw parseError(lineNumber, `Section "${section.title}" already has an image`);
+      }
+      section.screenshot = { imagePath: image[2] };
+      mark('.screenshot', lineNumber);
+      mark('.screenshot.imagePath', lineNumber);
+      lastBlock = 'image';
+      index++;
+      continue;
+    }
+
+    // 引用（ナレーション）：空の > 行は段落区切り
+    const quote = line.match(blockquotePattern);
+    if (quote) {
+      const paragraphs: string[][] = [[]];
+      mark('.narration', lineNumber);
+      while (index < lines.length) {
+        const quoteLine = lines[index].match(blockquotePattern);
+        if (!quoteLine) break;
+        if (quoteLine[1].trim()) {
+          paragraphs[paragraphs.length - 1].push(quoteLine[1]);
+        } else if (paragraphs[paragraphs.length - 1].length > 0) {
+          paragraphs.push([]);
+        }
+        index++;
+      }
+
+      const narration = paragraphs.map(joinLines).filter(Boolean).join('\n');
+      section.narration = section.narration ? `${section.narration}\n${narration}` : narration;
+      lastBlock = 'quote';
+      continue;
+    }
+
+    // 箇条書き
+    const listItem = line.match(listItemPattern);
+    if (listItem) {
+      const list = listTarget(draft, column);
+      let text = listItem[1];
+
+      // クイズの選択肢（- [x] は正解）
+      const task = draft.explicitType === 'quiz' ? text.match(taskItemPattern) : null;
+      if (task) {
+        text = task[2];
+        if (task[1] !== ' ') {
+          draft.answers = [...(draft.answers || []), list.items.length + 1];
+          mark('.quiz.answer', lineNumber);
+        }
+      }
+
+      mark(`${list.path}[${list.items.length}]`, lineNumber);
+      list.items.push(stripInlineMarkup(text));
+      lastBlock = 'list';
+      index++;
+      continue;
+    }
+
+    // 箇条書きの継続行（インデントされた行）
+    if (lastBlock === 'list' && /^\s+\S/.test(line)) {
+      const items = listTarget(draft, column).items;
+      items[items.length - 1] = joinLines([items[items.length - 1], stripInlineMarkup(line)]);
+      index++;
+      continue;
+    }
+
+    // 段落（見出し直後はサブタイトル、コードブロック直後はキャプション）
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() && !isBlockStart(lines, index)) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    const text = stripInlineMarkup(joinLines(paragraph));
+
+    if (draft.explicitType === 'quiz' && (lastBlock === 'heading' || lastBlock === 'list')) {
+      // 見出し直後は問題文、選択肢の後は解説
+      const quiz = quizOf(section);
+      const field = lastBlock === 'heading' ? 'question' : 'explanation';
+      if (quiz[field]) {
+        throw parseError(lineNumber, `Quiz "${section.title}" already has ${field === 'question' ? 'a question' : 'an explanation'}`);
+      }
+      quiz[field] = text;
+      mark(`.quiz.${field}`, lineNumber);
+    } else if (draft.explicitType === 'exercise' && (lastBlock === 'heading' || lastBlock === 'list')) {
+      // 見出し直後はゴール、手順の後は期待される成果物
+      const exercise = exerciseOf(section);
+      const field = lastBlock === 'heading' ? 'goal' : 'expectedOutput';
+      if (exercise[field]) {
+        throw parseError(lineNumber, `Exercise "${section.title}" already has ${field === 'goal' ? 'a goal' : 'an expected output'}`);
+      }
+      exercise[field] = text;
+      mark(`.exercise.${field}`, lineNumber);
+    } else if (lastBlock === 'chart' && section.chart && !section.chart.source) {
+      section.chart.source = text;
+      mark('.chart.source', lineNumber);
+    } else if (lastBlock === 'code' && section.code && !section.code.description) {
+      section.code.description = text;
+      mark('.code.description', lineNumber);
+    } else if (lastBlock === 'heading' && !section.subtitle) {
+      section.subtitle = text;
+      mark('.subtitle', lineNumber);
+    } else {
+      throw parseError(
+        lineNumber,
+        'Unexpected paragraph (put subtitles right after the heading, narration in "> " quotes and bullets in "- " lists)'
+      );
+    }
+    lastBlock = 'paragraph';
+  }
+
+  return {
+    data: buildScript(frontMatter, drafts.map(finalizeSection)),
+    lines: sourceLines
+  };
+}
+
+/**
+ * クイズのデータ（最初の選択肢・問題文で作成）
+ */
+function quizOf(section: Section): QuizData {
+  if (!section.quiz) section.quiz = { question: '', choices: [], answer: [] };
+  return section.quiz;
+}
+
+/**
+ * 演習のデータ（最初のゴール・手順で作成）
+ */
+function exerciseOf(section: Section): ExerciseData {
+  if (!section.exercise) section.exercise = { goal: '', steps: [] };
+  return section.exercise;
+}
+
+/**
+ * 箇条書きの追加先と行番号のパス
+ * 列・クイズの選択肢・演習の手順・セクションの箇条書きの順に判定
+ */
+function listTarget(draft: SectionDraft, column: ColumnContent | null): { items: string[]; path: string } {
+  const section = draft.section;
+  if (column) {
+    if (!column.bullets) column.bullets = [];
+    return { items: column.bullets, path: `.columns[${section.columns!.length - 1}].bullets` };
+  }
+  if (draft.explicitType === 'quiz') return { items: quizOf(section).choices, path: '.quiz.choices' };
+  if (draft.explicitType === 'exercise') return { items: exerciseOf(section).steps, path: '.exercise.steps' };
+  if (!section.bullets) section.bullets = [];
+  return { items: section.bullets, path: '.bullets' };
+}
+
+/**
+ * 段落の途中で新しいブロックが始まるか
+ */
+function isBlockStart(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return headingPattern.test(line)
+    || fencePattern.test(line)
+    || blockquotePattern.test(line)
+    || listItemPattern.test(line)
+    || imagePattern.test(line.trim())
+    || (line.trim().startsWith('|') && tableSeparatorPattern.test(lines[index + 1]?.trim() || ''));
+}
+
+/**
+ * front matter とセクションから ScriptInput を組み立てる
+ */
+function buildScript(frontMatter: FrontMatter, sections: Section[]): ScriptInput {
+  const field = (key: string): string | undefined => {
+    const value = frontMatter[key];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  const branding = frontMatter.branding;
+  if (!branding || typeof branding === 'string') {
+    throw parseError(1, 'Front matter must define "branding" with "company" and "primaryColor"');
+  }
+
+  const title = field('title') || sections.find(section => section.type === 'title')?.title;
+  if (!title) {
+    throw parseError(1, 'Script title is missing (add "title" to the front matter or a "# " heading)');
+  }
+
+  const narrationPlacement = field('narrationPlacement');
+  if (narrationPlacement && narrationPlacement !== 'slide' && narrationPlacement !== 'notes') {
+    throw parseError(1, `narrationPlacement must be "slide" or "notes" (got "${narrationPlacement}")`);
+  }
+
+  const progressTracker = field('progressTracker');
+  if (progressTracker && progressTracker !== 'true' && progressTracker !== 'false') {
+    throw parseError(1, `progressTracker must be true or false (got "${progressTracker}")`);
+  }
+
+  // speakers: 講師=Charon, 受講生=Puck（英数字の話者名はネストした "key: value" でも書ける）
+  const speakerField = frontMatter.speakers;
+  let speakers: Record<string, string> | undefined = typeof speakerField === 'object' ? speakerField : undefined;
+  if (typeof speakerField === 'string') {
+    const entries = speakerField.split(/[,、]/).map(entry => entry.trim()).filter(Boolean).map(entry => {
+      const [name, voice] = entry.split('=').map(part => part.trim());
+      if (!name || !voice) {
+        throw parseError(1, `speakers must be "name=voice" pairs separated by commas (got "${entry}")`);
+      }
+      return [name, voice];
+    });
+    speakers = Object.fromEntries(entries);
+  }
+
+  return {
+    title,
+    duration: field('duration') || '',
+    branding: {
+      company: branding.company || '',
+      primaryColor: branding.primaryColor || '',
+      ...(branding.secondaryColor ? { secondaryColor: branding.secondaryColor } : {}),
+      ...(branding.logo ? { logo: branding.logo } : {}),
+      ...(branding.font ? { font: branding.font } : {})
+    },
+    ...(field('theme') ? { theme: field('theme') } : {}),
+    ...(field('illustrations') ? { illustrations: field('illustrations') } : {}),
+    ...(narrationPlacement ? { narrationPlacement: narrationPlacement as NarrationPlacement } : {}),
+    ...(progressTracker ? { progressTracker: progressTracker === 'true' } : {}),
+    ...(field('voice') ? { voice: field('voice') } : {}),
+    ...(speakers ? { speakers } : {}),
+    sections
+  };
+}
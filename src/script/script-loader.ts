@@ -0,0 +1,64 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { ScriptInput } from '../types.js';
+import { parseMarkdownSource } from './markdown-script.js';
+import { ScriptSource, ScriptSyntaxError, parseJsonSource } from './script-source.js';
+import { validateScript, formatValidationReport, ValidationResult } from './script-validator.js';
+
+const markdownExtensions = ['.md', '.markdown'];
+
+/**
+ * 読み込んだ台本と検証結果（warning のみ含む）
+ */
+export interface LoadedScript {
+  script: ScriptInput;
+  validation: ValidationResult;
+  lines: Map<string, number>; // JSONパスと行番号の対応
+}
+
+/**
+ * 台本の検証エラー（message は整形済みのレポート）
+ */
+export class ScriptValidationError extends Error {
+  constructor(readonly validation: ValidationResult, source?: string, subject?: string) {
+    super(formatValidationReport(validation, source, subject));
+    this.name = 'ScriptValidationError';
+  }
+}
+
+/**
+ * Markdown形式の台本ファイルかどうか（拡張子で判定）
+ */
+export function isMarkdownScript(filePath: string): boolean {
+  return markdownExtensions.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * 台本ファイルを読み込んで検証する（JSON / Markdown）
+ * overrides は検証前に台本の値を上書きする（講座マニフェストの共通ブランディングなど）
+ * 構文エラー・スキーマの error がある場合は ScriptValidationError を投げる
+ */
+export async function loadScript(filePath: string, overrides: Partial<ScriptInput> = {}): Promise<LoadedScript> {
+  const data = await readFile(filePath, 'utf-8');
+  const displayPath = path.relative(process.cwd(), filePath) || filePath;
+
+  let source: ScriptSource;
+  try {
+    source = isMarkdownScript(filePath) ? parseMarkdownSource(data) : parseJsonSource(data);
+  } catch (error) {
+    if (error instanceof ScriptSyntaxError) {
+      const issue = { severity: 'error' as const, path: '', message: error.reason, line: error.line };
+      throw new ScriptValidationError({ valid: false, issues: [issue] }, displayPath);
+    }
+    throw error;
+  }
+
+  const isObject = typeof source.data === 'object' && source.data !== null && !Array.isArray(source.data);
+  const script = isObject && Object.keys(overrides).length > 0 ? { ...(source.data as object), ...overrides } : source.data;
+  const validation = validateScript(script, source.lines);
+  if (!validation.valid) {
+    throw new ScriptValidationError(validation, displayPath);
+  }
+
+  return { script: script as ScriptInput, validation, lines: source.lines };
+}
@@ -0,0 +1,121 @@
+/**
+ * 台本ソースの解析結果 - 値と、各JSONパスが定義されている行番号
+ *
+ * パスの形式: "title" / "branding.primaryColor" / "sections[3].table.rows[0]"
+ * （ルートは空文字）
+ */
+export interface ScriptSource {
+  data: unknown;
+  lines: Map<string, number>;
+}
+
+/**
+ * 台本の構文エラー（行番号付き）
+ */
+export class ScriptSyntaxError extends Error {
+  constructor(readonly reason: string, readonly line: number, source: string = 'Script') {
+    super(`${source} line ${line}: ${reason}`);
+    this.name = 'ScriptSyntaxError';
+  }
+}
+
+/**
+ * パスに対応する行番号（見つからなければ親のパスをたどる）
+ */
+export function lineForPath(lines: Map<string, number>, path: string): number | undefined {
+  let current = path;
+  for (;;) {
+    const line = lines.get(current);
+    if (line !== undefined) return line;
+    if (!current) return undefined;
+
+    // "sections[3].table" → "sections[3]" → "sections" → ""
+    const parent = current.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+    current = parent === current ? '' : parent;
+  }
+}
+
+/**
+ * JSONテキスト中の各値のパスと行番号を収集（構文は JSON.parse で検証済みの前提）
+ * オブジェクトのプロパティはキーの行、配列の要素は値の行を記録する
+ */
+function locateJsonPaths(text: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  let pos = 0;
+  let line = 1;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      if (text[pos] === '\n') line++;
+      pos++;
+    }
+  };
+
+  const readString = (): string => {
+    const start = pos;
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    pos++;
+    return JSON.parse(text.slice(start, pos));
+  };
+
+  const readValue = (path: string) => {
+    skipWhitespace();
+    if (!lines.has(path)) lines.set(path, line);
+
+    const char = text[pos];
+    if (char === '{' || char === '[') {
+      const isObject = char === '{';
+      const close = isObject ? '}' : ']';
+      pos++;
+      skipWhitespace();
+
+      let index = 0;
+      while (pos < text.length && text[pos] !== close) {
+        if (isObject) {
+          const keyLine = line;
+          const key = readString();
+          const childPath = path ? `${path}.${key}` : key;
+          lines.set(childPath, keyLine);
+          skipWhitespace();
+          pos++; // ":"
+          readValue(childPath);
+        } else {
+          readValue(`${path}[${index++}]`);
+        }
+        skipWhitespace();
+        if (text[pos] === ',') {
+          pos++;
+          skipWhitespace();
+        }
+      }
+      pos++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++;
+    }
+  };
+
+  readValue('');
+  return lines;
+}
+
+/**
+ * JSON台本を解析（構文エラーは行番号付きの ScriptSyntaxError）
+ */
+export function parseJsonSource(text: string): ScriptSource {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = Number(message.match(/position (\d+)/)?.[1] ?? text.length);
+    const line = text.slice(0, position).split('\n').length;
+    throw new ScriptSyntaxError(`Invalid JSON: ${message}`, line, 'JSON script');
+  }
+
+  return { data, lines: locateJsonPaths(text) };
+}
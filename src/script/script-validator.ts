@@ -0,0 +1,885 @@
+import { existsSync } from 'fs';
+import { resolve as resolvePath } from 'path';
+import { ScriptInput, SectionType } from '../types.js';
+import { normalizeColor } from '../slides/color-utils.js';
+import { isSupportedLanguage, countCodeLines, parseLineRangeList } from '../slides/code-highlighter.js';
+import { loadTheme } from '../slides/theme-loader.js';
+import { loadIllustrationCatalog } from '../slides/illustration-library.js';
+import { parseDiagram, DiagramSyntaxError } from '../slides/diagram-dsl.js';
+import { parseSpeechMarkup, SpeechMarkupError } from '../narration/speech-markup.js';
+import { lineForPath } from './script-source.js';
+
+/**
+ * 台本バリデーター - ScriptInput / Section のスキーマを検証
+ *
+ * - error: 生成できない・意図しないスライドになる問題（生成前に中断する）
+ * - warning: 生成はできるが確認が必要な問題（未知のプロパティ、存在しない画像など）
+ */
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  path: string; // JSONパス（例: "sections[3].table.rows[0]"、ルートは空文字）
+  message: string;
+  line?: number; // 台本ファイル中の行番号（わかる場合のみ）
+}
+
+export interface ValidationResult {
+  valid: boolean; // error が1件もなければ true
+  issues: ValidationIssue[];
+}
+
+type Report = (severity: IssueSeverity, path: string, message: string) => void;
+type PlainObject = Record<string, unknown>;
+
+const sectionTypes: SectionType[] = [
+  'title', 'agenda', 'sectionDivider', 'content', 'comparison', 'twoColumn', 'table', 'chart', 'diagram', 'codeBlock',
+  'screenshot', 'quiz', 'exercise'
+];
+
+// 各オブジェクトで使用できるプロパティ
+const knownKeys = {
+  script: [
+    'title', 'duration', 'branding', 'theme', 'illustrations', 'narrationPlacement', 'progressTracker', 'voice', 'speakers',
+    'sections'
+  ],
+  branding: ['company', 'logo', 'primaryColor', 'secondaryColor', 'font'],
+  section: [
+    'type', 'title', 'subtitle', 'narration', 'bullets', 'columns', 'keywords',
+    'table', 'chart', 'diagram', 'code', 'screenshot', 'quiz', 'exercise', 'voice', 'dialogue'
+  ],
+  dialogueLine: ['speaker', 'text'],
+  table: ['headers', 'rows', 'headerColor', 'columns', 'zebra'],
+  column: ['width', 'align'],
+  layoutColumn: ['heading', 'bullets', 'color', 'image'],
+  chart: ['type', 'labels', 'series', 'horizontal', 'stacked', 'showValues', 'valueFormat', 'unit', 'colors', 'source'],
+  chartSeries: ['name', 'values'],
+  diagram: ['source', 'direction'],
+  code: ['language', 'code', 'description', 'showLineNumbers', 'highlightLines'],
+  screenshot: ['imagePath', 'annotations'],
+  annotation: ['x', 'y', 'unit', 'text', 'color'],
+  quiz: ['question', 'choices', 'answer', 'multiple', 'explanation'],
+  exercise: ['goal', 'steps', 'timerMinutes', 'expectedOutput'],
+  course: [
+    'title', 'subtitle', 'duration', 'branding', 'theme', 'progressTracker', 'narrationPlacement',
+    'dictionary', 'chapters', 'combined', 'pageNumbering', 'outputDir'
+  ],
+  courseChapter: ['scripts', 'title', 'duration', 'voice']
+};
+
+// セクションタイプ専用のデータ（他のタイプでは無視される）
+const typeSpecificKeys: Record<string, SectionType[]> = {
+  columns: ['comparison', 'twoColumn'],
+  table: ['table'],
+  chart: ['chart'],
+  diagram: ['diagram'],
+  code: ['codeBlock'],
+  screenshot: ['screenshot'],
+  quiz: ['quiz'],
+  exercise: ['exercise']
+};
+
+// 列の数（comparison は最大3列、twoColumn は2列）
+const maxColumns: Partial<Record<SectionType, number>> = { comparison: 3, twoColumn: 2 };
+
+const chartTypes = ['bar', 'line', 'pie', 'doughnut'];
+
+const pageNumberings = ['chapter', 'course', 'chapterPrefixed'];
+
+const diagramDirections = ['horizontal', 'vertical'];
+
+// フロー図のノード数（これを超えると文字が小さくなり読みにくい）
+const maxDiagramNodes = 15;
+
+// クイズの選択肢の数（スライドに読みやすく並ぶ上限）
+const maxQuizChoices = 6;
+
+// 箇条書きを表示するセクションタイプ（タイトルスライドは目次として表示）
+const bulletSectionTypes: SectionType[] = ['title', 'content'];
+
+const lineRangesPattern = /^\s*\d+(\s*-\s*\d+)?(\s*,\s*\d+(\s*-\s*\d+)?)*\s*$/;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * 編集距離（タイプミスの候補提示用）
+ */
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * 近い候補があれば " (did you mean "xxx"?)" を返す
+ */
+function suggestion(value: string, candidates: string[]): string {
+  const lower = value.toLowerCase();
+  const best = candidates
+    .map(candidate => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const threshold = Math.max(1, Math.floor(value.length / 3));
+  return best && best.distance <= threshold ? ` (did you mean "${best.candidate}"?)` : '';
+}
+
+function checkUnknownKeys(report: Report, path: string, value: PlainObject, known: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      report('warning', joinPath(path, key), `Unknown property "${key}" is ignored${suggestion(key, known)}`);
+    }
+  }
+}
+
+/**
+ * 文字列プロパティの検証
+ */
+function checkString(report: Report, path: string, value: unknown, required: boolean): value is string {
+  if (value === undefined) {
+    if (required) report('error', path, 'Required property is missing');
+    return false;
+  }
+  if (typeof value !== 'string') {
+    report('error', path, `Must be a string (got ${typeName(value)})`);
+    return false;
+  }
+  if (required && !value.trim()) {
+    report('error', path, 'Must not be empty');
+    return false;
+  }
+  return true;
+}
+
+function checkBoolean(report: Report, path: string, value: unknown): void {
+  if (value !== undefined && typeof value !== 'boolean') {
+    report('error', path, `Must be true or false (got ${typeName(value)})`);
+  }
+}
+
+function checkColor(report: Report, path: string, value: unknown, required: boolean): void {
+  if (checkString(report, path, value, required) && !normalizeColor(value)) {
+    report('error', path, `Invalid color "${value}" (expected hex like "5FB8A6" or "#5FB8A6")`);
+  }
+}
+
+function checkStringArray(report: Report, path: string, value: unknown): value is string[] {
+  if (!Array.isArray(value)) {
+    report('error', path, `Must be an array of strings (got ${typeName(value)})`);
+    return false;
+  }
+  value.forEach((item, index) => checkString(report, joinPath(path, index), item, false));
+  return true;
+}
+
+function validateBranding(report: Report, path: string, branding: unknown): void {
+  if (!isPlainObject(branding)) {
+    report('error', path, branding === undefined ? 'Required property is missing' : `Must be an object (got ${typeName(branding)})`);
+    return;
+  }
+
+  checkUnknownKeys(report, path, branding, knownKeys.branding);
+  checkString(report, joinPath(path, 'company'), branding.company, true);
+  checkColor(report, joinPath(path, 'primaryColor'), branding.primaryColor, true);
+  checkColor(report, joinPath(path, 'secondaryColor'), branding.secondaryColor, false);
+  checkString(report, joinPath(path, 'font'), branding.font, false);
+
+  // 空文字はロゴなし（会社名を表示）
+  if (checkString(report, joinPath(path, 'logo'), branding.logo, false) && branding.logo !== '' && !existsSync(branding.logo)) {
+    report('warning', joinPath(path, 'logo'), `Logo file not found: ${branding.logo} (company name is shown instead)`);
+  }
+}
+
+function validateTable(report: Report, path: string, table: PlainObject): void {
+  checkUnknownKeys(report, path, table, knownKeys.table);
+
+  const headersPath = joinPath(path, 'headers');
+  let columnCount = 0;
+  if (table.headers === undefined) {
+    report('error', headersPath, 'Required property is missing');
+  } else if (checkStringArray(report, headersPath, table.headers)) {
+    columnCount = table.headers.length;
+    if (columnCount === 0) report('error', headersPath, 'Table needs at least one column');
+  }
+
+  const rowsPath = joinPath(path, 'rows');
+  if (table.rows === undefined) {
+    report('error', rowsPath, 'Required property is missing');
+  } else if (!Array.isArray(table.rows)) {
+    report('error', rowsPath, `Must be an array of rows (got ${typeName(table.rows)})`);
+  } else {
+    table.rows.forEach((row, index) => {
+      const rowPath = joinPath(rowsPath, index);
+      if (checkStringArray(report, rowPath, row) && columnCount > 0 && row.length !== columnCount) {
+        const detail = row.length < columnCount ? 'missing cells are left blank' : 'extra cells are ignored';
+        report('warning', rowPath, `Row has ${row.length} cells but the table has ${columnCount} columns (${detail})`);
+      }
+    });
+  }
+
+  checkColor(report, joinPath(path, 'headerColor'), table.headerColor, false);
+  checkBoolean(report, joinPath(path, 'zebra'), table.zebra);
+
+  const columnsPath = joinPath(path, 'columns');
+  if (table.columns === undefined) return;
+  if (!Array.isArray(table.columns)) {
+    report('error', columnsPath, `Must be an array (got ${typeName(table.columns)})`);
+    return;
+  }
+  if (columnCount > 0 && table.columns.length > columnCount) {
+    report('warning', columnsPath, `${table.columns.length} column settings for ${columnCount} columns (extra settings are ignored)`);
+  }
+  table.columns.forEach((column, index) => {
+    const columnPath = joinPath(columnsPath, index);
+    if (column === null) return;
+    if (!isPlainObject(column)) {
+      report('error', columnPath, `Must be an object (got ${typeName(column)})`);
+      return;
+    }
+    checkUnknownKeys(report, columnPath, column, knownKeys.column);
+    if (column.width !== undefined && (typeof column.width !== 'number' || column.width <= 0)) {
+      report('error', joinPath(columnPath, 'width'), 'Must be a positive number (inches)');
+    }
+    if (column.align !== undefined && !['left', 'center', 'right'].includes(column.align as string)) {
+      report('error', joinPath(columnPath, 'align'), `Must be "left", "center" or "right" (got ${JSON.stringify(column.align)})`);
+    }
+  });
+}
+
+function validateChart(report: Report, path: string, chart: PlainObject): void {
+  checkUnknownKeys(report, path, chart, knownKeys.chart);
+
+  const typePath = joinPath(path, 'type');
+  if (checkString(report, typePath, chart.type, true) && !chartTypes.includes(chart.type)) {
+    report('error', typePath, `Unknown chart type "${chart.type}"${suggestion(chart.type, chartTypes)} (expected: ${chartTypes.join(', ')})`);
+  }
+
+  const labelsPath = joinPath(path, 'labels');
+  let labelCount = 0;
+  if (chart.labels === undefined) {
+    report('error', labelsPath, 'Required property is missing');
+  } else if (checkStringArray(report, labelsPath, chart.labels)) {
+    labelCount = chart.labels.length;
+    if (labelCount === 0) report('error', labelsPath, 'Chart needs at least one label');
+  }
+
+  const seriesPath = joinPath(path, 'series');
+  if (chart.series === undefined) {
+    report('error', seriesPath, 'Required property is missing');
+  } else if (!Array.isArray(chart.series)) {
+    report('error', seriesPath, `Must be an array of series (got ${typeName(chart.series)})`);
+  } else if (chart.series.length === 0) {
+    report('error', seriesPath, 'Chart needs at least one series');
+  } else {
+    chart.series.forEach((series, index) => {
+      const itemPath = joinPath(seriesPath, index);
+      if (!isPlainObject(series)) {
+        report('error', itemPath, `Must be an object (got ${typeName(series)})`);
+        return;
+      }
+      checkUnknownKeys(report, itemPath, series, knownKeys.chartSeries);
+      checkString(report, joinPath(itemPath, 'name'), series.name, true);
+
+      const valuesPath = joinPath(itemPath, 'values');
+      if (series.values === undefined) {
+        report('error', valuesPath, 'Required property is missing');
+      } else if (!Array.isArray(series.values) || !series.values.every(value => typeof value === 'number' && Number.isFinite(value))) {
+        report('error', valuesPath, 'Must be an array of numbers');
+      } else if (labelCount > 0 && series.values.length !== labelCount) {
+        report('error', valuesPath, `Series has ${series.values.length} values but the chart has ${labelCount} labels`);
+      }
+    });
+
+    if ((chart.type === 'pie' || chart.type === 'doughnut') && chart.series.length > 1) {
+      report('warning', seriesPath, `"${chart.type}" charts show only the first series (${chart.series.length - 1} ignored)`);
+    }
+  }
+
+  for (const key of ['horizontal', 'stacked']) {
+    checkBoolean(report, joinPath(path, key), chart[key]);
+    if (chart[key] !== undefined && chart.type !== 'bar') {
+      report('warning', joinPath(path, key), `"${key}" is only used by "bar" charts`);
+    }
+  }
+  checkBoolean(report, joinPath(path, 'showValues'), chart.showValues);
+  checkString(report, joinPath(path, 'valueFormat'), chart.valueFormat, false);
+  checkString(report, joinPath(path, 'unit'), chart.unit, false);
+  checkString(report, joinPath(path, 'source'), chart.source, false);
+
+  if (chart.colors !== undefined && checkStringArray(report, joinPath(path, 'colors'), chart.colors)) {
+    chart.colors.forEach((color, index) => checkColor(report, joinPath(joinPath(path, 'colors'), index), color, true));
+  }
+}
+
+function validateCode(report: Report, path: string, code: PlainObject): void {
+  checkUnknownKeys(report, path, code, knownKeys.code);
+
+  const languagePath = joinPath(path, 'language');
+  if (checkString(report, languagePath, code.language, true) && !isSupportedLanguage(code.language)) {
+    report('warning', languagePath, `Unsupported language "${code.language}" (highlighted as plain prompt text)`);
+  }
+  const hasCode = checkString(report, joinPath(path, 'code'), code.code, true);
+  checkString(report, joinPath(path, 'description'), code.description, false);
+  checkBoolean(report, joinPath(path, 'showLineNumbers'), code.showLineNumbers);
+
+  const highlightPath = joinPath(path, 'highlightLines');
+  const highlight = code.highlightLines;
+  if (highlight === undefined) return;
+  if (typeof highlight === 'string') {
+    if (!lineRangesPattern.test(highlight)) {
+      report('error', highlightPath, `Invalid line ranges "${highlight}" (expected e.g. "2,4-6")`);
+      return;
+    }
+  } else if (!Array.isArray(highlight) || highlight.some(line => !Number.isInteger(line) || line < 1)) {
+    report('error', highlightPath, 'Must be a line range string like "2,4-6" or an array of line numbers');
+    return;
+  }
+
+  if (!hasCode) return;
+  const lineCount = countCodeLines(code.code as string);
+  const outside = parseLineRangeList(highlight as string | number[])
+    .find(([start, end]) => start < 1 || end > lineCount);
+  if (outside) {
+    const range = outside[0] === outside[1] ? `${outside[0]}` : `${outside[0]}-${outside[1]}`;
+    report('error', highlightPath, `Line ${range} is outside the code (${lineCount} lines)`);
+  }
+}
+
+function validateDiagram(report: Report, path: string, diagram: PlainObject): void {
+  checkUnknownKeys(report, path, diagram, knownKeys.diagram);
+
+  const directionPath = joinPath(path, 'direction');
+  if (checkString(report, directionPath, diagram.direction, false) && !diagramDirections.includes(diagram.direction)) {
+    report('error', directionPath, `Unknown direction "${diagram.direction}"${suggestion(diagram.direction, diagramDirections)} (expected: ${diagramDirections.join(', ')})`);
+  }
+
+  const sourcePath = joinPath(path, 'source');
+  if (!checkString(report, sourcePath, diagram.source, true)) return;
+  try {
+    const graph = parseDiagram(diagram.source);
+    if (graph.nodes.length > maxDiagramNodes) {
+      report('warning', sourcePath, `Diagram has ${graph.nodes.length} nodes (labels may become too small; up to ${maxDiagramNodes} recommended)`);
+    }
+  } catch (error) {
+    if (!(error instanceof DiagramSyntaxError)) throw error;
+    report('error', sourcePath, error.message);
+  }
+}
+
+/**
+ * ナレーションの読み上げ記法（[pause 800ms] / {slow}…{/slow} / {read:よみ}表記{/read} など）
+ */
+function validateSpeechMarkup(report: Report, path: string, narration: string): void {
+  try {
+    parseSpeechMarkup(narration);
+  } catch (error) {
+    if (!(error instanceof SpeechMarkupError)) throw error;
+    report('error', path, error.message);
+  }
+}
+
+/**
+ * 会話形式のナレーションの各行（話者が speakers に定義されているかは validateDialogueSpeakers で検証）
+ */
+function validateDialogue(report: Report, sectionPath: string, section: PlainObject): void {
+  const { dialogue } = section;
+  const path = joinPath(sectionPath, 'dialogue');
+  if (!Array.isArray(dialogue) || dialogue.length === 0) {
+    report('error', path, `Must be a non-empty array of { speaker, text } lines (got ${typeName(dialogue)})`);
+    return;
+  }
+  if (typeof section.narration === 'string' && section.narration.trim()) {
+    report('warning', joinPath(sectionPath, 'narration'), 'Narration is not read aloud when "dialogue" is set (it is still shown on the slide)');
+  }
+
+  dialogue.forEach((line, index) => {
+    const linePath = joinPath(path, index);
+    if (!isPlainObject(line)) {
+      report('error', linePath, `Dialogue line must be an object with "speaker" and "text" (got ${typeName(line)})`);
+      return;
+    }
+    checkUnknownKeys(report, linePath, line, knownKeys.dialogueLine);
+    checkString(report, joinPath(linePath, 'speaker'), line.speaker, true);
+    if (checkString(report, joinPath(linePath, 'text'), line.text, true)) {
+      validateSpeechMarkup(report, joinPath(linePath, 'text'), line.text);
+    }
+  });
+}
+
+/**
+ * 会話の話者名（台本の speakers）と、各セクションの会話の話者が定義されているか
+ */
+function validateDialogueSpeakers(report: Report, speakers: unknown, sections: unknown[]): void {
+  let names: string[] = [];
+  if (speakers !== undefined) {
+    if (!isPlainObject(speakers)) {
+      report('error', 'speakers', `Must be an object of speaker name to voice (got ${typeName(speakers)})`);
+    } else {
+      names = Object.keys(speakers);
+      for (const [name, voice] of Object.entries(speakers)) {
+        checkString(report, joinPath('speakers', name), voice, true);
+      }
+    }
+  }
+
+  sections.forEach((section, index) => {
+    if (!isPlainObject(section) || !Array.isArray(section.dialogue)) return;
+    section.dialogue.forEach((line, lineIndex) => {
+      if (!isPlainObject(line) || typeof line.speaker !== 'string' || names.includes(line.speaker)) return;
+      const speakerPath = joinPath(joinPath(joinPath(joinPath('sections', index), 'dialogue'), lineIndex), 'speaker');
+      const defined = names.length > 0 ? ` (defined: ${names.join(', ')})` : '';
+      report('error', speakerPath, `Speaker "${line.speaker}" is not defined in "speakers"${suggestion(line.speaker, names)}${defined}`);
+    });
+  });
+}
+
+function validateQuiz(report: Report, path: string, quiz: PlainObject): void {
+  checkUnknownKeys(report, path, quiz, knownKeys.quiz);
+  checkString(report, joinPath(path, 'question'), quiz.question, true);
+  checkString(report, joinPath(path, 'explanation'), quiz.explanation, false);
+  checkBoolean(report, joinPath(path, 'multiple'), quiz.multiple);
+
+  const choicesPath = joinPath(path, 'choices');
+  let choiceCount: number | undefined;
+  if (quiz.choices === undefined) {
+    report('error', choicesPath, 'Required property is missing');
+  } else if (checkStringArray(report, choicesPath, quiz.choices)) {
+    choiceCount = quiz.choices.length;
+    if (choiceCount < 2) {
+      report('error', choicesPath, `Quiz needs at least 2 choices (got ${choiceCount})`);
+    } else if (choiceCount > maxQuizChoices) {
+      report('warning', choicesPath, `${choiceCount} choices may not fit on the slide (up to ${maxQuizChoices} recommended)`);
+    }
+  }
+
+  // 正解は選択肢の番号（1始まり）、複数の正解は配列
+  const answerPath = joinPath(path, 'answer');
+  if (quiz.answer === undefined) {
+    report('error', answerPath, 'Required property is missing (number of the correct choice, starting at 1)');
+    return;
+  }
+  const answers = Array.isArray(quiz.answer) ? quiz.answer : [quiz.answer];
+  if (answers.length === 0) {
+    report('error', answerPath, 'Quiz needs at least one correct answer');
+    return;
+  }
+  answers.forEach((answer, index) => {
+    const itemPath = Array.isArray(quiz.answer) ? joinPath(answerPath, index) : answerPath;
+    if (typeof answer !== 'number' || !Number.isInteger(answer) || answer < 1) {
+      report('error', itemPath, `Must be the number of a choice, starting at 1 (got ${JSON.stringify(answer)})`);
+    } else if (choiceCount !== undefined && answer > choiceCount) {
+      report('error', itemPath, `Answer ${answer} is out of range (the quiz has ${choiceCount} choices)`);
+    }
+  });
+  if (quiz.multiple === false && answers.length > 1) {
+    report('error', answerPath, `Single-choice quiz has ${answers.length} correct answers (set "multiple": true or keep one answer)`);
+  }
+}
+
+function validateExercise(report: Report, path: string, exercise: PlainObject): void {
+  checkUnknownKeys(report, path, exercise, knownKeys.exercise);
+  checkString(report, joinPath(path, 'goal'), exercise.goal, true);
+  checkString(report, joinPath(path, 'expectedOutput'), exercise.expectedOutput, false);
+
+  const stepsPath = joinPath(path, 'steps');
+  if (exercise.steps === undefined) {
+    report('error', stepsPath, 'Required property is missing');
+  } else if (checkStringArray(report, stepsPath, exercise.steps) && exercise.steps.length === 0) {
+    report('error', stepsPath, 'Exercise needs at least one step');
+  }
+
+  const timer = exercise.timerMinutes;
+  if (timer !== undefined && (typeof timer !== 'number' || !Number.isFinite(timer) || timer <= 0)) {
+    report('error', joinPath(path, 'timerMinutes'), `Must be a positive number of minutes (got ${JSON.stringify(timer)})`);
+  }
+}
+
+function validateColumns(report: Report, path: string, columns: unknown, type: SectionType | undefined): void {
+  if (!Array.isArray(columns)) {
+    report('error', path, `Must be an array of columns (got ${typeName(columns)})`);
+    return;
+  }
+
+  const max = type ? maxColumns[type] : undefined;
+  if (max && columns.length < 2) {
+    report('error', path, `"${type}" sections need at least 2 columns (got ${columns.length})`);
+  } else if (max && columns.length > max) {
+    report('warning', path, `"${type}" sections show up to ${max} columns (${columns.length - max} ignored)`);
+  }
+
+  columns.forEach((column, index) => {
+    const columnPath = joinPath(path, index);
+    if (!isPlainObject(column)) {
+      report('error', columnPath, `Must be an object (got ${typeName(column)})`);
+      return;
+    }
+    checkUnknownKeys(report, columnPath, column, knownKeys.layoutColumn);
+    checkString(report, joinPath(columnPath, 'heading'), column.heading, true);
+    if (column.bullets !== undefined) checkStringArray(report, joinPath(columnPath, 'bullets'), column.bullets);
+    checkColor(report, joinPath(columnPath, 'color'), column.color, false);
+
+    const imagePath = joinPath(columnPath, 'image');
+    if (checkString(report, imagePath, column.image, false) && !existsSync(column.image)) {
+      report('warning', imagePath, `Image file not found: ${column.image} (the image is omitted)`);
+    }
+  });
+}
+
+function validateScreenshot(report: Report, path: string, screenshot: PlainObject): void {
+  checkUnknownKeys(report, path, screenshot, knownKeys.screenshot);
+
+  const imagePath = joinPath(path, 'imagePath');
+  if (checkString(report, imagePath, screenshot.imagePath, true) && !existsSync(screenshot.imagePath)) {
+    report('warning', imagePath, `Image file not found: ${screenshot.imagePath} (a placeholder is shown)`);
+  }
+
+  const annotationsPath = joinPath(path, 'annotations');
+  if (screenshot.annotations === undefined) return;
+  if (!Array.isArray(screenshot.annotations)) {
+    report('error', annotationsPath, `Must be an array (got ${typeName(screenshot.annotations)})`);
+    return;
+  }
+  screenshot.annotations.forEach((annotation, index) => {
+    const annotationPath = joinPath(annotationsPath, index);
+    if (!isPlainObject(annotation)) {
+      report('error', annotationPath, `Must be an object (got ${typeName(annotation)})`);
+      return;
+    }
+    checkUnknownKeys(report, annotationPath, annotation, knownKeys.annotation);
+    const unit = annotation.unit;
+    if (unit !== undefined && unit !== 'ratio' && unit !== 'px') {
+      report('error', joinPath(annotationPath, 'unit'), `Must be "ratio" or "px" (got ${JSON.stringify(unit)})`);
+    }
+    for (const axis of ['x', 'y']) {
+      const value = annotation[axis];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        report('error', joinPath(annotationPath, axis), value === undefined
+          ? 'Required property is missing'
+          : 'Must be a non-negative number (0-1: ratio of the image, or pixels when unit is "px")');
+      } else if (unit === 'ratio' && value > 1) {
+        report('error', joinPath(annotationPath, axis), `Must be between 0 and 1 when unit is "ratio" (got ${value})`);
+      }
+    }
+    checkString(report, joinPath(annotationPath, 'text'), annotation.text, true);
+    checkColor(report, joinPath(annotationPath, 'color'), annotation.color, true);
+  });
+}
+
+function validateSection(report: Report, path: string, section: unknown): void {
+  if (!isPlainObject(section)) {
+    report('error', path, `Section must be an object (got ${typeName(section)})`);
+    return;
+  }
+
+  checkUnknownKeys(report, path, section, knownKeys.section);
+
+  const typePath = joinPath(path, 'type');
+  let type: SectionType | undefined;
+  if (checkString(report, typePath, section.type, true)) {
+    if (sectionTypes.includes(section.type as SectionType)) {
+      type = section.type as SectionType;
+    } else {
+      report('error', typePath, `Unknown section type "${section.type}"${suggestion(section.type, sectionTypes)} (expected: ${sectionTypes.join(', ')})`);
+    }
+  }
+
+  checkString(report, joinPath(path, 'title'), section.title, true);
+  checkString(report, joinPath(path, 'subtitle'), section.subtitle, false);
+  if (checkString(report, joinPath(path, 'narration'), section.narration, false)) {
+    validateSpeechMarkup(report, joinPath(path, 'narration'), section.narration);
+  }
+  checkString(report, joinPath(path, 'voice'), section.voice, false);
+  if (section.dialogue !== undefined) validateDialogue(report, path, section);
+  if (section.bullets !== undefined) checkStringArray(report, joinPath(path, 'bullets'), section.bullets);
+  if (section.keywords !== undefined) checkStringArray(report, joinPath(path, 'keywords'), section.keywords);
+
+  // タイプ専用データ
+  for (const [key, usedBy] of Object.entries(typeSpecificKeys)) {
+    const value = section[key];
+    const keyPath = joinPath(path, key);
+    if (value === undefined) continue;
+    if (type && !usedBy.includes(type)) {
+      const names = usedBy.map(sectionType => `"${sectionType}"`).join(' / ');
+      report('warning', keyPath, `"${key}" is only used by ${names} sections and is ignored for "${type}"`);
+    }
+    if (key === 'columns') {
+      validateColumns(report, keyPath, value, type);
+      continue;
+    }
+    if (!isPlainObject(value)) {
+      report('error', keyPath, `Must be an object (got ${typeName(value)})`);
+      continue;
+    }
+    if (key === 'table') validateTable(report, keyPath, value);
+    if (key === 'chart') validateChart(report, keyPath, value);
+    if (key === 'diagram') validateDiagram(report, keyPath, value);
+    if (key === 'code') validateCode(report, keyPath, value);
+    if (key === 'screenshot') validateScreenshot(report, keyPath, value);
+    if (key === 'quiz') validateQuiz(report, keyPath, value);
+    if (key === 'exercise') validateExercise(report, keyPath, value);
+  }
+
+  // タイプごとの必須データ
+  if ((type === 'comparison' || type === 'twoColumn') && section.columns === undefined) {
+    report('error', joinPath(path, 'columns'), `"${type}" sections require "columns" with a heading for each column`);
+  }
+  if (type === 'table' && section.table === undefined) {
+    report('error', joinPath(path, 'table'), 'Table sections require "table" with headers and rows');
+  }
+  if (type === 'chart' && section.chart === undefined) {
+    report('error', joinPath(path, 'chart'), 'Chart sections require "chart" with type, labels and series');
+  }
+  if (type === 'diagram' && section.diagram === undefined) {
+    report('error', joinPath(path, 'diagram'), 'Diagram sections require "diagram" with the flow diagram source');
+  }
+  if (type === 'codeBlock' && section.code === undefined) {
+    report('error', joinPath(path, 'code'), 'Code block sections require "code" with language and code');
+  }
+  if (type === 'quiz' && section.quiz === undefined) {
+    report('error', joinPath(path, 'quiz'), 'Quiz sections require "quiz" with question, choices and answer');
+  }
+  if (type === 'exercise' && section.exercise === undefined) {
+    report('error', joinPath(path, 'exercise'), 'Exercise sections require "exercise" with goal and steps');
+  }
+  if (type === 'screenshot' && section.screenshot === undefined) {
+    report('warning', joinPath(path, 'screenshot'), 'No screenshot image (a placeholder is shown)');
+  }
+  if (type === 'content' && section.narration === undefined && section.bullets === undefined) {
+    report('warning', path, 'Content section has neither narration nor bullets (the slide will be empty)');
+  }
+  if (type && !bulletSectionTypes.includes(type) && section.bullets !== undefined) {
+    report('warning', joinPath(path, 'bullets'), `Bullets are only shown on "title" and "content" sections and are ignored for "${type}"`);
+  }
+}
+
+/**
+ * アジェンダの後ろにセクション区切りがあるか（次のアジェンダまでに1つもなければ空のアジェンダになる）
+ */
+function validateAgendas(report: Report, sections: unknown[]): void {
+  const typeAt = (index: number) => (isPlainObject(sections[index]) ? sections[index].type : undefined);
+
+  sections.forEach((_section, index) => {
+    if (typeAt(index) !== 'agenda') return;
+
+    for (let next = index + 1; next < sections.length && typeAt(next) !== 'agenda'; next++) {
+      if (typeAt(next) === 'sectionDivider') return;
+    }
+    report('warning', joinPath('sections', index), 'Agenda has no "sectionDivider" sections after it (the agenda will be empty)');
+  });
+}
+
+/**
+ * 台本を検証
+ * @param script 検証する値（JSON.parse した結果など、型は問わない）
+ * @param lines JSONパスと行番号の対応（ScriptSource.lines）
+ */
+export function validateScript(script: unknown, lines?: Map<string, number>): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const report: Report = (severity, path, message) => {
+    const line = lines ? lineForPath(lines, path) : undefined;
+    issues.push({ severity, path, message, ...(line !== undefined ? { line } : {}) });
+  };
+
+  if (!isPlainObject(script)) {
+    report('error', '', `Script must be an object (got ${typeName(script)})`);
+    return { valid: false, issues };
+  }
+
+  checkUnknownKeys(report, '', script, knownKeys.script);
+  checkString(report, 'title', script.title, true);
+  checkString(report, 'duration', script.duration, true);
+  validateBranding(report, 'branding', script.branding);
+
+  if (checkString(report, 'theme', script.theme, false)) {
+    try {
+      loadTheme(script.theme);
+    } catch (error) {
+      report('error', 'theme', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (checkString(report, 'illustrations', script.illustrations, false)) {
+    try {
+      loadIllustrationCatalog(script.illustrations);
+    } catch (error) {
+      report('error', 'illustrations', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (script.narrationPlacement !== undefined && !['slide', 'notes'].includes(script.narrationPlacement as string)) {
+    report('error', 'narrationPlacement', `Must be "slide" or "notes" (got ${JSON.stringify(script.narrationPlacement)})`);
+  }
+
+  checkBoolean(report, 'progressTracker', script.progressTracker);
+  checkString(report, 'voice', script.voice, false);
+  validateDialogueSpeakers(report, script.speakers, Array.isArray(script.sections) ? script.sections : []);
+
+  if (script.sections === undefined) {
+    report('error', 'sections', 'Required property is missing');
+  } else if (!Array.isArray(script.sections)) {
+    report('error', 'sections', `Must be an array of sections (got ${typeName(script.sections)})`);
+  } else if (script.sections.length === 0) {
+    report('error', 'sections', 'Script has no sections');
+  } else {
+    script.sections.forEach((section, index) => validateSection(report, joinPath('sections', index), section));
+    validateAgendas(report, script.sections);
+  }
+
+  // 行番号順（行番号のないものは末尾）に並べる
+  issues.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+}
+
+/**
+ * 台本の声（voice・各セクションの voice・speakers の声）がTTSプロバイダーにあるかを検証
+ * 声の一覧はプロバイダーごとに異なるため、validateScript とは別にナレーション生成の前に行う
+ * @param voiceNames プロバイダーの声の名前（TtsProvider.listVoices）
+ * @param providerName メッセージに表示するプロバイダー名
+ */
+export function validateVoices(script: ScriptInput, voiceNames: string[], providerName: string, lines?: Map<string, number>): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const checkVoice = (path: string, voice: string | undefined) => {
+    if (voice === undefined || voiceNames.includes(voice)) return;
+    const line = lines ? lineForPath(lines, path) : undefined;
+    const message = `Unknown voice "${voice}" for the ${providerName} TTS provider${suggestion(voice, voiceNames)} (available: ${voiceNames.join(', ')})`;
+    issues.push({ severity: 'error', path, message, ...(line !== undefined ? { line } : {}) });
+  };
+
+  checkVoice('voice', script.voice);
+  for (const [speaker, voice] of Object.entries(script.speakers || {})) {
+    checkVoice(joinPath('speakers', speaker), voice);
+  }
+  script.sections.forEach((section, index) => checkVoice(joinPath(joinPath('sections', index), 'voice'), section.voice));
+
+  issues.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
+
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * 講座マニフェストを検証
+ * @param manifest 検証する値（JSON.parse した結果）
+ * @param baseDir 章の台本・辞書のパスの基準（マニフェストのディレクトリ）
+ * @param lines JSONパスと行番号の対応
+ */
+export function validateCourseManifest(manifest: unknown, baseDir: string, lines?: Map<string, number>): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const report: Report = (severity, issuePath, message) => {
+    const line = lines ? lineForPath(lines, issuePath) : undefined;
+    issues.push({ severity, path: issuePath, message, ...(line !== undefined ? { line } : {}) });
+  };
+
+  if (!isPlainObject(manifest)) {
+    report('error', '', `Course manifest must be an object (got ${typeName(manifest)})`);
+    return { valid: false, issues };
+  }
+
+  checkUnknownKeys(report, '', manifest, knownKeys.course);
+  checkString(report, 'title', manifest.title, true);
+  checkString(report, 'subtitle', manifest.subtitle, false);
+  checkString(report, 'duration', manifest.duration, false);
+  if (manifest.branding !== undefined) validateBranding(report, 'branding', manifest.branding);
+  checkBoolean(report, 'progressTracker', manifest.progressTracker);
+  checkBoolean(report, 'combined', manifest.combined);
+  checkString(report, 'outputDir', manifest.outputDir, false);
+
+  if (checkString(report, 'theme', manifest.theme, false)) {
+    try {
+      loadTheme(manifest.theme);
+    } catch (error) {
+      report('error', 'theme', error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (manifest.narrationPlacement !== undefined && !['slide', 'notes'].includes(manifest.narrationPlacement as string)) {
+    report('error', 'narrationPlacement', `Must be "slide" or "notes" (got ${JSON.stringify(manifest.narrationPlacement)})`);
+  }
+  if (checkString(report, 'pageNumbering', manifest.pageNumbering, false) && !pageNumberings.includes(manifest.pageNumbering)) {
+    report('error', 'pageNumbering', `Unknown page numbering "${manifest.pageNumbering}"${suggestion(manifest.pageNumbering, pageNumberings)} (expected: ${pageNumberings.join(', ')})`);
+  }
+  if (checkString(report, 'dictionary', manifest.dictionary, false) && !existsSync(resolvePath(baseDir, manifest.dictionary))) {
+    report('error', 'dictionary', `Dictionary not found: ${manifest.dictionary}`);
+  }
+
+  const checkScriptFile = (filePath: string, value: unknown) => {
+    if (checkString(report, filePath, value, true) && !existsSync(resolvePath(baseDir, value))) {
+      report('error', filePath, `Script not found: ${value}`);
+    }
+  };
+
+  if (manifest.chapters === undefined) {
+    report('error', 'chapters', 'Required property is missing');
+  } else if (!Array.isArray(manifest.chapters) || manifest.chapters.length === 0) {
+    report('error', 'chapters', 'Must be a non-empty array of script paths or chapters');
+  } else {
+    manifest.chapters.forEach((chapter, index) => {
+      const chapterPath = joinPath('chapters', index);
+      if (typeof chapter === 'string') {
+        checkScriptFile(chapterPath, chapter);
+        return;
+      }
+      if (!isPlainObject(chapter)) {
+        report('error', chapterPath, `Must be a script path or an object with "scripts" (got ${typeName(chapter)})`);
+        return;
+      }
+
+      checkUnknownKeys(report, chapterPath, chapter, knownKeys.courseChapter);
+      checkString(report, joinPath(chapterPath, 'title'), chapter.title, false);
+      checkString(report, joinPath(chapterPath, 'duration'), chapter.duration, false);
+      checkString(report, joinPath(chapterPath, 'voice'), chapter.voice, false);
+      const scriptsPath = joinPath(chapterPath, 'scripts');
+      if (!Array.isArray(chapter.scripts) || chapter.scripts.length === 0) {
+        report('error', scriptsPath, chapter.scripts === undefined ? 'Required property is missing' : 'Must be a non-empty array of script paths');
+        return;
+      }
+      chapter.scripts.forEach((script, scriptIndex) => checkScriptFile(joinPath(scriptsPath, scriptIndex), script));
+    });
+  }
+
+  issues.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+}
+
+/**
+ * 検証結果を人が読める形式に整形
+ * @param source 台本ファイルのパス（"file:line" 形式で位置を表示）
+ * @param subject 見出しに表示する検証対象（講座マニフェストは "Course manifest"）
+ */
+export function formatValidationReport(result: ValidationResult, source?: string, subject: string = 'Script'): string {
+  const errors = result.issues.filter(issue => issue.severity === 'error').length;
+  const warnings = result.issues.length - errors;
+
+  const header = result.issues.length === 0
+    ? `✅ ${subject} validation passed`
+    : `📋 ${subject} validation: ${errors} error(s), ${warnings} warning(s)`;
+
+  const lines = result.issues.map(issue => {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️ ';
+    const location = [source, issue.line].filter(part => part !== undefined).join(':');
+    const path = issue.path || '(root)';
+    return `  ${icon} ${location ? `${location} ` : ''}${path}: ${issue.message}`;
+  });
+
+  return [header, ...lines].join('\n');
+}
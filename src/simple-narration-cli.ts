@@ -86,8 +86,8 @@ async function promptUser(): Promise<PromptInput> {
 
 async function main() {
   try {
-    // APIキーチェック
-    if (!process.env.GEMINI_API_KEY) {
+    // APIキーチェック（ローカルのTTSプロバイダーでは不要）
+    if (process.env.TTS_PROVIDER !== 'local' && !process.env.GEMINI_API_KEY) {
       console.error('❌ Error: GEMINI_API_KEY environment variable is required.');
       console.error('   Set it in .env file or export it before running this command.');
       process.exit(1);
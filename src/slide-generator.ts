@@ -2,20 +2,133 @@ import pptxgen from 'pptxgenjs';
 import {
   ScriptInput,
   Section,
+  SectionType,
   SlideGenerationResult,
-  TableData
+  SlideGenerationOptions,
+  PageNumberOptions,
+  SlideOutput,
+  SlideMetadata,
+  QuizData,
+  ExerciseData,
+  Annotation,
+  SlideTemplate,
+  TextStyle,
+  BoxConfig,
+  GradientConfig,
+  NarrationAudioConfig,
+  Theme
 } from './types.js';
-import { slideTemplates, brandColors, designRules } from './templates.js';
+import {
+  slideTemplates,
+  brandColors,
+  codeColors,
+  designRules,
+  createBrandColors,
+  defaultFont,
+  defaultTheme,
+  BrandColors
+} from './templates.js';
+import { existsSync, readdirSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { normalizeColor } from './slides/color-utils.js';
+import { renderLinearGradientPng } from './slides/gradient.js';
+import { loadTheme } from './slides/theme-loader.js';
+import { readImageSize, fitImageInBox, annotationToRatio, Box, ImageSize } from './slides/image-utils.js';
+import { tokenizeLines, parseLineRanges } from './slides/code-highlighter.js';
+import { estimateTextHeight, splitTextToFit, measureTextEm } from './slides/text-measure.js';
+import { buildSpeakerNotes, buildAnswerKeyNotes } from './slides/speaker-notes.js';
+import { validateScript, formatValidationReport } from './script/script-validator.js';
+import { fixDesignText, TextKind } from './script/design-linter.js';
+import { readAudioDuration } from './slides/audio-utils.js';
+import { applySlideTimings, SlideTiming, NARRATION_MEDIA_NAME } from './slides/slide-timing.js';
+import { layoutTable } from './slides/table-layout.js';
+import { chartColors, chartFormatCode, isPieChart, toChartSeriesData } from './slides/chart-utils.js';
+import { buildAgenda, computeSectionProgress, progressSectionTypes, SectionProgress } from './slides/agenda.js';
+import { choiceLabel, isMultipleChoice, quizAnswers } from './slides/quiz-utils.js';
+import { parseDiagram, DiagramNodeShape } from './slides/diagram-dsl.js';
+import { layoutDiagram, NodeLayout } from './slides/diagram-layout.js';
+import { loadIllustrationCatalog, resolveIllustration, IllustrationEntry } from './slides/illustration-library.js';
+import { stripSpeechMarkup } from './narration/speech-markup.js';
+import { sectionAudioFilename } from './narration/narration-cache.js';
 
 // @ts-ignore - pptxgenjs ESM support
 const PptxGenJS = pptxgen.default || pptxgen;
 
+/**
+ * コンテンツスライドの間隔（インチ）
+ */
+const contentSpacing = {
+  gap: 0.3, // ナレーションと箇条書きの間隔
+  bulletOffset: 0.1, // ナレーションに対する箇条書きの字下げ
+  bulletIndent: 0.3 // 箇条書き記号の幅
+};
+
+/**
+ * コンテンツスライドのレイアウト寸法（インチ、テーマの contentStyle から算出）
+ */
+interface ContentLayout {
+  x: number;
+  top: number; // 本文の開始位置
+  bottom: number; // 本文の下限（フッターの上）
+  narrationWidth: number;
+  bulletWidth: number;
+  fontSize: number; // 既定フォントサイズ
+}
+
+/**
+ * コンテンツスライド1枚分の内容
+ */
+interface ContentPage {
+  narration: string;
+  bullets: string[];
+}
+
+/**
+ * 比較・2カラムスライドの寸法（インチ）
+ */
+const columnSpacing = {
+  gap: 0.5, // 列の間隔（2カラム）
+  comparisonGap: 0.9, // 列の間隔（比較: 間に VS を表示）
+  headingHeight: 0.6,
+  iconSize: 0.24,
+  imageMaxHeight: 2.0,
+  sectionGap: 0.25 // 見出し・画像・箇条書きの間隔
+};
+
+/**
+ * クイズ・演習スライドの寸法（インチ）
+ */
+const quizSpacing = {
+  itemGap: 0.15, // 選択肢・手順の間隔
+  maxChoiceHeight: 0.75,
+  badgeSize: 0.45, // 選択肢のラベル・手順の番号
+  labelWidth: 1.1, // 「解説」「ゴール」ラベルの幅
+  timerWidth: 1.9, // 制限時間のバッジの幅
+  sectionGap: 0.3 // 問題文・選択肢・解説の間隔
+};
+
+// セクション区切りのイラストを載せる白いパネルの余白（インチ）
+const illustrationPanelInset = 0.2;
+
+/**
+ * セクションに対応するナレーション音声
+ */
+interface SectionAudio {
+  path: string;
+  durationSec: number;
+}
+
+// 音声を埋め込む場合のスライド表示時間のデフォルト（秒）
+const defaultSlideDurationSec = 5;
+const defaultAudioPaddingSec = 1;
+
 /**
  * SlideGeneratorAgent - 台本からPowerPointスライドを自動生成
  *
  * デザイン要件:
  * - 文字がはみ出さない
- * - デザイン性: 2-3色（Stellaブランド + グレー + アクセント）
+ * - デザイン性: 2-3色（BrandingConfigのブランドカラー + グレー + アクセント）
  * - 縦横ライン・インデント整列
  * - 全ページにページ番号（右下）
  * - 具体例・数字・状況描写を含む
@@ -25,9 +138,31 @@ export class SlideGeneratorAgent {
   private pptx: any;
   private branding!: ScriptInput['branding'];
   private slideNumber: number = 0;
-  private logoPath: string = './assets/stella-logo.png';
+  private colors: BrandColors = brandColors;
+  private font: string = defaultFont;
+  private logoPath: string | null = null;
+  private theme: Theme = defaultTheme;
+  private gradientCache = new Map<string, string>();
+  private narrationOnSlide: boolean = true;
+  private pendingNotes: string = '';
+  private narrationAudio: NarrationAudioConfig | null = null;
+  private pendingAudio: SectionAudio | null = null;
+  private slideTimings: SlideTiming[] = [];
+  private sections: Section[] = [];
+  private sectionProgress: Array<SectionProgress | null> = [];
+  private currentProgress: SectionProgress | null = null;
+  private currentSectionIndex: number = 0;
+  private instructor: boolean = false;
+  private pageNumber: PageNumberOptions = {};
+  private illustrations: IllustrationEntry[] = [];
+  private usedIllustrations = new Set<string>();
+  private slides: SlideMetadata[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
 
-  constructor() {
+  /**
+   * 生成ごとに新しいプレゼンテーションを作成し、スライド番号などの状態をリセット
+   */
+  private resetPresentation(): void {
     this.pptx = new PptxGenJS();
     this.pptx.layout = 'LAYOUT_16x9';
     this.pptx.author = 'Stella Co., Ltd.';
@@ -37,6 +172,14 @@ export class SlideGeneratorAgent {
       title: 'DEFAULT',
       objects: []
     });
+
+    this.slideNumber = 0;
+    this.pendingNotes = '';
+    this.pendingAudio = null;
+    this.slideTimings = [];
+    this.slides = [];
+    this.currentProgress = null;
+    this.usedIllustrations = new Set();
   }
 
   /**
@@ -45,41 +188,19 @@ export class SlideGeneratorAgent {
    * - 箇条書き文末の句点除去
    * - 絵文字除去
    */
-  private sanitizeText(text: string, type: 'title' | 'subhead' | 'bullet' = 'bullet'): string {
+  private sanitizeText(text: string, type: TextKind = 'bullet'): string {
     if (!text) return '';
 
-    let sanitized = text;
-
-    // 禁止記号の除去
-    designRules.forbidden.symbols.forEach(symbol => {
-      sanitized = sanitized.replace(new RegExp(symbol, 'g'), '');
-    });
-
-    // 絵文字の除去（Unicode絵文字範囲）
-    if (designRules.forbidden.emoji) {
-      sanitized = sanitized.replace(/[\u{1F600}-\u{1F64F}]/gu, ''); // 顔文字
-      sanitized = sanitized.replace(/[\u{1F300}-\u{1F5FF}]/gu, ''); // シンボル
-      sanitized = sanitized.replace(/[\u{1F680}-\u{1F6FF}]/gu, ''); // 乗り物
-      sanitized = sanitized.replace(/[\u{2600}-\u{26FF}]/gu, ''); // その他記号
-      sanitized = sanitized.replace(/[\u{2700}-\u{27BF}]/gu, ''); // 装飾記号
-    }
-
-    // 箇条書きの場合、文末の句点を除去
-    if (type === 'bullet') {
-      designRules.forbidden.punctuation.forEach(punct => {
-        if (sanitized.endsWith(punct)) {
-          sanitized = sanitized.slice(0, -1);
-        }
-      });
-    }
+    // 禁止記号・絵文字・箇条書き文末の句点を除去（違反の一覧は lint:script で確認できる）
+    const sanitized = fixDesignText(text, type);
 
     // 文字数制限チェック（警告のみ）
-    const limit = designRules.textLimits[type];
+    const limit = type === 'body' ? undefined : designRules.textLimits[type];
     if (limit && sanitized.length > limit) {
       console.warn(`⚠️ Text exceeds limit (${type}: ${sanitized.length}/${limit} chars): "${sanitized.substring(0, 50)}..."`);
     }
 
-    return sanitized.trim();
+    return sanitized;
   }
 
   /**
@@ -89,34 +210,95 @@ export class SlideGeneratorAgent {
     return bullets.map(bullet => this.sanitizeText(bullet, 'bullet'));
   }
 
+  /**
+   * ナレーション音声の埋め込みを設定
+   * 設定すると各セクションの最初のスライドに section_NN_*.mp3 を埋め込み、
+   * 音声の長さに合わせてスライドを自動で切り替える（null で解除）
+   */
+  setNarrationAudio(config: NarrationAudioConfig | null): void {
+    this.narrationAudio = config;
+  }
+
   /**
    * 台本からスライドを生成
+   * 呼び出しごとに新しいプレゼンテーションを作る（同じインスタンスで同時に呼び出した場合は順番に実行）
    */
-  async generate(script: ScriptInput): Promise<SlideGenerationResult> {
+  async generate(script: ScriptInput, options: SlideGenerationOptions = {}): Promise<SlideGenerationResult> {
+    const result = this.queue.then(() => this.generatePresentation(script, options));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async generatePresentation(script: ScriptInput, options: SlideGenerationOptions): Promise<SlideGenerationResult> {
     const startTime = Date.now();
+
+    // 台本の検証（エラーがあれば生成しない）
+    const validation = validateScript(script);
+    if (!validation.valid) {
+      console.error(formatValidationReport(validation));
+      return {
+        status: 'error',
+        error: `Invalid script: ${validation.issues.filter(issue => issue.severity === 'error').length} error(s)`,
+        metrics: {
+          durationMs: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        }
+      };
+    }
+
+    this.resetPresentation();
     this.branding = script.branding;
+    this.font = script.branding.font || defaultFont;
+    this.logoPath = script.branding.logo || null;
+    this.pptx.author = script.branding.company;
+    this.pptx.theme = { headFontFace: this.font, bodyFontFace: this.font };
+    this.narrationOnSlide = script.narrationPlacement !== 'notes';
+    this.sections = script.sections;
+    this.sectionProgress = script.progressTracker ? computeSectionProgress(script.sections) : [];
+    this.instructor = options.instructor === true;
+    this.pageNumber = options.pageNumber || {};
+
+    if (this.logoPath && !existsSync(this.logoPath)) {
+      console.warn(`⚠️  Logo not found: ${this.logoPath} (using company name instead)`);
+    }
 
     try {
-      console.log(`🎨 Generating slides for: ${script.title}`);
+      // テーマの読み込み（テーマの中立色でブランドパレットを上書き）
+      this.theme = loadTheme(script.theme);
+      this.colors = this.createPalette(script);
+      this.illustrations = this.loadIllustrations(script.illustrations);
+      console.log(`🎨 Generating slides for: ${script.title} (theme: ${this.theme.name}${this.instructor ? ', instructor build' : ''})`);
 
       // 各セクションのスライドを生成
-      for (const section of script.sections) {
-        await this.generateSlide(section);
+      for (const [index, section] of script.sections.entries()) {
+        await this.generateSlide(section, index);
       }
 
-      // ファイル出力
-      const filename = `${script.title.replace(/\s+/g, '_')}_${Date.now()}.pptx`;
-      const outputPath = `./output/${filename}`;
+      let data: Buffer = await this.pptx.write({ outputType: 'nodebuffer' });
+
+      let runtimeSec: number | undefined;
+      if (this.narrationAudio) {
+        // 自動切り替え・音声の自動再生を書き込んでから出力
+        data = await applySlideTimings(data, this.slideTimings);
 
-      await this.pptx.writeFile({ fileName: outputPath });
+        runtimeSec = this.slideTimings.reduce((sum, timing) => sum + timing.advanceSec, 0);
+        const audioSlides = this.slideTimings.filter(timing => timing.audioDurationSec !== undefined).length;
+        console.log(`🔊 Narration embedded: ${audioSlides}/${this.slideTimings.length} slides (runtime ${Math.round(runtimeSec)}s)`);
+      }
+
+      const output = options.output || { type: 'directory', dir: './output' };
+      const outputPath = await this.writeOutput(data, output, this.instructor ? `${script.title}_講師用` : script.title);
 
       const durationMs = Date.now() - startTime;
-      console.log(`✅ Slides generated: ${outputPath} (${durationMs}ms)`);
+      console.log(`✅ Slides generated: ${outputPath || `${output.type} (${data.length} bytes)`} (${durationMs}ms)`);
 
       return {
         status: 'success',
-        filename: outputPath,
-        slideCount: script.sections.length,
+        ...(outputPath ? { filename: outputPath } : {}),
+        ...(output.type === 'buffer' ? { buffer: data } : {}),
+        slideCount: this.slideNumber,
+        slides: this.slides,
+        runtimeSec,
         metrics: {
           durationMs,
           timestamp: new Date().toISOString()
@@ -136,536 +318,2008 @@ export class SlideGeneratorAgent {
     }
   }
 
+  /**
+   * 生成したPPTXを出力先に書き出す（ファイルに保存した場合はそのパスを返す）
+   */
+  private async writeOutput(data: Buffer, output: SlideOutput, title: string): Promise<string | undefined> {
+    switch (output.type) {
+      case 'buffer':
+        return undefined;
+      case 'stream':
+        await new Promise<void>((resolve, reject) => {
+          output.stream.once('error', reject);
+          output.stream.end(data, () => resolve());
+        });
+        return undefined;
+      case 'file':
+      case 'directory': {
+        const outputPath = output.type === 'file'
+          ? output.path
+          : path.join(output.dir, `${title.replace(/\s+/g, '_')}_${Date.now()}.pptx`);
+        await mkdir(path.dirname(outputPath), { recursive: true });
+        await writeFile(outputPath, data);
+        return outputPath;
+      }
+    }
+  }
+
   /**
    * セクションタイプに応じたスライドを生成
    */
-  private async generateSlide(section: Section): Promise<void> {
+  private async generateSlide(section: Section, index: number): Promise<void> {
     console.log(`  📄 Generating slide: ${section.type} - ${section.title}`);
 
-    // ページ番号をインクリメント
-    this.slideNumber++;
+    // セクション最初のスライドにスピーカーノート・ナレーション音声を付与（addSlideで書き込む）
+    this.pendingNotes = buildSpeakerNotes(section);
+    this.pendingAudio = this.narrationAudio ? this.findSectionAudio(section, index) : null;
+    this.currentProgress = this.sectionProgress[index] || null;
+    this.currentSectionIndex = index;
 
     switch (section.type) {
       case 'title':
         this.generateTitleSlide(section);
         break;
+      case 'agenda':
+        this.generateAgendaSlide(section, index);
+        break;
       case 'sectionDivider':
         this.generateSectionDividerSlide(section);
         break;
       case 'content':
         this.generateContentSlide(section);
         break;
+      case 'comparison':
+      case 'twoColumn':
+        this.generateColumnsSlide(section);
+        break;
       case 'table':
         this.generateTableSlide(section);
         break;
+      case 'chart':
+        this.generateChartSlide(section);
+        break;
+      case 'diagram':
+        this.generateDiagramSlide(section);
+        break;
       case 'codeBlock':
         this.generateCodeBlockSlide(section);
         break;
       case 'screenshot':
         this.generateScreenshotSlide(section);
         break;
+      case 'quiz':
+        this.generateQuizSlide(section);
+        break;
+      case 'exercise':
+        this.generateExerciseSlide(section);
+        break;
       default:
         console.warn(`⚠️  Unknown slide type: ${section.type}`);
     }
   }
 
   /**
-   * タイトルスライド生成（デザイン改善版 + まじん式v3準拠）
+   * イラストカタログの読み込み（台本のカタログを同梱のカタログより優先）
+   * 同梱のカタログが読めない場合はフォールバックのイラストのみを使う
    */
-  private generateTitleSlide(section: Section): void {
+  private loadIllustrations(customDir?: string): IllustrationEntry[] {
+    const custom = customDir ? loadIllustrationCatalog(customDir) : [];
+    try {
+      return [...custom, ...loadIllustrationCatalog()];
+    } catch (error) {
+      console.warn(`⚠️  ${error instanceof Error ? error.message : error} (using generated illustrations)`);
+      return custom;
+    }
+  }
+
+  /**
+   * ブランドカラーとテーマの中立色からパレットを生成
+   */
+  private createPalette(script: ScriptInput): BrandColors {
+    const palette = createBrandColors(script.branding);
+    for (const [key, value] of Object.entries(this.theme.colors || {})) {
+      const color = normalizeColor(value);
+      if (color) {
+        palette[key as keyof BrandColors] = color;
+      }
+    }
+    return palette;
+  }
+
+  /**
+   * テーマの色指定を解決（パレット名またはHEX）
+   */
+  private resolveColor(color: string): string {
+    const palette: Record<string, string> = this.colors;
+    return palette[color] || normalizeColor(color) || color;
+  }
+
+  /**
+   * セクションタイプのテンプレート（テーマ適用済み）
+   */
+  private template(type: SectionType): SlideTemplate {
+    return this.theme.slides[type] || slideTemplates[type];
+  }
+
+  /**
+   * テンプレートの本文領域（位置・サイズ・文字スタイル）
+   */
+  private contentArea(type: SectionType): TextStyle & BoxConfig {
+    return (this.template(type).contentStyle || slideTemplates[type].contentStyle) as TextStyle & BoxConfig;
+  }
+
+  /**
+   * TextStyleをpptxgenjsのテキストオプションに変換
+   */
+  private textOptions(style: TextStyle): Record<string, unknown> {
+    return {
+      x: style.x,
+      y: style.y,
+      w: style.w,
+      h: style.h,
+      fontSize: style.fontSize,
+      bold: style.bold,
+      color: this.resolveColor(style.color),
+      align: style.align,
+      valign: style.valign,
+      lineSpacing: style.lineSpacing,
+      fontFace: style.font || this.font,
+      lang: 'ja-JP'
+    };
+  }
+
+  /**
+   * スライドを追加してページ番号をインクリメント
+   * 継続スライドを含め、実際に追加したスライドごとに番号を振る
+   * テンプレートの背景とアクセントラインもここで描画する
+   * スピーカーノートはセクションの最初のスライドにのみ書き込む（継続スライドには付けない）
+   * 進捗表示が有効な場合は本文スライドに現在の部を表示する
+   * @param answerKey 講師用ビルドの解答・解答例スライド（継続スライドとは区別してメタデータに記録）
+   */
+  private addSlide(type: SectionType, answerKey: boolean = false): pptxgen.Slide {
+    this.slideNumber++;
     const slide = this.pptx.addSlide();
+    const template = this.template(type);
+
+    const section = this.sections[this.currentSectionIndex];
+    const metadata: SlideMetadata = {
+      slideNumber: this.slideNumber,
+      sectionIndex: this.currentSectionIndex,
+      sectionType: section.type,
+      title: section.title,
+      continuation: !answerKey && this.slides.some(s => s.sectionIndex === this.currentSectionIndex),
+      ...(answerKey ? { answerKey: true } : {}),
+      hasNotes: this.pendingNotes.length > 0
+    };
+    this.slides.push(metadata);
+
+    if (this.pendingNotes) {
+      slide.addNotes(this.pendingNotes);
+      this.pendingNotes = '';
+    }
+    if (this.narrationAudio) {
+      const timing = this.attachNarrationAudio(slide);
+      this.slideTimings.push(timing);
+      Object.assign(metadata, timing);
+    }
 
     // 背景
-    slide.background = { color: 'FFFFFF' };
-
-    // 上部アクセントライン
-    slide.addShape(this.pptx.ShapeType.rect, {
-      x: 0,
-      y: 0,
-      w: 13.33,
-      h: 0.05,
-      fill: { color: brandColors.primary }
-    });
+    this.applyBackground(slide, template.background);
 
-    // ロゴ画像（左上）- タイトルスライドのみ大きめに
-    try {
-      slide.addImage({
-        path: this.logoPath,
-        x: 0.5,
-        y: 0.5,
-        w: 2.5,
-        h: 0.58
-      });
-    } catch (error) {
-      slide.addText(this.branding.company, {
-        x: 0.5,
-        y: 0.5,
-        w: 2.5,
-        h: 0.58,
-        fontSize: 14,
-        color: brandColors.primary,
-        bold: true,
-        fontFace: 'Yu Gothic'
+    // アクセントライン
+    if (template.accentLine) {
+      const { color, ...box } = template.accentLine;
+      slide.addShape(this.pptx.ShapeType.rect, {
+        ...box,
+        fill: { color: this.resolveColor(color) },
+        line: { type: 'none' }
       });
     }
 
-    // タイトル（サニタイズ適用）
-    slide.addText(this.sanitizeText(section.title, 'title'), {
-      x: 0.8,
-      y: 2,
-      w: 11.7,
-      h: 1.5,
-      fontSize: 36,
+    if (this.currentProgress && progressSectionTypes.includes(type)) {
+      this.addProgressTracker(slide, this.currentProgress, template.darkBackground === true);
+    }
+
+    return slide;
+  }
+
+  /**
+   * 進捗表示（現在の部のラベル + 部ごとの進捗バー）
+   * 済んだ部は薄いブランドカラー、現在の部はブランドカラー、残りはグレーで表示
+   */
+  private addProgressTracker(slide: pptxgen.Slide, progress: SectionProgress, whiteText: boolean): void {
+    const { x, y, w, h, fontSize, labelWidth } = this.theme.progressTracker;
+
+    slide.addText(`${progress.part}/${progress.total}  ${this.sanitizeText(progress.title, 'title')}`, {
+      x,
+      y,
+      w: labelWidth,
+      h,
+      fontSize,
       bold: true,
-      color: '333333',
+      color: whiteText ? 'FFFFFF' : this.colors.primary,
       align: 'left',
-      fontFace: 'Yu Gothic',
-      lang: 'ja-JP',
-      lineSpacing: 40
+      valign: 'middle',
+      fontFace: this.font,
+      lang: 'ja-JP'
     });
 
-    // サブタイトル（サニタイズ適用）
-    if (section.subtitle) {
-      slide.addText(this.sanitizeText(section.subtitle, 'subhead'), {
-        x: 0.8,
-        y: 3.7,
-        w: 11.7,
-        h: 0.6,
-        fontSize: 18,
-        color: '666666',
-        align: 'left',
-        fontFace: 'Yu Gothic',
-        lang: 'ja-JP'
+    const gap = 0.06;
+    const barHeight = 0.06;
+    const barWidth = w - labelWidth;
+    const segmentWidth = (barWidth - gap * (progress.total - 1)) / progress.total;
+
+    for (let part = 1; part <= progress.total; part++) {
+      const fill = part === progress.part
+        ? { color: this.colors.primary }
+        : part < progress.part
+          ? { color: this.colors.primary, transparency: 55 }
+          : { color: this.colors.textMuted, transparency: 65 };
+
+      slide.addShape(this.pptx.ShapeType.rect, {
+        x: x + labelWidth + (segmentWidth + gap) * (part - 1),
+        y: y + (h - barHeight) / 2,
+        w: segmentWidth,
+        h: barHeight,
+        fill,
+        line: { type: 'none' }
       });
     }
+  }
+
+  /**
+   * セクションのナレーション音声を探す（NarrationGeneratorAgentの命名規則: section_NN_タイトル.mp3）
+   * 規則どおりのファイルがなければ section_NN_ で始まる音声を使うが、複数ある場合は取り違えないよう使わない
+   * （セクション名を変えた後の古い音声が残っている場合など）
+   */
+  private findSectionAudio(section: Section, index: number): SectionAudio | null {
+    const audioDir = this.narrationAudio?.audioDir;
+    if (!audioDir || !existsSync(audioDir)) return null;
+
+    const expected = sectionAudioFilename(section.title, index);
+    const prefix = `section_${String(index + 1).padStart(2, '0')}_`;
+    const candidates = readdirSync(audioDir)
+      .filter(file => file.startsWith(prefix) && /\.(mp3|wav)$/i.test(file))
+      .sort();
+    const exact = [expected, expected.replace(/\.mp3$/, '.wav')].find(file => candidates.includes(file));
+    if (!exact && candidates.length > 1) {
+      console.warn(`⚠️  Multiple audio files for section ${index + 1} and none named ${expected}, skipping: ${candidates.join(', ')}`);
+      return null;
+    }
+    const filename = exact || candidates[0];
+    if (!filename) return null;
+    if (!exact) {
+      console.warn(`⚠️  Using ${filename} for section ${index + 1} (expected ${expected})`);
+    }
+
+    const audioPath = path.join(audioDir, filename);
+    const durationSec = readAudioDuration(audioPath);
+    if (!durationSec) {
+      console.warn(`⚠️  Could not read audio duration, skipping: ${audioPath}`);
+      return null;
+    }
+
+    return { path: audioPath, durationSec };
+  }
+
+  /**
+   * 保留中のナレーション音声をスライドに埋め込み、スライドの表示時間を返す
+   * 音声のないスライドはデフォルトの表示時間で切り替える
+   */
+  private attachNarrationAudio(slide: pptxgen.Slide): SlideTiming {
+    const defaultDuration = this.narrationAudio?.defaultSlideDurationSec ?? defaultSlideDurationSec;
+    if (!this.pendingAudio) {
+      return { advanceSec: defaultDuration };
+    }
+
+    const { path: audioPath, durationSec } = this.pendingAudio;
+    this.pendingAudio = null;
+
+    // アイコンはスライドショー中は非表示（slide-timing.tsで設定）
+    slide.addMedia({
+      type: 'audio',
+      path: audioPath,
+      x: 12.73,
+      y: 0.2,
+      w: 0.4,
+      h: 0.4,
+      objectName: NARRATION_MEDIA_NAME
+    });
+
+    return {
+      advanceSec: durationSec + (this.narrationAudio?.paddingSec ?? defaultAudioPaddingSec),
+      audioDurationSec: durationSec
+    };
+  }
+
+  /**
+   * 背景を適用（単色またはグラデーション画像）
+   */
+  private applyBackground(slide: pptxgen.Slide, background: string | GradientConfig): void {
+    if (typeof background === 'string') {
+      slide.background = { color: this.resolveColor(background) };
+      return;
+    }
+
+    const gradient: GradientConfig = {
+      ...background,
+      stops: background.stops.map(stop => ({ ...stop, color: this.resolveColor(stop.color) }))
+    };
+    const cacheKey = JSON.stringify(gradient);
+
+    let data = this.gradientCache.get(cacheKey);
+    if (!data) {
+      data = `image/png;base64,${renderLinearGradientPng(gradient, 13.33 / 7.5).toString('base64')}`;
+      this.gradientCache.set(cacheKey, data);
+    }
+    slide.background = { data };
+  }
+
+  /**
+   * タイトルスライド生成（デザイン改善版 + まじん式v3準拠）
+   */
+  private generateTitleSlide(section: Section): void {
+    const slide = this.addSlide('title');
+    const template = this.template('title');
+
+    // タイトル（サニタイズ適用）
+    slide.addText(this.sanitizeText(section.title, 'title'), this.textOptions(template.titleStyle));
+
+    // サブタイトル（サニタイズ適用）
+    if (section.subtitle && template.subtitleStyle) {
+      slide.addText(this.sanitizeText(section.subtitle, 'subhead'), this.textOptions(template.subtitleStyle));
+    }
 
     // 目次（箇条書き・サニタイズ適用）
     if (section.bullets) {
       const sanitizedBullets = this.sanitizeBullets(section.bullets);
       const content = sanitizedBullets.map((b, i) => `${i + 1}.  ${b}`).join('\n');
 
-      slide.addText(content, {
-        x: 1.5,
-        y: 4.5,
-        w: 11,
-        h: 2.2,
-        fontSize: 15,
-        color: '555555',
-        align: 'left',
-        valign: 'top',
-        fontFace: 'Yu Gothic',
-        lang: 'ja-JP',
-        lineSpacing: 32
-      });
+      slide.addText(content, this.textOptions(this.contentArea('title')));
     }
 
-    // ページ番号と著作権のみ（ロゴは上部に配置済み）
-    const textColor = '666666';
-    slide.addText(`© ${this.branding.company}`, {
-      x: 0.5,
-      y: 7.1,
-      w: 3,
-      h: 0.3,
-      fontSize: 9,
-      color: textColor,
-      fontFace: 'Yu Gothic'
-    });
+    // ブランディング（ロゴはタイトルスライド用の配置）
+    this.addBranding(slide, template);
+  }
 
-    if (this.slideNumber > 0) {
-      slide.addText(`${this.slideNumber}`, {
-        x: 12.5,
-        y: 7.1,
-        w: 0.5,
-        h: 0.3,
-        fontSize: 11,
-        color: textColor,
-        align: 'right',
-        fontFace: 'Yu Gothic'
-      });
+  /**
+   * アジェンダスライド生成（後続のセクション区切りから番号付きの一覧を作る）
+   * 7部以上は2列に並べる
+   */
+  private generateAgendaSlide(section: Section, index: number): void {
+    const slide = this.addSlide('agenda');
+    const template = this.template('agenda');
+    const area = this.contentArea('agenda');
+    const items = buildAgenda(this.sections, index);
+
+    slide.addText(this.sanitizeText(section.title, 'title'), this.textOptions(template.titleStyle));
+
+    if (items.length === 0) {
+      console.warn(`⚠️  Agenda has no section dividers after it: ${section.title}`);
     }
+
+    const columns = items.length > 6 ? 2 : 1;
+    const columnGap = 0.4;
+    const rowsPerColumn = Math.max(Math.ceil(items.length / columns), 1);
+    const columnWidth = (area.w - columnGap * (columns - 1)) / columns;
+    const rowHeight = Math.min(area.h / rowsPerColumn, 0.9);
+    const badgeSize = Math.min(rowHeight * 0.7, 0.5);
+    const fontSize = Math.min(area.fontSize, Math.floor(rowHeight * 72 * 0.4));
+    const textColor = this.resolveColor(area.color);
+
+    items.forEach((item, i) => {
+      const x = area.x + Math.floor(i / rowsPerColumn) * (columnWidth + columnGap);
+      const y = area.y + (i % rowsPerColumn) * rowHeight;
+
+      // 番号バッジ
+      slide.addText(`${item.number}`, {
+        shape: this.pptx.ShapeType.ellipse,
+        x,
+        y: y + (rowHeight - badgeSize) / 2,
+        w: badgeSize,
+        h: badgeSize,
+        fill: { color: this.colors.primary },
+        fontSize: Math.round(fontSize * 0.8),
+        bold: true,
+        color: 'FFFFFF',
+        align: 'center',
+        valign: 'middle',
+        fontFace: this.font
+      });
+
+      // 部のタイトル（サブタイトルは補足として小さく表示）
+      const runs: Array<{ text: string; options: Record<string, unknown> }> = [
+        { text: this.sanitizeText(item.title, 'title'), options: { bold: true, color: textColor } }
+      ];
+      if (item.subtitle) {
+        runs.push({
+          text: `  ${this.sanitizeText(item.subtitle, 'subhead')}`,
+          options: { fontSize: Math.round(fontSize * 0.75), color: this.colors.textLight }
+        });
+      }
+      slide.addText(runs, {
+        x: x + badgeSize + 0.2,
+        y,
+        w: columnWidth - badgeSize - 0.2,
+        h: rowHeight,
+        fontSize,
+        align: 'left',
+        valign: 'middle',
+        fontFace: area.font || this.font,
+        lang: 'ja-JP'
+      });
+    });
+
+    // ブランディング
+    this.addBranding(slide, template);
   }
 
   /**
    * セクション分割スライド生成（グラデーション背景 + イラスト）
    */
   private generateSectionDividerSlide(section: Section): void {
-    const slide = this.pptx.addSlide();
+    const slide = this.addSlide('sectionDivider');
+    const template = this.template('sectionDivider');
+    const titleStyle = template.titleStyle;
 
-    // グラデーション背景
-    slide.background = { color: brandColors.primary };
-
-    // 装飾フレーム（左上）
+    // 装飾フレーム（タイトルの左上）
     slide.addShape(this.pptx.ShapeType.rect, {
-      x: 0.5,
-      y: 1.5,
+      x: (titleStyle.x ?? 1) - 0.5,
+      y: (titleStyle.y ?? 2) - 0.5,
       w: 3,
       h: 3,
       fill: { type: 'solid', color: 'FFFFFF', transparency: 90 },
-      line: { color: 'FFFFFF', width: 2 }
+      line: { color: this.resolveColor(titleStyle.color), width: 2 }
     });
 
     // タイトル
-    slide.addText(section.title, {
-      x: 1,
-      y: 2,
-      w: 6,
-      h: 2,
-      fontSize: 48,
-      bold: true,
-      color: 'FFFFFF',
-      valign: 'middle'
-    });
+    slide.addText(section.title, this.textOptions(titleStyle));
+
+    // イラスト（セクションの keywords・タイトルでカタログから選び、ブランドカラーで着色）
+    const illustration = template.illustration;
+    if (illustration) {
+      const x = illustration.position === 'left'
+        ? 1
+        : illustration.position === 'center'
+          ? (13.33 - illustration.width) / 2
+          : 11 - illustration.width;
+
+      const image = resolveIllustration(
+        this.illustrations,
+        { title: section.title, keywords: section.keywords || [], themeKeywords: illustration.keywords },
+        this.colors.primary,
+        this.usedIllustrations
+      );
+      if (image.id) this.usedIllustrations.add(image.id);
+
+      // 濃い背景では白いパネルに載せる（ブランドカラーのイラストが背景に埋もれないように）
+      const area = { x, y: 4 - illustration.height / 2, w: illustration.width, h: illustration.height };
+      const inset = template.darkBackground ? illustrationPanelInset : 0;
+      if (template.darkBackground) {
+        slide.addShape(this.pptx.ShapeType.roundRect, {
+          ...area,
+          rectRadius: 0.2,
+          fill: { color: 'FFFFFF', transparency: 5 },
+          line: { type: 'none' }
+        });
+      }
 
-    // イラストプレースホルダー（右側）
-    // 注: 実際のイラストAPIは今後の実装で追加
-    slide.addText('🎨\nIllustration', {
-      x: 7,
-      y: 2.5,
-      w: 4,
-      h: 3,
-      fontSize: 24,
-      color: 'FFFFFF',
-      align: 'center',
-      valign: 'middle'
-    });
+      const box = fitImageInBox(image.size, { x: area.x + inset, y: area.y + inset, w: area.w - inset * 2, h: area.h - inset * 2 });
+      slide.addImage({ data: image.data, ...box, altText: section.title });
+    }
 
     // ブランディング
-    this.addBranding(slide, true); // 白文字版
+    this.addBranding(slide, template);
   }
 
   /**
    * コンテンツスライド生成（箇条書き）- デザイン改善版 + まじん式v3準拠
+   * 収まらない場合はフォント縮小、それでも収まらない場合は継続スライドに分割
    */
   private generateContentSlide(section: Section): void {
-    const slide = this.pptx.addSlide();
+    const title = this.sanitizeText(section.title, 'title');
+    const narration = this.narrationOnSlide && section.narration ? this.sanitizeText(stripSpeechMarkup(section.narration)) : '';
+    const bullets = section.bullets ? this.sanitizeBullets(section.bullets) : [];
+    const layout = this.contentLayout();
 
-    // 背景
-    slide.background = { color: 'FFFFFF' };
+    const { fontSize, pages } = this.planContentPages(narration, bullets, layout);
 
-    // 上部アクセントライン
-    slide.addShape(this.pptx.ShapeType.rect, {
-      x: 0,
-      y: 0.7,
-      w: 13.33,
-      h: 0.02,
-      fill: { color: brandColors.primary }
-    });
+    if (pages.length > 1) {
+      console.log(`  ✂️  Content overflows, split into ${pages.length} slides: ${title}`);
+    } else if (fontSize < layout.fontSize) {
+      console.log(`  🔡 Content shrunk to ${fontSize}pt to fit: ${title}`);
+    }
 
-    // タイトル（サニタイズ適用）
-    slide.addText(this.sanitizeText(section.title, 'title'), {
-      x: 0.5,
-      y: 0.85,
-      w: 10.5,
-      h: 0.7,
-      fontSize: 22,
-      bold: true,
-      color: '333333',
-      align: 'left',
-      fontFace: 'Yu Gothic',
-      lang: 'ja-JP'
+    pages.forEach((page, index) => {
+      const pageTitle = pages.length > 1 ? `${title} (${index + 1}/${pages.length})` : title;
+      this.renderContentPage(section, pageTitle, page, fontSize, layout);
     });
+  }
+
+  /**
+   * コンテンツスライドのレイアウト寸法（テーマの本文領域から算出）
+   */
+  private contentLayout(): ContentLayout {
+    const area = this.contentArea('content');
+    return {
+      x: area.x,
+      top: area.y,
+      bottom: area.y + area.h,
+      narrationWidth: area.w,
+      bulletWidth: area.w - contentSpacing.bulletOffset * 2,
+      fontSize: area.fontSize
+    };
+  }
+
+  /**
+   * コンテンツのページ分割を計画
+   * 1. 既定サイズから最小フォントサイズまで縮小して1枚に収まるか確認
+   * 2. 収まらない場合は既定サイズのまま、ナレーション（文単位）と箇条書きを複数ページに分配
+   */
+  private planContentPages(
+    narration: string,
+    bullets: string[],
+    layout: ContentLayout
+  ): { fontSize: number; pages: ContentPage[] } {
+    const available = layout.bottom - layout.top;
+    const minFontSize = Math.min(designRules.overflow.minFontSize, layout.fontSize);
+
+    for (let fontSize = layout.fontSize; fontSize >= minFontSize; fontSize--) {
+      const narrationHeight = narration
+        ? this.narrationHeight(narration, fontSize, layout) + contentSpacing.gap
+        : 0;
+      if (narrationHeight + this.bulletsHeight(bullets, fontSize, layout) <= available) {
+        return { fontSize, pages: [{ narration, bullets }] };
+      }
+    }
+
+    const fontSize = layout.fontSize;
+    const pages: ContentPage[] = [];
+    let current: ContentPage = { narration: '', bullets: [] };
+    let used = 0;
+
+    if (narration) {
+      const groups = splitTextToFit(
+        narration,
+        fontSize,
+        layout.narrationWidth,
+        fontSize * 2,
+        available
+      );
+      groups.slice(0, -1).forEach(group => pages.push({ narration: group, bullets: [] }));
+      current.narration = groups[groups.length - 1];
+      used = this.narrationHeight(current.narration, fontSize, layout) + contentSpacing.gap;
+    }
+
+    for (const bullet of bullets) {
+      const height = this.bulletsHeight([...current.bullets, bullet], fontSize, layout) -
+        this.bulletsHeight(current.bullets, fontSize, layout);
+      const hasContent = current.bullets.length > 0 || current.narration;
+
+      if (hasContent && used + height > available) {
+        pages.push(current);
+        current = { narration: '', bullets: [bullet] };
+        used = this.bulletsHeight(current.bullets, fontSize, layout);
+      } else {
+        current.bullets.push(bullet);
+        used += height;
+      }
+    }
+
+    pages.push(current);
+    return { fontSize, pages };
+  }
+
+  /**
+   * ナレーション領域の高さ（インチ）
+   */
+  private narrationHeight(narration: string, fontSize: number, layout: ContentLayout): number {
+    return estimateTextHeight(narration, fontSize, layout.narrationWidth, fontSize * 2);
+  }
+
+  /**
+   * 箇条書き領域の高さ（インチ）
+   * 各項目の間には空行が入る
+   */
+  private bulletsHeight(bullets: string[], fontSize: number, layout: ContentLayout): number {
+    if (bullets.length === 0) return 0;
+    const lineSpacing = this.bulletLineSpacing(fontSize);
+    const textWidth = layout.bulletWidth - contentSpacing.bulletIndent;
+    const linesHeight = bullets.reduce(
+      (total, bullet) => total + estimateTextHeight(bullet, fontSize, textWidth, lineSpacing),
+      0
+    );
+    return linesHeight + ((bullets.length - 1) * lineSpacing) / 72;
+  }
+
+  /**
+   * 箇条書きの行間（ポイント）- 既定14ptで26pt
+   */
+  private bulletLineSpacing(fontSize: number): number {
+    return Math.round((fontSize * 26) / 14);
+  }
+
+  /**
+   * コンテンツスライド1枚を描画
+   */
+  private renderContentPage(
+    section: Section,
+    title: string,
+    page: ContentPage,
+    fontSize: number,
+    layout: ContentLayout
+  ): void {
+    const slide = this.addSlide('content');
+    const template = this.template('content');
+    const area = this.contentArea('content');
+
+    // タイトル（サニタイズ済み）
+    slide.addText(title, this.textOptions(template.titleStyle));
 
     // サブタイトル（目安時間など・サニタイズ適用）
-    if (section.subtitle) {
-      slide.addText(this.sanitizeText(section.subtitle, 'subhead'), {
-        x: 11.2,
-        y: 0.88,
-        w: 1.8,
-        h: 0.4,
-        fontSize: 11,
-        color: '999999',
-        align: 'right',
-        fontFace: 'Yu Gothic',
-        lang: 'ja-JP'
-      });
+    if (section.subtitle && template.subtitleStyle) {
+      slide.addText(this.sanitizeText(section.subtitle, 'subhead'), this.textOptions(template.subtitleStyle));
     }
 
-    // ナレーション（サニタイズ適用）
-    let contentY = 1.8;
-    if (section.narration) {
-      slide.addText(this.sanitizeText(section.narration), {
-        x: 0.8,
+    // ナレーション（サニタイズ済み）
+    let contentY = layout.top;
+    if (page.narration) {
+      const narrationHeight = this.narrationHeight(page.narration, fontSize, layout);
+      slide.addText(page.narration, {
+        x: layout.x,
         y: contentY,
-        w: 11.7,
-        h: 1,
-        fontSize: 14,
-        color: '555555',
-        align: 'left',
+        w: layout.narrationWidth,
+        h: narrationHeight,
+        fontSize,
+        color: this.colors.textLight,
+        align: area.align || 'left',
         valign: 'top',
-        fontFace: 'Yu Gothic',
+        fontFace: area.font || this.font,
         lang: 'ja-JP',
-        lineSpacing: 28,
+        lineSpacing: fontSize * 2,
         breakLine: true,
         wrap: true
       });
-      contentY += 1.3;
+      contentY += narrationHeight + contentSpacing.gap;
     }
 
-    // 箇条書き（サニタイズ適用）
-    if (section.bullets && section.bullets.length > 0) {
-      const sanitizedBullets = this.sanitizeBullets(section.bullets);
-      const bulletText = sanitizedBullets.join('\n\n');
-      const availableHeight = 6.5 - contentY;
+    // 箇条書き（サニタイズ済み）
+    if (page.bullets.length > 0) {
+      const bulletText = page.bullets.join('\n\n');
+      const availableHeight = layout.bottom - contentY;
 
       slide.addText(bulletText, {
-        x: 0.9,
+        x: layout.x + contentSpacing.bulletOffset,
         y: contentY,
-        w: 11.5,
+        w: layout.bulletWidth,
         h: availableHeight,
-        fontSize: 14,
-        color: '333333',
-        align: 'left',
+        fontSize,
+        color: this.resolveColor(area.color),
+        align: area.align || 'left',
         valign: 'top',
-        fontFace: 'Yu Gothic',
+        fontFace: area.font || this.font,
         lang: 'ja-JP',
-        lineSpacing: 26,
-        bullet: sanitizedBullets.some(b => b.trim().length > 0),
+        lineSpacing: this.bulletLineSpacing(fontSize),
+        bullet: page.bullets.some(b => b.trim().length > 0),
         breakLine: true,
         wrap: true
       });
     }
 
     // ブランディング
-    this.addBranding(slide);
+    this.addBranding(slide, template);
   }
 
   /**
-   * テーブルスライド生成
+   * 比較・2カラムスライド生成
+   * 各列は 見出し（アイコン）→ 画像 → 箇条書き の順に並べ、列をまたいで開始位置と文字サイズを揃える
+   * 比較スライドは見出しに列の色の背景を付け、列の間に VS を表示する
    */
-  private generateTableSlide(section: Section): void {
-    const slide = this.pptx.addSlide();
-    const template = slideTemplates.table;
-
-    // 背景
-    slide.background = { color: template.background as string };
+  private generateColumnsSlide(section: Section): void {
+    const type = section.type;
+    const slide = this.addSlide(type);
+    const template = this.template(type);
+    const area = this.contentArea(type);
+    const comparison = type === 'comparison';
+
+    slide.addText(this.sanitizeText(section.title, 'title'), this.textOptions(template.titleStyle));
+    if (section.subtitle && template.subtitleStyle) {
+      slide.addText(this.sanitizeText(section.subtitle, 'subhead'), this.textOptions(template.subtitleStyle));
+    }
 
-    // タイトル
-    slide.addText(section.title, {
-      x: 0.5,
-      y: 0.4,
-      w: 12,
-      h: 0.7,
-      fontSize: 24,
-      bold: true,
-      color: '333333',
+    const columns = (section.columns || []).slice(0, comparison ? 3 : 2);
+    const defaultColors = [this.colors.primary, this.colors.textLight, this.colors.accent];
+    const textColor = this.resolveColor(area.color);
+    const fontFace = area.font || this.font;
+    let top = area.y;
+
+    // ナレーション（列の上にリード文として表示）
+    if (this.narrationOnSlide && section.narration) {
+      const narration = this.sanitizeText(stripSpeechMarkup(section.narration));
+      const height = estimateTextHeight(narration, area.fontSize, area.w, area.fontSize * 1.8);
+      slide.addText(narration, {
+        x: area.x,
+        y: top,
+        w: area.w,
+        h: height,
+        fontSize: area.fontSize,
+        color: this.colors.textLight,
+        align: 'left',
+        valign: 'top',
+        lineSpacing: area.fontSize * 1.8,
+        fontFace,
+        lang: 'ja-JP'
+      });
+      top += height + columnSpacing.sectionGap;
+    }
+
+    if (columns.length === 0) {
+      this.addBranding(slide, template);
+      return;
+    }
+
+    const gap = comparison ? columnSpacing.comparisonGap : columnSpacing.gap;
+    const columnWidth = (area.w - gap * (columns.length - 1)) / columns.length;
+    const bottom = area.y + area.h;
+
+    // 画像は1列でもあれば全列で同じ高さを確保（箇条書きの開始位置を揃える）
+    const imageHeight = columns.some(column => column.image)
+      ? Math.min(columnSpacing.imageMaxHeight, (bottom - top) * 0.4)
+      : 0;
+    const bulletsTop = top + columnSpacing.headingHeight + columnSpacing.sectionGap +
+      (imageHeight > 0 ? imageHeight + columnSpacing.sectionGap : 0);
+
+    // すべての列が収まる文字サイズ（列ごとに変えない）
+    const bulletLists = columns.map(column => this.sanitizeBullets(column.bullets || []));
+    const layout = { ...this.contentLayout(), bulletWidth: columnWidth - contentSpacing.bulletOffset * 2 };
+    const minFontSize = Math.min(designRules.overflow.minFontSize, area.fontSize);
+    let fontSize = area.fontSize;
+    while (
+      fontSize > minFontSize &&
+      bulletLists.some(bullets => this.bulletsHeight(bullets, fontSize, layout) > bottom - bulletsTop)
+    ) {
+      fontSize--;
+    }
+    if (fontSize < area.fontSize) {
+      console.log(`  🔡 Columns shrunk to ${fontSize}pt to fit: ${section.title}`);
+    }
+
+    columns.forEach((column, i) => {
+      const x = area.x + i * (columnWidth + gap);
+      const color = normalizeColor(column.color) || defaultColors[i % defaultColors.length];
+
+      // 見出し（比較は列の色の薄い背景、2カラムは下線）
+      if (comparison) {
+        slide.addShape(this.pptx.ShapeType.rect, {
+          x,
+          y: top,
+          w: columnWidth,
+          h: columnSpacing.headingHeight,
+          fill: { color, transparency: 85 },
+          line: { type: 'none' }
+        });
+      } else {
+        slide.addShape(this.pptx.ShapeType.rect, {
+          x,
+          y: top + columnSpacing.headingHeight - 0.03,
+          w: columnWidth,
+          h: 0.03,
+          fill: { color },
+          line: { type: 'none' }
+        });
+      }
+      slide.addShape(this.pptx.ShapeType.ellipse, {
+        x: x + 0.15,
+        y: top + (columnSpacing.headingHeight - columnSpacing.iconSize) / 2,
+        w: columnSpacing.iconSize,
+        h: columnSpacing.iconSize,
+        fill: { color },
+        line: { type: 'none' }
+      });
+      slide.addText(this.sanitizeText(column.heading, 'subhead'), {
+        x: x + 0.5,
+        y: top,
+        w: columnWidth - 0.6,
+        h: columnSpacing.headingHeight,
+        fontSize: area.fontSize + 4,
+        bold: true,
+        color: textColor,
+        align: 'left',
+        valign: 'middle',
+        fontFace,
+        lang: 'ja-JP'
+      });
+
+      // 画像（列の幅と確保した高さに収める）
+      if (column.image) {
+        const imageSize = readImageSize(column.image);
+        if (imageSize) {
+          const box = fitImageInBox(imageSize, {
+            x,
+            y: top + columnSpacing.headingHeight + columnSpacing.sectionGap,
+            w: columnWidth,
+            h: imageHeight
+          });
+          slide.addImage({ path: column.image, ...box, altText: column.heading });
+        } else {
+          console.warn(`⚠️  Column image not found or unsupported: ${column.image}`);
+        }
+      }
+
+      // 箇条書き
+      const bullets = bulletLists[i];
+      if (bullets.length > 0) {
+        slide.addText(bullets.join('\n\n'), {
+          x: x + contentSpacing.bulletOffset,
+          y: bulletsTop,
+          w: layout.bulletWidth,
+          h: bottom - bulletsTop,
+          fontSize,
+          color: textColor,
+          align: 'left',
+          valign: 'top',
+          fontFace,
+          lang: 'ja-JP',
+          lineSpacing: this.bulletLineSpacing(fontSize),
+          bullet: true,
+          breakLine: true,
+          wrap: true
+        });
+      }
+    });
+
+    // 比較: 列の間の VS
+    if (comparison) {
+      const badgeSize = 0.6;
+      for (let i = 1; i < columns.length; i++) {
+        slide.addText('VS', {
+          shape: this.pptx.ShapeType.ellipse,
+          x: area.x + i * (columnWidth + gap) - gap / 2 - badgeSize / 2,
+          y: top + (columnSpacing.headingHeight - badgeSize) / 2,
+          w: badgeSize,
+          h: badgeSize,
+          fill: { color: this.colors.accent },
+          fontSize: 14,
+          bold: true,
+          color: 'FFFFFF',
+          align: 'center',
+          valign: 'middle',
+          fontFace: this.font
+        });
+      }
+    }
+
+    // ブランディング
+    this.addBranding(slide, template);
+  }
+
+  /**
+   * クイズスライド生成（問題文 + A, B, C... の選択肢）
+   * ナレーションはスライド本文に表示せず、スピーカーノートにのみ書き込む
+   * 講師用ビルドでは続けて解答スライド（正解の強調 + 解説）を追加する
+   */
+  private generateQuizSlide(section: Section): void {
+    const quiz = section.quiz;
+    if (!quiz) return;
+
+    this.renderQuizPage(section, quiz, false);
+    if (this.instructor) {
+      this.pendingNotes = buildAnswerKeyNotes(section);
+      this.renderQuizPage(section, quiz, true);
+    }
+  }
+
+  /**
+   * クイズスライド1枚を描画（reveal: 解答スライド）
+   */
+  private renderQuizPage(section: Section, quiz: QuizData, reveal: boolean): void {
+    const slide = this.addSlide('quiz', reveal);
+    const template = this.template('quiz');
+    const area = this.contentArea('quiz');
+    const textColor = this.resolveColor(area.color);
+    const fontFace = area.font || this.font;
+    const answers = quizAnswers(quiz);
+
+    const title = this.sanitizeText(section.title, 'title');
+    slide.addText(reveal ? `${title}（解答）` : title, this.textOptions(template.titleStyle));
+    if (section.subtitle && template.subtitleStyle) {
+      slide.addText(this.sanitizeText(section.subtitle, 'subhead'), this.textOptions(template.subtitleStyle));
+    }
+
+    // 問題文（複数選択は指示を添える）
+    const questionSize = area.fontSize + 4;
+    const question = this.sanitizeText(quiz.question, 'body');
+    const questionHeight = estimateTextHeight(question, questionSize, area.w, questionSize * 1.5);
+    slide.addText(question, {
+      x: area.x,
+      y: area.y,
+      w: area.w,
+      h: questionHeight,
+      fontSize: questionSize,
+      bold: true,
+      color: textColor,
       align: 'left',
-      fontFace: 'Yu Gothic',
+      valign: 'top',
+      lineSpacing: questionSize * 1.5,
+      fontFace,
       lang: 'ja-JP'
     });
+    let top = area.y + questionHeight;
+    if (isMultipleChoice(quiz)) {
+      slide.addText('当てはまるものをすべて選んでください', {
+        x: area.x,
+        y: top,
+        w: area.w,
+        h: 0.35,
+        fontSize: area.fontSize - 2,
+        color: this.colors.textLight,
+        align: 'left',
+        valign: 'middle',
+        fontFace,
+        lang: 'ja-JP'
+      });
+      top += 0.35;
+    }
+    top += quizSpacing.sectionGap;
+
+    // 解説（解答スライドのみ、本文領域の下端に表示）
+    let bottom = area.y + area.h;
+    const explanation = reveal && quiz.explanation ? this.sanitizeText(quiz.explanation, 'body') : '';
+    if (explanation) {
+      const textWidth = area.w - quizSpacing.labelWidth - 0.2;
+      const height = Math.min(
+        estimateTextHeight(explanation, area.fontSize, textWidth, area.fontSize * 1.6) + 0.3,
+        (bottom - top) / 2
+      );
+      bottom -= height;
+      slide.addShape(this.pptx.ShapeType.rect, {
+        x: area.x,
+        y: bottom,
+        w: area.w,
+        h: height,
+        fill: { color: this.colors.primary, transparency: 88 },
+        line: { type: 'none' }
+      });
+      slide.addText('解説', {
+        x: area.x + 0.2,
+        y: bottom + 0.15,
+        w: quizSpacing.labelWidth - 0.2,
+        h: 0.35,
+        fontSize: area.fontSize,
+        bold: true,
+        color: this.colors.primary,
+        align: 'left',
+        valign: 'middle',
+        fontFace,
+        lang: 'ja-JP'
+      });
+      slide.addText(explanation, {
+        x: area.x + quizSpacing.labelWidth,
+        y: bottom + 0.15,
+        w: textWidth,
+        h: height - 0.3,
+        fontSize: area.fontSize,
+        color: textColor,
+        align: 'left',
+        valign: 'top',
+        lineSpacing: area.fontSize * 1.6,
+        fontFace,
+        lang: 'ja-JP'
+      });
+      bottom -= quizSpacing.sectionGap;
+    }
+
+    // 選択肢（解答スライドは正解をブランドカラーで強調し、それ以外は薄く表示）
+    const choices = quiz.choices.map(choice => this.sanitizeText(choice, 'bullet'));
+    const rowHeight = Math.min(
+      quizSpacing.maxChoiceHeight,
+      (bottom - top - quizSpacing.itemGap * (choices.length - 1)) / Math.max(choices.length, 1)
+    );
+    const badgeSize = Math.min(quizSpacing.badgeSize, rowHeight * 0.7);
+    const fontSize = Math.min(area.fontSize, Math.floor(rowHeight * 72 * 0.45));
+    const markWidth = 1;
+
+    choices.forEach((choice, i) => {
+      const y = top + i * (rowHeight + quizSpacing.itemGap);
+      const correct = reveal && answers.includes(i + 1);
+      const muted = reveal && !correct;
+
+      slide.addShape(this.pptx.ShapeType.rect, {
+        x: area.x,
+        y,
+        w: area.w,
+        h: rowHeight,
+        fill: correct ? { color: this.colors.primary, transparency: 80 } : { color: this.colors.textMuted, transparency: 88 },
+        line: correct ? { color: this.colors.primary, width: 2 } : { type: 'none' }
+      });
+      slide.addText(choiceLabel(i), {
+        shape: this.pptx.ShapeType.ellipse,
+        x: area.x + 0.15,
+        y: y + (rowHeight - badgeSize) / 2,
+        w: badgeSize,
+        h: badgeSize,
+        fill: { color: muted ? this.colors.textMuted : this.colors.primary },
+        fontSize: Math.round(fontSize * 0.9),
+        bold: true,
+        color: 'FFFFFF',
+        align: 'center',
+        valign: 'middle',
+        fontFace: this.font
+      });
+      slide.addText(choice, {
+        x: area.x + badgeSize + 0.35,
+        y,
+        w: area.w - badgeSize - 0.5 - (correct ? markWidth + 0.2 : 0),
+        h: rowHeight,
+        fontSize,
+        bold: correct,
+        color: muted ? this.colors.textMuted : textColor,
+        align: 'left',
+        valign: 'middle',
+        fontFace,
+        lang: 'ja-JP'
+      });
+      if (correct) {
+        slide.addText('正解', {
+          shape: this.pptx.ShapeType.rect,
+          x: area.x + area.w - markWidth - 0.15,
+          y: y + (rowHeight - badgeSize) / 2,
+          w: markWidth,
+          h: badgeSize,
+          fill: { color: this.colors.primary },
+          fontSize: Math.round(fontSize * 0.9),
+          bold: true,
+          color: 'FFFFFF',
+          align: 'center',
+          valign: 'middle',
+          fontFace: this.font
+        });
+      }
+    });
+
+    // ブランディング
+    this.addBranding(slide, template);
+  }
+
+  /**
+   * 演習スライド生成（ゴール + 制限時間 + 番号付きの手順）
+   * 手順が収まらない場合は文字を縮小する
+   * 講師用ビルドでは期待される成果物（expectedOutput）の解答例スライドを追加する
+   */
+  private generateExerciseSlide(section: Section): void {
+    const exercise = section.exercise;
+    if (!exercise) return;
+
+    const slide = this.addSlide('exercise');
+    const template = this.template('exercise');
+    const area = this.contentArea('exercise');
+    const textColor = this.resolveColor(area.color);
+    const fontFace = area.font || this.font;
+
+    slide.addText(this.sanitizeText(section.title, 'title'), this.textOptions(template.titleStyle));
+    if (section.subtitle && template.subtitleStyle) {
+      slide.addText(this.sanitizeText(section.subtitle, 'subhead'), this.textOptions(template.subtitleStyle));
+    }
+
+    // ゴール（左端にブランドカラーの帯、制限時間は右側のバッジ）
+    const timerWidth = exercise.timerMinutes ? quizSpacing.timerWidth + 0.2 : 0;
+    const goalSize = area.fontSize + 2;
+    const goal = this.sanitizeText(exercise.goal, 'body');
+    const goalWidth = area.w - timerWidth - quizSpacing.labelWidth - 0.2;
+    const goalHeight = Math.max(
+      estimateTextHeight(goal, goalSize, goalWidth, goalSize * 1.5) + 0.3,
+      exercise.timerMinutes ? 1 : 0.7
+    );
+
+    slide.addShape(this.pptx.ShapeType.rect, {
+      x: area.x,
+      y: area.y,
+      w: area.w - timerWidth,
+      h: goalHeight,
+      fill: { color: this.colors.primary, transparency: 88 },
+      line: { type: 'none' }
+    });
+    slide.addShape(this.pptx.ShapeType.rect, {
+      x: area.x,
+      y: area.y,
+      w: 0.08,
+      h: goalHeight,
+      fill: { color: this.colors.primary },
+      line: { type: 'none' }
+    });
+    slide.addText('ゴール', {
+      x: area.x + 0.25,
+      y: area.y,
+      w: quizSpacing.labelWidth - 0.25,
+      h: goalHeight,
+      fontSize: area.fontSize,
+      bold: true,
+      color: this.colors.primary,
+      align: 'left',
+      valign: 'middle',
+      fontFace,
+      lang: 'ja-JP'
+    });
+    slide.addText(goal, {
+      x: area.x + quizSpacing.labelWidth,
+      y: area.y,
+      w: goalWidth,
+      h: goalHeight,
+      fontSize: goalSize,
+      bold: true,
+      color: textColor,
+      align: 'left',
+      valign: 'middle',
+      lineSpacing: goalSize * 1.5,
+      fontFace,
+      lang: 'ja-JP'
+    });
+
+    if (exercise.timerMinutes) {
+      slide.addText([
+        { text: '制限時間', options: { fontSize: area.fontSize - 2, breakLine: true } },
+        { text: `${exercise.timerMinutes}分`, options: { fontSize: area.fontSize + 10, bold: true } }
+      ], {
+        shape: this.pptx.ShapeType.rect,
+        x: area.x + area.w - quizSpacing.timerWidth,
+        y: area.y,
+        w: quizSpacing.timerWidth,
+        h: goalHeight,
+        fill: { color: this.colors.accent },
+        color: 'FFFFFF',
+        align: 'center',
+        valign: 'middle',
+        fontFace: this.font,
+        lang: 'ja-JP'
+      });
+    }
+
+    // 手順（番号バッジ + テキスト）
+    const steps = this.sanitizeBullets(exercise.steps);
+    const top = area.y + goalHeight + quizSpacing.sectionGap;
+    const available = area.y + area.h - top;
+    const stepWidth = area.w - quizSpacing.badgeSize - 0.25;
+    const stepHeights = (size: number) => steps.map(step => (
+      Math.max(estimateTextHeight(step, size, stepWidth, size * 1.5), quizSpacing.badgeSize)
+    ));
+    const totalHeight = (size: number) => (
+      stepHeights(size).reduce((sum, height) => sum + height, 0) + quizSpacing.itemGap * (steps.length - 1)
+    );
+
+    const minFontSize = Math.min(designRules.overflow.minFontSize, area.fontSize);
+    let fontSize = area.fontSize;
+    while (fontSize > minFontSize && totalHeight(fontSize) > available) {
+      fontSize--;
+    }
+    if (fontSize < area.fontSize) {
+      console.log(`  🔡 Exercise steps shrunk to ${fontSize}pt to fit: ${section.title}`);
+    }
+
+    let y = top;
+    stepHeights(fontSize).forEach((height, i) => {
+      slide.addText(`${i + 1}`, {
+        shape: this.pptx.ShapeType.ellipse,
+        x: area.x,
+        y: y + (Math.min(height, quizSpacing.badgeSize * 1.5) - quizSpacing.badgeSize) / 2,
+        w: quizSpacing.badgeSize,
+        h: quizSpacing.badgeSize,
+        fill: { color: this.colors.primary },
+        fontSize: Math.round(fontSize * 0.9),
+        bold: true,
+        color: 'FFFFFF',
+        align: 'center',
+        valign: 'middle',
+        fontFace: this.font
+      });
+      slide.addText(steps[i], {
+        x: area.x + quizSpacing.badgeSize + 0.25,
+        y,
+        w: stepWidth,
+        h: height,
+        fontSize,
+        color: textColor,
+        align: 'left',
+        valign: height > quizSpacing.badgeSize ? 'top' : 'middle',
+        lineSpacing: fontSize * 1.5,
+        fontFace,
+        lang: 'ja-JP'
+      });
+      y += height + quizSpacing.itemGap;
+    });
+
+    // ブランディング
+    this.addBranding(slide, template);
+
+    if (this.instructor && exercise.expectedOutput) {
+      this.pendingNotes = buildAnswerKeyNotes(section);
+      this.renderExerciseAnswerPage(section, exercise);
+    }
+  }
+
+  /**
+   * 演習の解答例スライド（講師用ビルドのみ、期待される成果物を改行を保って表示）
+   */
+  private renderExerciseAnswerPage(section: Section, exercise: ExerciseData): void {
+    const slide = this.addSlide('exercise', true);
+    const template = this.template('exercise');
+    const area = this.contentArea('exercise');
+    const fontFace = area.font || this.font;
+    const output = (exercise.expectedOutput || '').trim();
+
+    slide.addText(`${this.sanitizeText(section.title, 'title')}（解答例）`, this.textOptions(template.titleStyle));
+
+    slide.addText('期待される成果物', {
+      x: area.x,
+      y: area.y,
+      w: area.w,
+      h: 0.4,
+      fontSize: area.fontSize,
+      bold: true,
+      color: this.colors.primary,
+      align: 'left',
+      valign: 'middle',
+      fontFace,
+      lang: 'ja-JP'
+    });
+
+    const boxY = area.y + 0.5;
+    const boxH = area.h - 0.5;
+    const textWidth = area.w - 0.6;
+    const minFontSize = Math.min(designRules.overflow.minFontSize, area.fontSize);
+    let fontSize = area.fontSize;
+    while (fontSize > minFontSize && estimateTextHeight(output, fontSize, textWidth, fontSize * 1.5) > boxH - 0.4) {
+      fontSize--;
+    }
+
+    slide.addShape(this.pptx.ShapeType.rect, {
+      x: area.x,
+      y: boxY,
+      w: area.w,
+      h: boxH,
+      fill: { color: this.colors.backgroundLight },
+      line: { color: this.colors.primary, width: 1 }
+    });
+    slide.addText(output, {
+      x: area.x + 0.3,
+      y: boxY + 0.2,
+      w: textWidth,
+      h: boxH - 0.4,
+      fontSize,
+      color: this.resolveColor(area.color),
+      align: 'left',
+      valign: 'top',
+      lineSpacing: fontSize * 1.5,
+      fontFace,
+      lang: 'ja-JP'
+    });
+
+    // ブランディング
+    this.addBranding(slide, template);
+  }
+
+  /**
+   * テーブルスライド生成
+   * 列幅は内容量から自動計算し、収まらない行はヘッダー付きの継続スライドに分割
+   */
+  private generateTableSlide(section: Section): void {
+    const template = this.template('table');
+    const area = this.contentArea('table');
+    const title = this.sanitizeText(section.title, 'title');
+
+    if (!section.table) {
+      const slide = this.addSlide('table');
+      slide.addText(title, this.textOptions(template.titleStyle));
+      this.addBranding(slide, template);
+      return;
+    }
 
-    // テーブル
-    if (section.table) {
-      const tableData = section.table;
+    const tableData = section.table;
+    const layout = layoutTable(tableData, { width: area.w, height: area.h });
+    const headerColor = normalizeColor(tableData.headerColor) || this.colors.primary;
+    const zebra = tableData.zebra !== false;
 
-      // ヘッダー行
-      const headerRow = tableData.headers.map(h => ({
+    if (layout.pages.length > 1) {
+      console.log(`  ✂️  Table overflows, split into ${layout.pages.length} slides: ${title}`);
+    }
+
+    layout.pages.forEach((rowIndices, pageIndex) => {
+      const slide = this.addSlide('table');
+
+      // タイトル
+      const pageTitle = layout.pages.length > 1
+        ? `${title} (${pageIndex + 1}/${layout.pages.length})`
+        : title;
+      slide.addText(pageTitle, this.textOptions(template.titleStyle));
+
+      // ヘッダー行（継続スライドでも繰り返す）
+      const headerRow: pptxgen.TableRow = tableData.headers.map((h, colIndex) => ({
         text: h,
         options: {
           bold: true,
           color: 'FFFFFF',
-          fill: { color: brandColors.primary },
-          align: 'center',
+          fill: { color: headerColor },
+          align: layout.aligns[colIndex] === 'right' ? 'right' : 'center',
           valign: 'middle',
-          fontFace: 'Yu Gothic',
-          fontSize: 13
+          fontFace: this.font,
+          fontSize: layout.fontSize + 1
         }
       }));
 
-      // データ行
-      const dataRows = tableData.rows.map(row =>
-        row.map((cell, colIndex) => ({
-          text: cell,
+      // データ行（縞模様）
+      const dataRows: pptxgen.TableRow[] = rowIndices.map((rowIndex, i) =>
+        tableData.headers.map((_, colIndex) => ({
+          text: tableData.rows[rowIndex][colIndex] || '',
           options: {
-            fill: { color: 'FFFFFF' },
-            align: 'left',
-            valign: 'top',
-            fontFace: 'Yu Gothic',
-            fontSize: colIndex === 3 ? 10 : 11, // イメージ列は小さく
+            fill: { color: zebra && i % 2 === 1 ? this.colors.backgroundTinted : this.colors.background },
+            color: this.resolveColor(area.color),
+            align: layout.aligns[colIndex],
+            valign: 'middle',
+            fontFace: this.font,
+            fontSize: layout.fontSize,
             margin: [0.08, 0.08, 0.08, 0.08],
             breakLine: true
           }
         }))
       );
 
-      const rows = [headerRow, ...dataRows];
-
-      // カラム幅を手動設定
-      const colW = [0.4, 1.3, 4, 6.3]; // #, 必要な要素, 概要, イメージ
-
-      slide.addTable(rows, {
-        x: 0.3,
-        y: 1.5,
-        w: 12,
-        colW: colW,
-        rowH: [0.5, ...Array(dataRows.length).fill(1.5)],
+      slide.addTable([headerRow, ...dataRows], {
+        x: area.x,
+        y: area.y,
+        w: area.w,
+        colW: layout.colW,
+        rowH: [layout.headerHeight, ...rowIndices.map(rowIndex => layout.rowHeights[rowIndex])],
         border: { pt: 1, color: 'DDDDDD' },
-        fontFace: 'Yu Gothic',
-        fontSize: 11,
+        fontFace: this.font,
+        fontSize: layout.fontSize,
         lang: 'ja-JP',
         autoPage: false,
         autoPageRepeatHeader: false
       });
+
+      // ブランディング
+      this.addBranding(slide, template);
+    });
+  }
+
+  /**
+   * グラフスライド生成（PowerPointのネイティブグラフ・スライド上で数値を編集できる）
+   * 出典がある場合はグラフの下に脚注として表示
+   */
+  private generateChartSlide(section: Section): void {
+    const slide = this.addSlide('chart');
+    const template = this.template('chart');
+    const area = this.contentArea('chart');
+
+    slide.addText(this.sanitizeText(section.title, 'title'), this.textOptions(template.titleStyle));
+
+    const chart = section.chart;
+    if (!chart) {
+      this.addBranding(slide, template);
+      return;
+    }
+
+    const sourceHeight = chart.source ? 0.35 : 0;
+    const textColor = this.resolveColor(area.color);
+    const fontFace = area.font || this.font;
+    const formatCode = chartFormatCode(chart);
+    const pie = isPieChart(chart);
+    const series = toChartSeriesData(chart);
+
+    const chartTypes = {
+      bar: this.pptx.ChartType.bar,
+      line: this.pptx.ChartType.line,
+      pie: this.pptx.ChartType.pie,
+      doughnut: this.pptx.ChartType.doughnut
+    };
+
+    const options: Record<string, unknown> = {
+      x: area.x,
+      y: area.y,
+      w: area.w,
+      h: area.h - sourceHeight,
+      chartColors: chartColors(chart, this.colors.primary),
+      lang: 'ja-JP',
+      // データラベル
+      showValue: chart.showValues !== false,
+      dataLabelFormatCode: formatCode,
+      dataLabelFontSize: area.fontSize,
+      dataLabelFontFace: fontFace,
+      dataLabelColor: pie ? 'FFFFFF' : textColor,
+      // 凡例（複数系列・円グラフのみ）
+      showLegend: pie || series.length > 1,
+      legendPos: pie ? 'r' : 'b',
+      legendFontSize: area.fontSize,
+      legendFontFace: fontFace,
+      legendColor: textColor,
+      // 軸
+      catAxisLabelFontSize: area.fontSize,
+      catAxisLabelFontFace: fontFace,
+      catAxisLabelColor: textColor,
+      valAxisLabelFontSize: area.fontSize - 1,
+      valAxisLabelFontFace: fontFace,
+      valAxisLabelColor: this.colors.textLight,
+      valAxisLabelFormatCode: formatCode,
+      valGridLine: { color: this.colors.textMuted, size: 0.5, style: 'dash' }
+    };
+
+    if (chart.type === 'bar') {
+      Object.assign(options, {
+        barDir: chart.horizontal ? 'bar' : 'col',
+        // 横棒グラフは最初の項目を上に表示
+        ...(chart.horizontal ? { catAxisOrientation: 'maxMin' } : {}),
+        barGrouping: chart.stacked ? 'stacked' : 'clustered',
+        barGapWidthPct: 60,
+        dataLabelPosition: chart.stacked ? 'ctr' : 'outEnd',
+        ...(chart.stacked ? { dataLabelColor: 'FFFFFF' } : {})
+      });
+    } else if (chart.type === 'line') {
+      Object.assign(options, {
+        lineSize: 3,
+        lineDataSymbol: 'circle',
+        lineDataSymbolSize: 8,
+        dataLabelPosition: 't'
+      });
+    } else if (chart.type === 'pie') {
+      options.dataLabelPosition = 'bestFit';
+    } else {
+      options.holeSize = 55;
+    }
+
+    slide.addChart(chartTypes[chart.type], series, options);
+
+    // 出典（脚注）
+    if (chart.source) {
+      const source = this.sanitizeText(chart.source, 'subhead');
+      slide.addText(/^(出典|Source)/i.test(source) ? source : `出典: ${source}`, {
+        x: area.x,
+        y: area.y + area.h - sourceHeight,
+        w: area.w,
+        h: sourceHeight,
+        fontSize: 10,
+        color: this.colors.textMuted,
+        align: 'left',
+        valign: 'middle',
+        fontFace: this.font,
+        lang: 'ja-JP'
+      });
+    }
+
+    // ブランディング
+    this.addBranding(slide, template);
+  }
+
+  /**
+   * フロー図スライド生成（DSLを自動レイアウトし、編集できる図形と矢印で描画）
+   * ノードの文字サイズはすべてのノードが収まるサイズに揃える
+   */
+  private generateDiagramSlide(section: Section): void {
+    const slide = this.addSlide('diagram');
+    const template = this.template('diagram');
+    const area = this.contentArea('diagram');
+
+    slide.addText(this.sanitizeText(section.title, 'title'), this.textOptions(template.titleStyle));
+    if (section.subtitle && template.subtitleStyle) {
+      slide.addText(this.sanitizeText(section.subtitle, 'subhead'), this.textOptions(template.subtitleStyle));
+    }
+
+    if (section.diagram) {
+      const graph = parseDiagram(section.diagram.source);
+      const layout = layoutDiagram(graph, section.diagram.direction || 'horizontal', area);
+      const fontFace = area.font || this.font;
+      const edgeColor = this.colors.textLight;
+      const labelSize = Math.max(area.fontSize - 4, 9);
+
+      // スイムレーン（交互の薄い帯 + レーン名）
+      layout.lanes.forEach((lane, i) => {
+        slide.addShape(this.pptx.ShapeType.rect, {
+          x: lane.x,
+          y: lane.y,
+          w: lane.w,
+          h: lane.h,
+          fill: { color: this.colors.textMuted, transparency: i % 2 === 0 ? 88 : 94 },
+          line: { type: 'none' }
+        });
+        if (!lane.name) return;
+        slide.addText(this.sanitizeText(lane.name, 'subhead'), {
+          ...lane.header,
+          fill: { color: this.colors.primary, transparency: 75 },
+          fontSize: labelSize,
+          bold: true,
+          color: this.resolveColor(area.color),
+          align: 'center',
+          valign: 'middle',
+          fontFace,
+          lang: 'ja-JP'
+        });
+      });
+
+      // 矢印（直角の折れ線、最後の線分に矢じり）
+      for (const { edge, points } of layout.edges) {
+        for (let i = 0; i < points.length - 1; i++) {
+          const [start, end] = [points[i], points[i + 1]];
+          slide.addShape(this.pptx.ShapeType.line, {
+            x: Math.min(start.x, end.x),
+            y: Math.min(start.y, end.y),
+            w: Math.abs(end.x - start.x),
+            h: Math.abs(end.y - start.y),
+            flipH: end.x < start.x,
+            flipV: end.y < start.y,
+            line: {
+              color: edgeColor,
+              width: 1.5,
+              ...(edge.dashed ? { dashType: 'dash' } : {}),
+              ...(i === points.length - 2 ? { endArrowType: 'triangle' } : {})
+            }
+          });
+        }
+      }
+
+      // ノード
+      const fontSize = this.diagramFontSize(layout.nodes, area.fontSize);
+      for (const box of layout.nodes) {
+        slide.addText(this.sanitizeText(box.node.label, 'bullet'), {
+          x: box.x,
+          y: box.y,
+          w: box.w,
+          h: box.h,
+          ...this.diagramNodeStyle(box.node.shape),
+          fontSize,
+          align: 'center',
+          valign: 'middle',
+          fontFace,
+          lang: 'ja-JP'
+        });
+      }
+
+      // 矢印のラベル（線の上に背景色で重ねる）
+      for (const { edge, labelAt } of layout.edges) {
+        if (!edge.label) continue;
+        const label = this.sanitizeText(edge.label, 'bullet');
+        const width = Math.min((measureTextEm(label) * labelSize) / 72 + 0.3, 2.5);
+        slide.addText(label, {
+          x: labelAt.x - width / 2,
+          y: labelAt.y - 0.16,
+          w: width,
+          h: 0.32,
+          fill: { color: this.colors.background },
+          fontSize: labelSize,
+          color: edgeColor,
+          align: 'center',
+          valign: 'middle',
+          fontFace,
+          lang: 'ja-JP'
+        });
+      }
     }
 
     // ブランディング
-    this.addBranding(slide);
+    this.addBranding(slide, template);
+  }
+
+  /**
+   * フロー図のノードの文字サイズ（すべてのラベルが図形の内側に収まる最大サイズ、最小9pt）
+   */
+  private diagramFontSize(nodes: NodeLayout[], maxFontSize: number): number {
+    let fontSize = maxFontSize;
+    const fits = (size: number) => nodes.every(({ node, w, h }) => {
+      // 分岐（ひし形）は内側の矩形が小さい
+      const inner = node.shape === 'decision' ? 0.6 : 0.9;
+      return estimateTextHeight(node.label, size, w * inner - 0.1, size * 1.2) <= h * inner;
+    });
+    while (fontSize > 9 && !fits(fontSize)) {
+      fontSize--;
+    }
+    return fontSize;
+  }
+
+  /**
+   * フロー図のノードの形と配色
+   * 開始・終了はブランドカラーの塗り、処理は薄い塗り + 枠線、分岐はアクセントカラー
+   */
+  private diagramNodeStyle(shape: DiagramNodeShape): Record<string, unknown> {
+    const textColor = this.resolveColor(this.contentArea('diagram').color);
+    switch (shape) {
+      case 'terminal':
+        return {
+          shape: this.pptx.ShapeType.flowChartTerminator,
+          fill: { color: this.colors.primary },
+          line: { type: 'none' },
+          color: 'FFFFFF',
+          bold: true
+        };
+      case 'decision':
+        return {
+          shape: this.pptx.ShapeType.diamond,
+          fill: { color: this.colors.accent, transparency: 75 },
+          line: { color: this.colors.accent, width: 1.5 },
+          color: textColor
+        };
+      case 'rounded':
+        return {
+          shape: this.pptx.ShapeType.roundRect,
+          rectRadius: 0.12,
+          fill: { color: this.colors.primary, transparency: 80 },
+          line: { color: this.colors.primary, width: 1.5 },
+          color: textColor
+        };
+      case 'box':
+        return {
+          shape: this.pptx.ShapeType.rect,
+          fill: { color: this.colors.primary, transparency: 80 },
+          line: { color: this.colors.primary, width: 1.5 },
+          color: textColor
+        };
+    }
   }
 
   /**
    * コードブロックスライド生成
    */
   private generateCodeBlockSlide(section: Section): void {
-    const slide = this.pptx.addSlide();
-
-    // 背景
-    slide.background = { color: 'FFFFFF' };
+    const slide = this.addSlide('codeBlock');
+    const template = this.template('codeBlock');
+    const area = this.contentArea('codeBlock');
+    const codeFont = area.font || 'Consolas';
 
     // タイトル
-    slide.addText(section.title, {
-      x: 0.5,
-      y: 0.4,
-      w: 12,
-      h: 0.7,
-      fontSize: 24,
-      bold: true,
-      color: '333333',
-      align: 'left',
-      fontFace: 'Yu Gothic',
-      lang: 'ja-JP'
-    });
+    slide.addText(section.title, this.textOptions(template.titleStyle));
 
     // コードブロック（ダークモード背景）
     if (section.code) {
+      const code = section.code;
+      const blockX = area.x;
+      const blockY = area.y;
+      const blockW = area.w;
+      const blockH = code.description ? area.h - 0.4 : area.h;
+      const textY = blockY + 0.2;
+      const textH = blockH - 0.4;
+
+      const lines = tokenizeLines(code.code, code.language);
+
+      // 行数に応じてフォントサイズを調整（既定サイズ〜9pt）
+      let fontSize = area.fontSize;
+      while (fontSize > 9 && lines.length * this.codeLineHeight(fontSize) > textH) {
+        fontSize--;
+      }
+      const lineHeight = this.codeLineHeight(fontSize);
+
       // 背景ボックス
       slide.addShape(this.pptx.ShapeType.rect, {
-        x: 0.8,
-        y: 1.5,
-        w: 11.7,
-        h: 5,
-        fill: { type: 'solid', color: '2D2D2D' }
-      });
-
-      // コード
-      slide.addText(section.code.code, {
-        x: 1,
-        y: 1.7,
-        w: 11.3,
-        h: 4.6,
-        fontSize: 13,
-        color: 'FFFFFF',
-        fontFace: 'Consolas',
+        x: blockX,
+        y: blockY,
+        w: blockW,
+        h: blockH,
+        fill: { type: 'solid', color: codeColors.background }
+      });
+
+      // 強調行（背景帯 + 左端のアクセントバー）
+      const highlighted = parseLineRanges(code.highlightLines, lines.length);
+      highlighted.forEach(lineNumber => {
+        if (lineNumber < 1 || lineNumber > lines.length) return;
+        const bandY = textY + (lineNumber - 1) * lineHeight;
+        if (bandY + lineHeight > blockY + blockH) return;
+
+        slide.addShape(this.pptx.ShapeType.rect, {
+          x: blockX,
+          y: bandY,
+          w: blockW,
+          h: lineHeight,
+          fill: { type: 'solid', color: codeColors.highlightLine }
+        });
+        slide.addShape(this.pptx.ShapeType.rect, {
+          x: blockX,
+          y: bandY,
+          w: 0.06,
+          h: lineHeight,
+          fill: { type: 'solid', color: this.colors.primary }
+        });
+      });
+
+      // 言語ラベル（右上）
+      if (code.language) {
+        slide.addText(code.language.toUpperCase(), {
+          x: blockX + blockW - 2.1,
+          y: blockY + 0.05,
+          w: 2,
+          h: 0.3,
+          fontSize: 9,
+          color: codeColors.lineNumber,
+          align: 'right',
+          fontFace: codeFont
+        });
+      }
+
+      // コード（トークンごとに色分けしたテキストラン）
+      const numberWidth = String(lines.length).length;
+      const runs: pptxgen.TextProps[] = [];
+      lines.forEach((tokens, index) => {
+        const isLastLine = index === lines.length - 1;
+        const lineRuns: pptxgen.TextProps[] = [];
+
+        if (code.showLineNumbers) {
+          lineRuns.push({
+            text: `${String(index + 1).padStart(numberWidth, ' ')}  `,
+            options: { color: codeColors.lineNumber }
+          });
+        }
+
+        tokens.forEach(token => {
+          lineRuns.push({
+            text: token.text,
+            options: {
+              color: codeColors.tokens[token.type],
+              bold: token.type === 'heading',
+              italic: token.type === 'comment'
+            }
+          });
+        });
+
+        // 空行でも行送りを維持する
+        if (lineRuns.length === 0) {
+          lineRuns.push({ text: ' ', options: {} });
+        }
+
+        if (!isLastLine) {
+          const lastRun = lineRuns[lineRuns.length - 1];
+          lastRun.options = { ...lastRun.options, breakLine: true };
+        }
+        runs.push(...lineRuns);
+      });
+
+      slide.addText(runs, {
+        x: blockX + 0.2,
+        y: textY,
+        w: blockW - 0.4,
+        h: textH,
+        fontSize,
+        fontFace: codeFont,
         align: 'left',
         valign: 'top',
-        lineSpacing: 20
+        margin: 0,
+        lineSpacing: fontSize * 1.5
       });
+
+      // 説明文（キャプション）
+      if (code.description) {
+        slide.addText(this.sanitizeText(code.description, 'subhead'), {
+          x: blockX,
+          y: blockY + blockH + 0.1,
+          w: blockW,
+          h: 0.5,
+          fontSize: 12,
+          color: this.colors.textLight,
+          align: 'left',
+          valign: 'top',
+          fontFace: this.font,
+          lang: 'ja-JP'
+        });
+      }
     }
 
     // ブランディング
-    this.addBranding(slide);
+    this.addBranding(slide, template);
+  }
+
+  /**
+   * コードブロックの1行あたりの高さ（インチ）
+   * 行間はフォントサイズの1.5倍
+   */
+  private codeLineHeight(fontSize: number): number {
+    return (fontSize * 1.5) / 72;
   }
 
   /**
    * スクリーンショットスライド生成
    */
   private generateScreenshotSlide(section: Section): void {
-    const slide = this.pptx.addSlide();
-
-    // 背景
-    slide.background = { color: 'F5F5F5' };
+    const slide = this.addSlide('screenshot');
+    const template = this.template('screenshot');
+    const contentArea = this.contentArea('screenshot');
 
     // タイトル
-    slide.addText(section.title, {
-      x: 0.5,
-      y: 0.5,
-      w: '90%',
-      h: 0.8,
-      fontSize: 28,
-      bold: true,
-      color: '333333'
+    slide.addText(section.title, this.textOptions(template.titleStyle));
+
+    // 説明文（表示した分だけ画像領域を下げる）
+    let areaY = contentArea.y;
+    if (this.narrationOnSlide && section.narration && template.subtitleStyle) {
+      const descriptionStyle = template.subtitleStyle;
+      slide.addText(stripSpeechMarkup(section.narration), this.textOptions(descriptionStyle));
+      areaY = Math.max(areaY, (descriptionStyle.y ?? 0) + (descriptionStyle.h ?? 0) + 0.1);
+    }
+
+    // スクリーンショット画像（アスペクト比を保持して表示領域に収める）
+    const area: Box = {
+      x: contentArea.x,
+      y: areaY,
+      w: contentArea.w,
+      h: contentArea.y + contentArea.h - areaY
+    };
+    const imagePath = section.screenshot?.imagePath;
+    const imageSize = imagePath ? readImageSize(imagePath) : null;
+
+    if (imagePath && imageSize) {
+      const imageBox = fitImageInBox(imageSize, area);
+
+      slide.addImage({
+        path: imagePath,
+        ...imageBox,
+        altText: section.title
+      });
+
+      // 画像の枠線
+      slide.addShape(this.pptx.ShapeType.rect, {
+        ...imageBox,
+        fill: { type: 'none' },
+        line: { color: 'CCCCCC', width: 1 }
+      });
+
+      // 注釈（番号付きコールアウト）
+      (section.screenshot?.annotations || []).forEach((annotation, index) => {
+        this.addAnnotationCallout(slide, annotation, index + 1, imageBox, imageSize);
+      });
+    } else {
+      if (imagePath) {
+        console.warn(`⚠️  Screenshot not found or unsupported format: ${imagePath}`);
+      }
+
+      // スクリーンショット画像プレースホルダー
+      slide.addText(imagePath ? `Screenshot\n${imagePath}` : '📷 Screenshot\nPlaceholder', {
+        x: area.x + 1.2,
+        y: area.y + 0.3,
+        w: area.w - 2.4,
+        h: Math.min(3.5, area.h - 0.6),
+        fontSize: 24,
+        color: this.colors.textMuted,
+        align: 'center',
+        valign: 'middle',
+        fill: { color: 'FFFFFF' },
+        line: { color: 'CCCCCC', width: 1, dashType: 'dash' }
+      });
+    }
+
+    // ブランディング
+    this.addBranding(slide, template);
+  }
+
+  /**
+   * 注釈コールアウトを描画（番号マーカー + 引き出し線 + ラベル）
+   * 注釈座標は画像左上を原点とし、スライド座標に変換して配置する
+   */
+  private addAnnotationCallout(
+    slide: pptxgen.Slide,
+    annotation: Annotation,
+    number: number,
+    imageBox: Box,
+    imageSize: ImageSize
+  ): void {
+    const color = normalizeColor(annotation.color) || this.colors.error;
+    const markerSize = 0.36;
+    const labelW = 2.6;
+    const labelH = 0.5;
+
+    // 割合（0〜1）またはピクセル座標をスライド座標へ変換
+    const ratio = annotationToRatio(annotation, imageSize);
+    const markerX = imageBox.x + imageBox.w * ratio.x;
+    const markerY = imageBox.y + imageBox.h * ratio.y;
+
+    // ラベルは画像の中心から外側に向けて配置し、スライド内に収める
+    const placeRight = markerX < imageBox.x + imageBox.w / 2;
+    const placeAbove = markerY > imageBox.y + 1;
+    const labelX = Math.min(
+      Math.max(placeRight ? markerX + 0.6 : markerX - 0.6 - labelW, 0.3),
+      13.03 - labelW
+    );
+    const labelY = Math.min(
+      Math.max(placeAbove ? markerY - 0.8 : markerY + 0.3, 1.0),
+      6.9 - labelH
+    );
+
+    // 引き出し線（マーカー中心からラベル側面の中点へ）
+    const targetX = placeRight ? labelX : labelX + labelW;
+    const targetY = labelY + labelH / 2;
+    slide.addShape(this.pptx.ShapeType.line, {
+      x: Math.min(markerX, targetX),
+      y: Math.min(markerY, targetY),
+      w: Math.abs(targetX - markerX),
+      h: Math.abs(targetY - markerY),
+      flipH: (targetX < markerX) !== (targetY < markerY),
+      line: { color, width: 1.5 }
     });
 
-    // 説明文
-    if (section.narration) {
-      slide.addText(section.narration, {
-        x: 0.5,
-        y: 1.5,
-        w: '90%',
-        h: 0.8,
-        fontSize: 16,
-        color: '666666'
-      });
-    }
-
-    // スクリーンショット画像プレースホルダー
-    slide.addText('📷 Screenshot\nPlaceholder', {
-      x: 2,
-      y: 2.5,
-      w: 9,
-      h: 3.5,
-      fontSize: 24,
-      color: '999999',
+    // 番号マーカー
+    slide.addText(`${number}`, {
+      x: markerX - markerSize / 2,
+      y: markerY - markerSize / 2,
+      w: markerSize,
+      h: markerSize,
+      shape: this.pptx.ShapeType.ellipse,
+      fill: { color },
+      line: { color: 'FFFFFF', width: 1.5 },
+      fontSize: 11,
+      bold: true,
+      color: 'FFFFFF',
       align: 'center',
       valign: 'middle',
+      margin: 0,
+      fontFace: this.font
+    });
+
+    // ラベル
+    slide.addText(this.sanitizeText(annotation.text), {
+      x: labelX,
+      y: labelY,
+      w: labelW,
+      h: labelH,
       fill: { color: 'FFFFFF' },
-      line: { color: 'CCCCCC', width: 1, dashType: 'dash' }
+      line: { color, width: 1.5 },
+      fontSize: 11,
+      color: this.colors.text,
+      align: 'left',
+      valign: 'middle',
+      fontFace: this.font,
+      lang: 'ja-JP',
+      fit: 'shrink'
     });
+  }
 
-    // ブランディング
-    this.addBranding(slide);
+  /**
+   * ロゴを追加（画像が見つからない場合は会社名テキストで代替）
+   */
+  private addLogo(slide: pptxgen.Slide, box: Box, fontSize: number, textColor?: string): void {
+    if (this.logoPath && existsSync(this.logoPath)) {
+      slide.addImage({ path: this.logoPath, ...box });
+      return;
+    }
+
+    slide.addText(this.branding.company, {
+      ...box,
+      w: Math.max(box.w, 2),
+      fontSize,
+      color: textColor || this.colors.primary,
+      bold: true,
+      fontFace: this.font
+    });
   }
 
   /**
    * ブランディング要素を追加（ロゴ、ページ番号、著作権）
+   * 配置はテーマの logo / footer に従い、濃い背景のテンプレートでは白文字で表示
    */
-  private addBranding(slide: any, whiteText = false): void {
-    const textColor = whiteText ? 'FFFFFF' : '666666';
+  private addBranding(slide: pptxgen.Slide, template: SlideTemplate): void {
+    const whiteText = template.darkBackground === true;
+    const textColor = whiteText ? 'FFFFFF' : this.colors.textLight;
+    const { logo, footer } = this.theme;
+
+    // ロゴ画像（テンプレートごとの上書きを反映）
+    const logoConfig = { ...logo, ...template.logo };
+    if (logoConfig.show) {
+      const { x, y, w, h } = logoConfig;
+      this.addLogo(slide, { x, y, w, h }, logoConfig.fontSize, whiteText ? 'FFFFFF' : undefined);
+    }
 
-    // ロゴ画像（左上）
-    try {
-      slide.addImage({
-        path: this.logoPath,
-        x: 0.3,
-        y: 0.25,
-        w: 1.5,
-        h: 0.35
-      });
-    } catch (error) {
-      // ロゴ画像が見つからない場合はテキストで代替
-      slide.addText(this.branding.company, {
-        x: 0.3,
-        y: 0.25,
-        w: 2,
-        h: 0.35,
-        fontSize: 11,
-        color: brandColors.primary,
-        bold: true,
-        fontFace: 'Yu Gothic'
+    // ページ番号（講座のビルドでは前の章からの通し番号・章番号の接頭辞を付けられる）
+    if (footer.pageNumber.show && this.slideNumber > 0) {
+      const { show: _show, fontSize, align, ...box } = footer.pageNumber;
+      const { offset = 0, prefix = '' } = this.pageNumber;
+      slide.addText(`${prefix}${offset + this.slideNumber}`, {
+        ...box,
+        fontSize,
+        color: textColor,
+        align: align || 'right',
+        fontFace: this.font
       });
     }
 
-    // ページ番号（右下）
-    if (this.slideNumber > 0) {
-      slide.addText(`${this.slideNumber}`, {
-        x: 12.5,
-        y: 7.1,
-        w: 0.5,
-        h: 0.3,
-        fontSize: 11,
+    // 著作権表示
+    if (footer.copyright.show) {
+      const { show: _show, fontSize, align, ...box } = footer.copyright;
+      slide.addText(`© ${this.branding.company}`, {
+        ...box,
+        fontSize,
         color: textColor,
-        align: 'right',
-        fontFace: 'Yu Gothic'
+        align: align || 'left',
+        fontFace: this.font
       });
     }
-
-    // 著作権表示（左下）
-    slide.addText(`© ${this.branding.company}`, {
-      x: 0.3,
-      y: 7.1,
-      w: 3,
-      h: 0.3,
-      fontSize: 9,
-      color: textColor,
-      fontFace: 'Yu Gothic'
-    });
   }
 }
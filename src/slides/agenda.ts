@@ -0,0 +1,77 @@
+import { Section, SectionType } from '../types.js';
+
+/**
+ * アジェンダ・進捗表示 - セクション区切り（sectionDivider）から講座の「部」を組み立てる
+ *
+ * 部の番号は台本全体のセクション区切りの通し番号（アジェンダと進捗表示で同じ番号になる）
+ */
+
+export interface AgendaItem {
+  number: number; // 部の通し番号（1始まり）
+  title: string; // 区切りのタイトル（先頭の "1. " などの番号は除去済み）
+  subtitle?: string;
+  sectionIndex: number;
+}
+
+export interface SectionProgress {
+  part: number; // 現在の部（1始まり）
+  total: number; // 部の総数
+  title: string;
+}
+
+// 進捗表示を付けるセクションタイプ（タイトル・区切り・アジェンダ自体には付けない）
+export const progressSectionTypes: SectionType[] = [
+  'content', 'comparison', 'twoColumn', 'table', 'chart', 'diagram', 'codeBlock', 'screenshot', 'quiz', 'exercise'
+];
+
+// 区切りのタイトル先頭の番号（"1. " / "2．" / "第3部 " / "Part 4: " など）
+const partNumberPattern = /^(?:第\s*\d+\s*[部章]\s*[.．、:：]?|part\s*\d+\s*[.．:：]?|\d+\s*[.．、:：)）](?!\d)|\d+\s)\s*/i;
+
+/**
+ * 区切りのタイトルから先頭の番号を除去（アジェンダでは番号を別に表示するため）
+ */
+export function stripPartNumber(title: string): string {
+  const stripped = title.replace(partNumberPattern, '').trim();
+  return stripped || title.trim();
+}
+
+/**
+ * 台本中のすべてのセクション区切り（部）
+ */
+function collectParts(sections: Section[]): AgendaItem[] {
+  const parts: AgendaItem[] = [];
+  sections.forEach((section, sectionIndex) => {
+    if (section.type !== 'sectionDivider') return;
+    parts.push({
+      number: parts.length + 1,
+      title: stripPartNumber(section.title),
+      ...(section.subtitle ? { subtitle: section.subtitle } : {}),
+      sectionIndex
+    });
+  });
+  return parts;
+}
+
+/**
+ * アジェンダの項目を組み立てる
+ * アジェンダの後ろにあるセクション区切りを、次のアジェンダ（または台本の終わり）まで集める
+ */
+export function buildAgenda(sections: Section[], agendaIndex: number): AgendaItem[] {
+  const nextAgenda = sections.findIndex((section, index) => index > agendaIndex && section.type === 'agenda');
+  const end = nextAgenda >= 0 ? nextAgenda : sections.length;
+
+  return collectParts(sections).filter(part => part.sectionIndex > agendaIndex && part.sectionIndex < end);
+}
+
+/**
+ * 各セクションが属する部（最初のセクション区切りより前のセクションは null）
+ */
+export function computeSectionProgress(sections: Section[]): Array<SectionProgress | null> {
+  const parts = collectParts(sections);
+  let current: AgendaItem | undefined;
+
+  return sections.map((_section, index) => {
+    current = parts.find(part => part.sectionIndex === index) || current;
+    return current ? { part: current.number, total: parts.length, title: current.title } : null;
+  });
+}
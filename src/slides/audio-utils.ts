@@ -0,0 +1,153 @@
+import { readFileSync, existsSync } from 'fs';
+
+/**
+ * 音声ファイルの再生時間を取得（MP3 / WAV）
+ *
+ * ffprobe等の外部コマンドに依存せず、ヘッダーから直接計算する:
+ * - MP3: Xing/Info・VBRIヘッダーのフレーム数、なければ固定ビットレートとして推定
+ * - WAV: fmtチャンクのバイトレートとdataチャンクのサイズ
+ */
+
+// MPEG Audio Layer III のビットレート表（kbps）
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+// バージョンごとのサンプリングレート（Hz）
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG1
+  2: [22050, 24000, 16000], // MPEG2
+  0: [11025, 12000, 8000] // MPEG2.5
+};
+
+interface Mp3FrameHeader {
+  version: number; // 3: MPEG1, 2: MPEG2, 0: MPEG2.5
+  bitrate: number; // kbps
+  sampleRate: number;
+  samplesPerFrame: number;
+  mono: boolean;
+}
+
+/**
+ * MP3フレームヘッダーを解析（Layer III以外・不正な値は null）
+ */
+function parseFrameHeader(buffer: Buffer, offset: number): Mp3FrameHeader | null {
+  if (offset + 4 > buffer.length) return null;
+  if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const version = (buffer[offset + 1] >> 3) & 0x03;
+  const layer = (buffer[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = version === 3;
+  return {
+    version,
+    bitrate: (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex],
+    sampleRate: SAMPLE_RATES[version][sampleRateIndex],
+    samplesPerFrame: isMpeg1 ? 1152 : 576,
+    mono: buffer[offset + 3] >> 6 === 3
+  };
+}
+
+/**
+ * ID3v2タグを読み飛ばした音声データの開始位置
+ */
+function skipId3v2(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') return 0;
+
+  // サイズはsynchsafe整数（各バイト下位7ビット）
+  const size = ((buffer[6] & 0x7f) << 21) | ((buffer[7] & 0x7f) << 14) | ((buffer[8] & 0x7f) << 7) | (buffer[9] & 0x7f);
+  const hasFooter = (buffer[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * MP3の再生時間（秒）
+ */
+function parseMp3Duration(buffer: Buffer): number | null {
+  let offset = skipId3v2(buffer);
+  let header: Mp3FrameHeader | null = null;
+
+  // 最初の有効なフレームを探す
+  for (; offset < buffer.length - 4; offset++) {
+    header = parseFrameHeader(buffer, offset);
+    if (header) break;
+  }
+  if (!header) return null;
+
+  // Xing/Info ヘッダー（サイド情報の直後）
+  const sideInfoSize = header.version === 3 ? (header.mono ? 17 : 32) : (header.mono ? 9 : 17);
+  const xingOffset = offset + 4 + sideInfoSize;
+  const xingTag = buffer.toString('latin1', xingOffset, xingOffset + 4);
+  if ((xingTag === 'Xing' || xingTag === 'Info') && xingOffset + 12 <= buffer.length) {
+    const flags = buffer.readUInt32BE(xingOffset + 4);
+    if (flags & 0x01) {
+      const frames = buffer.readUInt32BE(xingOffset + 8);
+      return (frames * header.samplesPerFrame) / header.sampleRate;
+    }
+  }
+
+  // VBRI ヘッダー（Fraunhofer形式、フレームヘッダーの32バイト後）
+  const vbriOffset = offset + 4 + 32;
+  if (buffer.toString('latin1', vbriOffset, vbriOffset + 4) === 'VBRI' && vbriOffset + 18 <= buffer.length) {
+    const frames = buffer.readUInt32BE(vbriOffset + 14);
+    return (frames * header.samplesPerFrame) / header.sampleRate;
+  }
+
+  // 固定ビットレートとして推定（末尾のID3v1タグを除く）
+  const hasId3v1 = buffer.length >= 128 && buffer.toString('latin1', buffer.length - 128, buffer.length - 125) === 'TAG';
+  const audioBytes = buffer.length - offset - (hasId3v1 ? 128 : 0);
+  return (audioBytes * 8) / (header.bitrate * 1000);
+}
+
+/**
+ * WAVの再生時間（秒）
+ */
+function parseWavDuration(buffer: Buffer): number | null {
+  let byteRate = 0;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('latin1', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+
+    if (chunkId === 'fmt ' && offset + 16 <= buffer.length) {
+      byteRate = buffer.readUInt32LE(offset + 16);
+    } else if (chunkId === 'data') {
+      // ストリーミング書き出しでサイズが未確定の場合はファイル末尾まで
+      const dataSize = Math.min(chunkSize, buffer.length - offset - 8);
+      return byteRate > 0 ? dataSize / byteRate : null;
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+/**
+ * 音声データの再生時間（秒）を取得（未対応形式は null）
+ */
+export function parseAudioDuration(buffer: Buffer): number | null {
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WAVE') {
+    return parseWavDuration(buffer);
+  }
+  return parseMp3Duration(buffer);
+}
+
+/**
+ * 音声ファイルの再生時間（秒）を取得（読み込めない場合は null）
+ */
+export function readAudioDuration(filePath: string): number | null {
+  if (!existsSync(filePath)) return null;
+
+  try {
+    return parseAudioDuration(readFileSync(filePath));
+  } catch {
+    return null;
+  }
+}
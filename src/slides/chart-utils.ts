@@ -0,0 +1,54 @@
+import { ChartData } from '../types.js';
+import { normalizeColor, darken, lighten } from './color-utils.js';
+
+/**
+ * グラフ用のユーティリティ - 系列データ・配色・数値書式をpptxgenjsの形式に変換
+ */
+
+export interface ChartSeriesData {
+  name: string;
+  labels: string[];
+  values: number[];
+}
+
+// ブランドカラーからの派生色（正: 暗く / 負: 明るく）を交互に並べ、隣り合う色の差を大きくする
+const colorSteps = [0, 0.35, -0.4, 0.6, -0.65, 0.15, -0.2, 0.5];
+
+/**
+ * 円グラフ・ドーナツグラフかどうか（項目ごとに色を付け、最初の系列のみ描画する）
+ */
+export function isPieChart(chart: ChartData): boolean {
+  return chart.type === 'pie' || chart.type === 'doughnut';
+}
+
+/**
+ * グラフの配色（系列ごと、円グラフは項目ごと）
+ * 台本の colors を優先し、足りない分はブランドカラーの濃淡で補う
+ */
+export function chartColors(chart: ChartData, primary: string): string[] {
+  const count = isPieChart(chart) ? chart.labels.length : chart.series.length;
+  const custom = (chart.colors || []).map(color => normalizeColor(color)).filter((color): color is string => !!color);
+
+  return Array.from({ length: count }, (_, i) => {
+    if (custom[i]) return custom[i];
+    const step = colorSteps[i % colorSteps.length];
+    if (step === 0) return primary;
+    return step > 0 ? darken(primary, step) : lighten(primary, -step);
+  });
+}
+
+/**
+ * データラベル・数値軸の書式（単位は書式の末尾に文字列として付ける）
+ */
+export function chartFormatCode(chart: ChartData): string {
+  const format = chart.valueFormat || 'General';
+  return chart.unit ? `${format}"${chart.unit.replace(/"/g, '')}"` : format;
+}
+
+/**
+ * pptxgenjsのグラフデータに変換（円グラフ・ドーナツグラフは最初の系列のみ）
+ */
+export function toChartSeriesData(chart: ChartData): ChartSeriesData[] {
+  const series = isPieChart(chart) ? chart.series.slice(0, 1) : chart.series;
+  return series.map(({ name, values }) => ({ name, labels: chart.labels, values }));
+}
@@ -0,0 +1,306 @@
+/**
+ * コードハイライター - 外部ライブラリ不要の簡易トークナイザー
+ *
+ * 対応言語:
+ * - JavaScript / TypeScript
+ * - Python
+ * - JSON
+ * - SQL
+ * - Shell (bash / sh / zsh)
+ * - prompt（プロンプト例文などのプレーンテキスト）
+ */
+
+/**
+ * トークン種別
+ */
+export type CodeTokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'function'
+  | 'property'
+  | 'variable'
+  | 'punctuation'
+  | 'heading';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+export type CodeLanguage = 'javascript' | 'python' | 'json' | 'sql' | 'shell' | 'prompt';
+
+interface TokenRule {
+  type: CodeTokenType | 'identifier';
+  pattern: RegExp;
+}
+
+/**
+ * 言語名のエイリアス
+ */
+const languageAliases: Record<string, CodeLanguage> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  typescript: 'javascript',
+  tsx: 'javascript',
+  py: 'python',
+  python: 'python',
+  json: 'json',
+  sql: 'sql',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  shell: 'shell',
+  console: 'shell',
+  prompt: 'prompt',
+  text: 'prompt',
+  txt: 'prompt',
+  plain: 'prompt',
+  markdown: 'prompt',
+  md: 'prompt'
+};
+
+const keywords: Record<CodeLanguage, Set<string>> = {
+  javascript: new Set([
+    'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do',
+    'switch', 'case', 'break', 'continue', 'new', 'class', 'extends', 'import', 'export',
+    'from', 'default', 'async', 'await', 'try', 'catch', 'finally', 'throw', 'typeof',
+    'instanceof', 'in', 'of', 'this', 'true', 'false', 'null', 'undefined', 'interface',
+    'type', 'enum', 'implements', 'private', 'public', 'protected', 'readonly', 'static',
+    'as', 'void', 'yield', 'delete'
+  ]),
+  python: new Set([
+    'def', 'return', 'if', 'elif', 'else', 'for', 'while', 'in', 'not', 'and', 'or', 'is',
+    'import', 'from', 'as', 'class', 'try', 'except', 'finally', 'raise', 'with', 'lambda',
+    'yield', 'pass', 'break', 'continue', 'global', 'nonlocal', 'async', 'await', 'None',
+    'True', 'False', 'self', 'print'
+  ]),
+  json: new Set(['true', 'false', 'null']),
+  sql: new Set([
+    'select', 'from', 'where', 'and', 'or', 'not', 'insert', 'into', 'values', 'update',
+    'set', 'delete', 'create', 'table', 'drop', 'alter', 'join', 'left', 'right', 'inner',
+    'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'offset', 'as', 'distinct',
+    'count', 'sum', 'avg', 'min', 'max', 'null', 'is', 'in', 'like', 'between', 'case',
+    'when', 'then', 'else', 'end', 'asc', 'desc', 'union', 'all', 'primary', 'key', 'with'
+  ]),
+  shell: new Set([
+    'if', 'then', 'else', 'elif', 'fi', 'for', 'in', 'do', 'done', 'while', 'case', 'esac',
+    'function', 'return', 'export', 'local', 'echo', 'cd', 'source', 'exit', 'sudo'
+  ]),
+  prompt: new Set()
+};
+
+const identifierRule: TokenRule = { type: 'identifier', pattern: /[A-Za-z_$][\w$]*/y };
+const numberRule: TokenRule = { type: 'number', pattern: /\b\d+(?:\.\d+)?\b/y };
+const whitespaceRule: TokenRule = { type: 'plain', pattern: /\s+/y };
+
+/**
+ * 言語ごとのトークン規則（先頭から順に照合）
+ */
+const rules: Record<CodeLanguage, TokenRule[]> = {
+  javascript: [
+    whitespaceRule,
+    { type: 'comment', pattern: /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: 'string', pattern: /`(?:\\[\s\S]|[^\\`])*`?|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?/y },
+    numberRule,
+    identifierRule,
+    { type: 'punctuation', pattern: /[{}()[\];,.:?!<>=+\-*/%&|^~]+/y }
+  ],
+  python: [
+    whitespaceRule,
+    { type: 'comment', pattern: /#[^\n]*/y },
+    { type: 'string', pattern: /[rfbu]?(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)/y },
+    { type: 'function', pattern: /@[\w.]+/y },
+    numberRule,
+    identifierRule,
+    { type: 'punctuation', pattern: /[{}()[\];,.:<>=+\-*/%&|^~]+/y }
+  ],
+  json: [
+    whitespaceRule,
+    { type: 'property', pattern: /"(?:\\.|[^"\\\n])*"(?=\s*:)/y },
+    { type: 'string', pattern: /"(?:\\.|[^"\\\n])*"?/y },
+    { type: 'number', pattern: /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y },
+    identifierRule,
+    { type: 'punctuation', pattern: /[{}[\],:]/y }
+  ],
+  sql: [
+    whitespaceRule,
+    { type: 'comment', pattern: /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y },
+    { type: 'string', pattern: /'(?:''|[^'])*'?/y },
+    numberRule,
+    identifierRule,
+    { type: 'punctuation', pattern: /[(),;.*=<>!+\-/%]+/y }
+  ],
+  shell: [
+    whitespaceRule,
+    { type: 'comment', pattern: /#[^\n]*/y },
+    { type: 'string', pattern: /"(?:\\.|[^"\\])*"?|'[^']*'?/y },
+    { type: 'variable', pattern: /\$\{[^}\n]*\}?|\$(?:\w+|[@#?*!$-])/y },
+    { type: 'property', pattern: /(?<=^|\s)--?[A-Za-z][\w-]*/y },
+    numberRule,
+    identifierRule,
+    { type: 'punctuation', pattern: /[|&;<>()[\]{}=\\]+/y }
+  ],
+  prompt: [
+    { type: 'heading', pattern: /^#{1,6}[^\n]*/my },
+    { type: 'variable', pattern: /\{[^}\n]*\}|\[[^\]\n]*\]|【[^】\n]*】|<[^>\n]*>/y },
+    { type: 'string', pattern: /「[^」\n]*」|"[^"\n]*"/y },
+    { type: 'punctuation', pattern: /^[ \t]*(?:[-*・]|\d+[.)．])(?=[ \t])/my }
+  ]
+};
+
+/**
+ * 言語名を正規化（未対応の言語は prompt 扱い）
+ */
+export function resolveLanguage(language: string | undefined): CodeLanguage {
+  if (!language) return 'prompt';
+  return languageAliases[language.trim().toLowerCase()] || 'prompt';
+}
+
+/**
+ * 対応している言語名（別名を含む）かどうか
+ */
+export function isSupportedLanguage(language: string): boolean {
+  return language.trim().toLowerCase() in languageAliases;
+}
+
+/**
+ * 識別子を種別に分類（キーワード / 関数呼び出し / 通常）
+ */
+function classifyIdentifier(
+  word: string,
+  language: CodeLanguage,
+  code: string,
+  endIndex: number
+): CodeTokenType {
+  const keywordSet = keywords[language];
+  const isKeyword = language === 'sql'
+    ? keywordSet.has(word.toLowerCase())
+    : keywordSet.has(word);
+
+  if (isKeyword) return 'keyword';
+  const callPattern = /\s*\(/y;
+  callPattern.lastIndex = endIndex;
+  if (callPattern.test(code)) return 'function';
+  return 'plain';
+}
+
+/**
+ * コードをトークン列に分解
+ */
+export function tokenize(code: string, language: string | undefined): CodeToken[] {
+  const lang = resolveLanguage(language);
+  const languageRules = rules[lang];
+  const tokens: CodeToken[] = [];
+  let plainBuffer = '';
+  let position = 0;
+
+  const flushPlain = () => {
+    if (plainBuffer) {
+      tokens.push({ type: 'plain', text: plainBuffer });
+      plainBuffer = '';
+    }
+  };
+
+  while (position < code.length) {
+    let matched = false;
+
+    for (const rule of languageRules) {
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(code);
+      if (!match || match[0].length === 0) continue;
+
+      const text = match[0];
+      const type = rule.type === 'identifier'
+        ? classifyIdentifier(text, lang, code, position + text.length)
+        : rule.type;
+
+      if (type === 'plain') {
+        plainBuffer += text;
+      } else {
+        flushPlain();
+        tokens.push({ type, text });
+      }
+
+      position += text.length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      plainBuffer += code[position];
+      position++;
+    }
+  }
+
+  flushPlain();
+  return tokens;
+}
+
+/**
+ * コードを行ごとのトークン列に分解（複数行コメント・文字列は行単位に分割）
+ */
+export function tokenizeLines(code: string, language: string | undefined): CodeToken[][] {
+  const normalized = normalizeCode(code);
+  const lines: CodeToken[][] = [[]];
+
+  for (const token of tokenize(normalized, language)) {
+    const parts = token.text.split('\n');
+    parts.forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+    });
+  }
+
+  return lines;
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/\r\n?/g, '\n').replace(/\t/g, '  ').replace(/\n+$/, '');
+}
+
+/**
+ * コードの行数（tokenizeLines と同じく末尾の空行は数えない）
+ */
+export function countCodeLines(code: string): number {
+  return normalizeCode(code).split('\n').length;
+}
+
+/**
+ * 強調行の指定を行の範囲のリストに変換（範囲は展開しない）
+ * 例: "2,4-6" → [[2, 2], [4, 6]] / [1, 3] → [[1, 1], [3, 3]]
+ */
+export function parseLineRangeList(ranges: string | number[] | undefined): Array<[number, number]> {
+  if (!ranges) return [];
+  if (Array.isArray(ranges)) return ranges.map(line => [line, line]);
+
+  const list: Array<[number, number]> = [];
+  for (const part of ranges.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) continue;
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    list.push([Math.min(start, end), Math.max(start, end)]);
+  }
+  return list;
+}
+
+/**
+ * 強調行の指定を行番号の集合に変換（1〜lineCount の範囲外は無視）
+ * 例: "2,4-6" → {2, 4, 5, 6} / [1, 3] → {1, 3}
+ */
+export function parseLineRanges(ranges: string | number[] | undefined, lineCount: number): Set<number> {
+  const lines = new Set<number>();
+
+  for (const [start, end] of parseLineRangeList(ranges)) {
+    for (let line = Math.max(start, 1); line <= Math.min(end, lineCount); line++) {
+      lines.add(line);
+    }
+  }
+
+  return lines;
+}
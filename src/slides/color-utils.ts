@@ -0,0 +1,52 @@
+/**
+ * カラーユーティリティ - pptxgenjs形式（"#"なし6桁HEX）の色を扱う
+ */
+
+/**
+ * 色指定を正規化（"#5FB8A6" / "5fb8a6" / "#5FB" → "5FB8A6"）
+ * 不正な値の場合は null を返す
+ */
+export function normalizeColor(color: string | undefined | null): string | null {
+  if (!color) return null;
+
+  const hex = color.trim().replace(/^#/, '').toUpperCase();
+  if (/^[0-9A-F]{6}$/.test(hex)) return hex;
+  if (/^[0-9A-F]{3}$/.test(hex)) {
+    return hex.split('').map(c => c + c).join('');
+  }
+  return null;
+}
+
+function toRgb(hex: string): [number, number, number] {
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function toHex(rgb: number[]): string {
+  return rgb
+    .map(v => Math.round(Math.min(Math.max(v, 0), 255)).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * 2色を混合（ratio: 0 = base, 1 = target）
+ */
+export function mixColors(base: string, target: string, ratio: number): string {
+  const from = toRgb(base);
+  const to = toRgb(target);
+  return toHex(from.map((v, i) => v + (to[i] - v) * ratio));
+}
+
+/**
+ * 色を暗くする（amount: 0〜1）
+ */
+export function darken(color: string, amount: number): string {
+  return mixColors(color, '000000', amount);
+}
+
+/**
+ * 色を明るくする（amount: 0〜1）
+ */
+export function lighten(color: string, amount: number): string {
+  return mixColors(color, 'FFFFFF', amount);
+}
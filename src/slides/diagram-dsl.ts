@@ -0,0 +1,156 @@
+/**
+ * フロー図DSLのパーサー - テキストで書いたノード・矢印・スイムレーンをグラフに変換
+ *
+ * 記法（1行に1つ、# で始まる行はコメント）:
+ * - ノード: `id[ラベル]` 四角 / `id(ラベル)` 角丸 / `id((ラベル))` 開始・終了 / `id{ラベル}` 分岐
+ *   ラベルを省略したノードは id をそのままラベルにする（例: `申込 -> 審査 -> 承認`）
+ * - 矢印: `A -> B`（実線）/ `A --> B`（破線）、`A -> B -> C` のように続けて書ける
+ *   矢印が1本の行は末尾の `: ラベル` で矢印にラベルを付けられる
+ * - スイムレーン: `lane 名前` 以降に初めて登場したノードはそのレーンに入る
+ */
+
+export type DiagramNodeShape = 'box' | 'rounded' | 'terminal' | 'decision';
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  shape: DiagramNodeShape;
+  lane?: string;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+  dashed?: boolean;
+}
+
+export interface DiagramGraph {
+  nodes: DiagramNode[]; // 登場順
+  edges: DiagramEdge[];
+  lanes: string[]; // 登場順
+}
+
+/**
+ * DSLの記法エラー（line はDSL内の行番号、1始まり）
+ */
+export class DiagramSyntaxError extends Error {
+  constructor(readonly reason: string, readonly line: number) {
+    super(`Diagram line ${line}: ${reason}`);
+    this.name = 'DiagramSyntaxError';
+  }
+}
+
+const lanePattern = /^lane\s+(.+)$/i;
+const arrowPattern = /\s*(-->|->)\s*/;
+const nodePattern = /^([^\s[\](){}:]+)\s*(?:\(\((.+)\)\)|\[(.+)\]|\((.+)\)|\{(.+)\})?$/;
+
+/**
+ * 括弧の外にある最後の ":" の位置（ラベル内の ":" は区切りとして扱わない）
+ */
+function findLabelSeparator(text: string): number {
+  let depth = 0;
+  let separator = -1;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if ('[({'.includes(char)) depth++;
+    else if ('])}'.includes(char)) depth = Math.max(depth - 1, 0);
+    else if (char === ':' && depth === 0) separator = i;
+  }
+  return separator;
+}
+
+/**
+ * ノードの記述（id とラベル・形）を解析
+ */
+function parseNode(token: string, line: number): Omit<DiagramNode, 'lane'> & { explicit: boolean } {
+  const match = token.trim().match(nodePattern);
+  if (!match) {
+    throw new DiagramSyntaxError(`Invalid node "${token.trim()}" (expected id, id[label], id(label), id((label)) or id{label})`, line);
+  }
+
+  const [, id, terminal, box, rounded, decision] = match;
+  const shapes: Array<[string | undefined, DiagramNodeShape]> = [
+    [terminal, 'terminal'],
+    [box, 'box'],
+    [rounded, 'rounded'],
+    [decision, 'decision']
+  ];
+  const [label, shape] = shapes.find(([text]) => text !== undefined) || [undefined, 'box'];
+
+  return { id, label: (label ?? id).trim(), shape, explicit: label !== undefined };
+}
+
+/**
+ * DSLをグラフに変換（記法の誤りは DiagramSyntaxError）
+ */
+export function parseDiagram(source: string): DiagramGraph {
+  const nodes = new Map<string, DiagramNode>();
+  const explicitLabels = new Set<string>();
+  const edges: DiagramEdge[] = [];
+  const lanes: string[] = [];
+  let lane: string | undefined;
+
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const text = raw.trim();
+    if (!text || text.startsWith('#')) return;
+
+    const laneMatch = text.match(lanePattern);
+    if (laneMatch) {
+      lane = laneMatch[1].trim();
+      if (!lanes.includes(lane)) lanes.push(lane);
+      return;
+    }
+
+    // 矢印のラベル（矢印が1本の行のみ）
+    let body = text;
+    let edgeLabel: string | undefined;
+    const separator = findLabelSeparator(text);
+    if (separator >= 0) {
+      body = text.slice(0, separator).trim();
+      edgeLabel = text.slice(separator + 1).trim();
+    }
+
+    const parts = body.split(arrowPattern);
+    const arrowCount = (parts.length - 1) / 2;
+    if (edgeLabel !== undefined && arrowCount !== 1) {
+      throw new DiagramSyntaxError('": label" can only be used on a line with exactly one arrow', lineNumber);
+    }
+
+    const ids = parts.filter((_, i) => i % 2 === 0).map(token => {
+      if (!token.trim()) {
+        throw new DiagramSyntaxError('Arrow is missing a node on one side', lineNumber);
+      }
+      const node = parseNode(token, lineNumber);
+      const existing = nodes.get(node.id);
+
+      if (existing && node.explicit) {
+        if (explicitLabels.has(node.id) && (existing.label !== node.label || existing.shape !== node.shape)) {
+          throw new DiagramSyntaxError(`Node "${node.id}" is already defined as "${existing.label}"`, lineNumber);
+        }
+        existing.label = node.label;
+        existing.shape = node.shape;
+      } else if (!existing) {
+        nodes.set(node.id, { id: node.id, label: node.label, shape: node.shape, ...(lane ? { lane } : {}) });
+      }
+      if (node.explicit) explicitLabels.add(node.id);
+      return node.id;
+    });
+
+    for (let i = 0; i < arrowCount; i++) {
+      edges.push({
+        from: ids[i],
+        to: ids[i + 1],
+        ...(edgeLabel ? { label: edgeLabel } : {}),
+        ...(parts[i * 2 + 1] === '-->' ? { dashed: true } : {})
+      });
+    }
+  });
+
+  if (nodes.size === 0) {
+    throw new DiagramSyntaxError('Diagram has no nodes', 1);
+  }
+
+  return { nodes: [...nodes.values()], edges, lanes };
+}
@@ -0,0 +1,188 @@
+import { DiagramDirection } from '../types.js';
+import { DiagramGraph, DiagramNode, DiagramEdge } from './diagram-dsl.js';
+import { Box } from './image-utils.js';
+
+/**
+ * フロー図の自動レイアウト - ノードを矢印の順に段（ランク）へ並べ、矢印を直角の折れ線で結ぶ
+ *
+ * 横向き（horizontal）は左から右へ段を並べ、スイムレーンは横長の帯
+ * 縦向き（vertical）は上から下へ段を並べ、スイムレーンは縦長の帯
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface NodeLayout extends Box {
+  node: DiagramNode;
+}
+
+export interface LaneLayout extends Box {
+  name: string;
+  header: Box; // レーン名の表示領域
+}
+
+export interface EdgeLayout {
+  edge: DiagramEdge;
+  points: Point[]; // 折れ線の頂点（最後の線分の終点に矢印）
+  labelAt: Point; // ラベルの中心
+}
+
+export interface DiagramLayout {
+  nodes: NodeLayout[];
+  lanes: LaneLayout[];
+  edges: EdgeLayout[];
+}
+
+// レイアウトの寸法（インチ）
+const laneHeaderSize = { horizontal: 1.3, vertical: 0.45 }; // レーン名の幅（横向き）・高さ（縦向き）
+const maxNodeMain = { horizontal: 2.6, vertical: 0.9 }; // 流れの方向のノードの大きさ
+const maxNodeCross = { horizontal: 1.0, vertical: 3.0 };
+const nodeMainRatio = 0.65; // 段の幅に対するノードの割合（残りは矢印の間隔）
+const nodeCrossRatio = 0.7;
+const loopOffset = 0.2; // 戻りの矢印がノードの外側を回る距離
+
+/**
+ * 段（ランク）の割り当て - 矢印の元より後ろの段に先を置く（最長経路）
+ * 循環する矢印（戻り）は段の計算から除外する
+ */
+export function assignRanks(graph: DiagramGraph): Map<string, number> {
+  const outgoing = new Map<string, string[]>(graph.nodes.map(node => [node.id, []]));
+  graph.edges.forEach(edge => outgoing.get(edge.from)?.push(edge.to));
+
+  // 深さ優先探索で戻りの矢印を見つけ、残りの矢印をトポロジカル順に並べる
+  const state = new Map<string, 'visiting' | 'done'>();
+  const backEdges = new Set<string>();
+  const order: string[] = [];
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const next of outgoing.get(id) || []) {
+      if (state.get(next) === 'visiting') backEdges.add(`${id}\u0000${next}`);
+      else if (!state.has(next)) visit(next);
+    }
+    state.set(id, 'done');
+    order.unshift(id);
+  };
+  graph.nodes.forEach(node => {
+    if (!state.has(node.id)) visit(node.id);
+  });
+
+  const ranks = new Map<string, number>(graph.nodes.map(node => [node.id, 0]));
+  for (const id of order) {
+    for (const next of outgoing.get(id) || []) {
+      if (backEdges.has(`${id}\u0000${next}`)) continue;
+      ranks.set(next, Math.max(ranks.get(next)!, ranks.get(id)! + 1));
+    }
+  }
+  return ranks;
+}
+
+/**
+ * フロー図をレイアウト（area はレーン名を含む描画領域）
+ */
+export function layoutDiagram(graph: DiagramGraph, direction: DiagramDirection, area: Box): DiagramLayout {
+  const horizontal = direction === 'horizontal';
+  const ranks = assignRanks(graph);
+  const rankCount = Math.max(...ranks.values()) + 1;
+
+  // レーン（レーン指定より前に登場したノードは名前のない先頭のレーン）
+  const laneNames = graph.lanes.length > 0 && graph.nodes.some(node => node.lane === undefined)
+    ? ['', ...graph.lanes]
+    : graph.lanes.length > 0 ? graph.lanes : [''];
+  const hasLanes = graph.lanes.length > 0;
+  const laneOf = (node: DiagramNode) => laneNames.indexOf(node.lane ?? '');
+
+  // 流れの方向（main）と直交する方向（cross）の座標で計算し、最後に x / y に変換
+  const header = hasLanes ? laneHeaderSize[direction] : 0;
+  const mainStart = (horizontal ? area.x : area.y) + header;
+  const mainLength = (horizontal ? area.w : area.h) - header;
+  const crossStart = horizontal ? area.y : area.x;
+  const crossLength = horizontal ? area.h : area.w;
+
+  const cellMain = mainLength / rankCount;
+  const laneCross = crossLength / laneNames.length;
+  const nodeMain = Math.min(cellMain * nodeMainRatio, maxNodeMain[direction]);
+
+  // 同じレーン・同じ段のノード（登場順に並べる）
+  const cells = new Map<string, DiagramNode[]>();
+  for (const node of graph.nodes) {
+    const key = `${laneOf(node)}:${ranks.get(node.id)}`;
+    cells.set(key, [...(cells.get(key) || []), node]);
+  }
+  const slotsPerLane = laneNames.map((_, lane) => Math.max(1, ...[...cells.entries()]
+    .filter(([key]) => key.startsWith(`${lane}:`))
+    .map(([, nodes]) => nodes.length)));
+  const nodeCross = Math.min(
+    ...slotsPerLane.map(slots => (laneCross / slots) * nodeCrossRatio),
+    maxNodeCross[direction]
+  );
+
+  const toBox = (main: number, cross: number, mainSize: number, crossSize: number): Box => horizontal
+    ? { x: main, y: cross, w: mainSize, h: crossSize }
+    : { x: cross, y: main, w: crossSize, h: mainSize };
+  const toPoint = (main: number, cross: number): Point => (horizontal ? { x: main, y: cross } : { x: cross, y: main });
+
+  const positions = new Map<string, { main: number; cross: number }>(); // ノードの中心
+  const nodes: NodeLayout[] = [];
+  for (const [key, cellNodes] of cells) {
+    const [lane, rank] = key.split(':').map(Number);
+    const slot = laneCross / slotsPerLane[lane];
+    cellNodes.forEach((node, i) => {
+      const main = mainStart + cellMain * (rank + 0.5);
+      const cross = crossStart + laneCross * (lane + 0.5) + (i - (cellNodes.length - 1) / 2) * slot;
+      positions.set(node.id, { main, cross });
+      nodes.push({ node, ...toBox(main - nodeMain / 2, cross - nodeCross / 2, nodeMain, nodeCross) });
+    });
+  }
+  nodes.sort((a, b) => graph.nodes.indexOf(a.node) - graph.nodes.indexOf(b.node));
+
+  const lanes: LaneLayout[] = hasLanes
+    ? laneNames.map((name, i) => ({
+      name,
+      ...toBox(mainStart - header, crossStart + laneCross * i, mainLength + header, laneCross),
+      header: toBox(mainStart - header, crossStart + laneCross * i, header, laneCross)
+    }))
+    : [];
+
+  const edges = graph.edges.map((edge): EdgeLayout => {
+    const from = positions.get(edge.from)!;
+    const to = positions.get(edge.to)!;
+    const halfMain = nodeMain / 2;
+    const halfCross = nodeCross / 2;
+    let route: Array<[number, number]>;
+
+    if (ranks.get(edge.to)! > ranks.get(edge.from)!) {
+      // 前向き: 先のノードの手前で折れる
+      const start: [number, number] = [from.main + halfMain, from.cross];
+      const end: [number, number] = [to.main - halfMain, to.cross];
+      const bend = end[0] - (cellMain - nodeMain) / 2;
+      route = Math.abs(from.cross - to.cross) < 0.01
+        ? [start, end]
+        : [start, [bend, from.cross], [bend, to.cross], end];
+    } else if (Math.abs(from.main - to.main) < 0.01 && Math.abs(from.cross - to.cross) > 0.01) {
+      // 同じ段の隣のノード: まっすぐ結ぶ
+      const sign = Math.sign(to.cross - from.cross);
+      route = [[from.main, from.cross + sign * halfCross], [to.main, to.cross - sign * halfCross]];
+    } else {
+      // 戻り: ノードの外側（cross の後ろ側）を回る
+      const level = Math.max(from.cross, to.cross) + halfCross + loopOffset;
+      route = [
+        [from.main, from.cross + halfCross],
+        [from.main, level],
+        [to.main, level],
+        [to.main, to.cross + halfCross]
+      ];
+    }
+
+    const points = route.map(([main, cross]) => toPoint(main, cross));
+    const middle = Math.floor((points.length - 1) / 2);
+    const labelAt = {
+      x: (points[middle].x + points[middle + 1].x) / 2,
+      y: (points[middle].y + points[middle + 1].y) / 2
+    };
+    return { edge, points, labelAt };
+  });
+
+  return { nodes, lanes, edges };
+}
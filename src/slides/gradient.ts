@@ -0,0 +1,129 @@
+import { deflateSync } from 'zlib';
+import { GradientConfig } from '../types.js';
+
+/**
+ * 線形グラデーション背景の画像生成
+ *
+ * pptxgenjsはスライド背景のグラデーション塗りに対応していないため、
+ * GradientConfigからPNG画像を生成して背景画像として使用する。
+ * 角度はCSSと同じ規則（0deg = 下から上、90deg = 左から右、135deg = 左上から右下）
+ */
+
+// 背景画像の解像度（スライド全体に引き伸ばして表示）
+const IMAGE_WIDTH = 480;
+const IMAGE_HEIGHT = 270;
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * RGB画素データからPNGを生成
+ */
+function encodePng(width: number, height: number, rgb: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // ビット深度
+  header[9] = 2; // カラータイプ: RGB
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  // 各行の先頭にフィルタタイプ（0: なし）を付与
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (width * 3 + 1)] = 0;
+    rgb.copy(raw, y * (width * 3 + 1) + 1, y * width * 3, (y + 1) * width * 3);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * 位置t（0〜1）における色を停止点から補間
+ */
+function colorAt(stops: Array<{ position: number; rgb: number[] }>, t: number): number[] {
+  const position = t * 100;
+  if (position <= stops[0].position) return stops[0].rgb;
+
+  for (let i = 1; i < stops.length; i++) {
+    const prev = stops[i - 1];
+    const next = stops[i];
+    if (position <= next.position) {
+      const span = next.position - prev.position || 1;
+      const ratio = (position - prev.position) / span;
+      return prev.rgb.map((v, c) => v + (next.rgb[c] - v) * ratio);
+    }
+  }
+
+  return stops[stops.length - 1].rgb;
+}
+
+/**
+ * 線形グラデーションのPNG画像を生成
+ * @param gradient グラデーション設定（色は正規化済みのHEX）
+ * @param aspectRatio 幅 / 高さ（スライドの比率に合わせて角度を補正）
+ */
+export function renderLinearGradientPng(gradient: GradientConfig, aspectRatio: number = 16 / 9): Buffer {
+  const stops = [...gradient.stops]
+    .sort((a, b) => a.position - b.position)
+    .map(stop => ({
+      position: stop.position,
+      rgb: [0, 2, 4].map(i => parseInt(stop.color.slice(i, i + 2), 16))
+    }));
+
+  if (stops.length === 0) {
+    throw new Error('Gradient requires at least one color stop');
+  }
+
+  // 方向ベクトル（スライド座標: 右が+x、下が+y）
+  const radians = (gradient.angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const width = aspectRatio;
+  const height = 1;
+  const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+
+  const rgb = Buffer.alloc(IMAGE_WIDTH * IMAGE_HEIGHT * 3);
+  for (let py = 0; py < IMAGE_HEIGHT; py++) {
+    for (let px = 0; px < IMAGE_WIDTH; px++) {
+      const x = ((px + 0.5) / IMAGE_WIDTH - 0.5) * width;
+      const y = ((py + 0.5) / IMAGE_HEIGHT - 0.5) * height;
+      const t = Math.min(Math.max(((x * dx + y * dy) / halfLength + 1) / 2, 0), 1);
+      const color = colorAt(stops, t);
+      const offset = (py * IMAGE_WIDTH + px) * 3;
+      rgb[offset] = Math.round(color[0]);
+      rgb[offset + 1] = Math.round(color[1]);
+      rgb[offset + 2] = Math.round(color[2]);
+    }
+  }
+
+  return encodePng(IMAGE_WIDTH, IMAGE_HEIGHT, rgb);
+}
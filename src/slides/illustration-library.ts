@@ -0,0 +1,260 @@
+import { readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ImageSize, readImageSize } from './image-utils.js';
+import { mixColors } from './color-utils.js';
+
+/**
+ * イラストライブラリ - セクション区切りに表示するイラストをローカルのカタログから選ぶ（ネットワーク不要）
+ *
+ * カタログはイラスト（SVG / PNG）と index.json を置いたディレクトリ:
+ * { "illustrations": [{ "file": "team.svg", "tags": ["team", "チーム"] }] }
+ * SVGの currentColor はブランドカラーに置き換える（PNGはそのまま使う）
+ * 合うイラストがない場合はタイトルから決まる図形のイラストを生成する
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * 同梱のイラストカタログ（assets/illustrations）
+ */
+export const ILLUSTRATIONS_DIR = path.join(__dirname, '../../assets/illustrations');
+
+export interface IllustrationEntry {
+  id: string; // ファイル名（拡張子なし）
+  path: string;
+  format: 'svg' | 'png';
+  tags: string[];
+  size: ImageSize; // SVGは viewBox の大きさ
+}
+
+export interface IllustrationQuery {
+  title: string;
+  keywords: string[]; // セクションの keywords
+  themeKeywords?: string[]; // テーマの illustration.keywords（同じ関連度のイラストの優先順位に使う）
+}
+
+export interface IllustrationImage {
+  data: string; // data URI（pptxgenjs の addImage にそのまま渡す）
+  size: ImageSize;
+  id: string | null; // フォールバックの場合は null
+}
+
+const fallbackSize: ImageSize = { width: 400, height: 300 };
+const reusePenalty = 1.5; // 同じ資料で使用済みのイラストの減点（同じ関連度なら未使用のイラストを選ぶ）
+
+/**
+ * 比較用にキーワード・タグを正規化（全角英数字・大文字小文字の違いを無視）
+ */
+function normalizeTerm(term: string): string {
+  return term.normalize('NFKC').toLowerCase().trim();
+}
+
+/**
+ * SVGの viewBox（または width / height）から大きさを取得
+ */
+function readSvgSize(svg: string): ImageSize | null {
+  const viewBox = svg.match(/<svg\b[^>]*\bviewBox="\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*"/);
+  if (viewBox) return { width: Number(viewBox[1]), height: Number(viewBox[2]) };
+
+  const width = svg.match(/<svg\b[^>]*\bwidth="([\d.]+)(?:px)?"/);
+  const height = svg.match(/<svg\b[^>]*\bheight="([\d.]+)(?:px)?"/);
+  return width && height ? { width: Number(width[1]), height: Number(height[1]) } : null;
+}
+
+/**
+ * カタログを読み込む（index.json の誤り・存在しないファイルはエラー）
+ */
+export function loadIllustrationCatalog(dir: string = ILLUSTRATIONS_DIR): IllustrationEntry[] {
+  const indexPath = path.join(dir, 'index.json');
+  if (!existsSync(indexPath)) {
+    throw new Error(`Illustration index not found: ${indexPath}`);
+  }
+
+  let index: { illustrations?: Array<{ file?: unknown; tags?: unknown }> };
+  try {
+    index = JSON.parse(readFileSync(indexPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse illustration index ${indexPath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!Array.isArray(index.illustrations)) {
+    throw new Error(`Illustration index must have an "illustrations" array: ${indexPath}`);
+  }
+
+  return index.illustrations.map((item, i) => {
+    if (typeof item.file !== 'string' || !Array.isArray(item.tags) || !item.tags.every(tag => typeof tag === 'string')) {
+      throw new Error(`Illustration ${i + 1} in ${indexPath} needs "file" and a "tags" array of strings`);
+    }
+
+    const filePath = path.join(dir, item.file);
+    const extension = path.extname(item.file).toLowerCase();
+    if (extension !== '.svg' && extension !== '.png') {
+      throw new Error(`Unsupported illustration format: ${item.file} (expected .svg or .png)`);
+    }
+    if (!existsSync(filePath)) {
+      throw new Error(`Illustration not found: ${filePath}`);
+    }
+
+    const format = extension === '.svg' ? 'svg' : 'png';
+    const size = format === 'svg' ? readSvgSize(readFileSync(filePath, 'utf-8')) : readImageSize(filePath);
+    if (!size) {
+      throw new Error(`Could not read the size of illustration: ${filePath}`);
+    }
+
+    return {
+      id: path.basename(item.file, extension),
+      path: filePath,
+      format,
+      tags: (item.tags as string[]).map(normalizeTerm).filter(Boolean),
+      size
+    };
+  });
+}
+
+/**
+ * 1語とタグの一致度（完全一致: 3 / 部分一致: 1）
+ */
+function termScore(term: string, tags: string[]): number {
+  const normalized = normalizeTerm(term);
+  if (!normalized) return 0;
+
+  let score = 0;
+  for (const tag of tags) {
+    if (tag === normalized) return 3;
+    if (Math.min(tag.length, normalized.length) >= 2 && (tag.includes(normalized) || normalized.includes(tag))) {
+      score = 1;
+    }
+  }
+  return score;
+}
+
+/**
+ * イラストの関連度（0 は無関係）
+ * セクションの keywords ごとの一致度の合計に、タイトルに含まれるタグ1つにつき 2 を加える
+ */
+export function scoreIllustration(entry: IllustrationEntry, query: IllustrationQuery): number {
+  const keywordScore = query.keywords.reduce((sum, keyword) => sum + termScore(keyword, entry.tags), 0);
+  const title = normalizeTerm(query.title);
+  const titleScore = entry.tags.filter(tag => titleContains(title, tag)).length * 2;
+  return keywordScore + titleScore;
+}
+
+/**
+ * タイトルにタグが含まれるか（英数字のタグは単語単位で照合し、"chat" が "chatgpt" に一致しないようにする）
+ */
+function titleContains(title: string, tag: string): boolean {
+  if (tag.length < 2) return false;
+  if (!/^[a-z0-9]+$/.test(tag)) return title.includes(tag);
+  return title.split(/[^a-z0-9]+/).includes(tag);
+}
+
+/**
+ * 最も関連度の高いイラストを選ぶ（関連するイラストがない場合は null）
+ * 同じ関連度ではテーマの keywords に合うもの、次にカタログの先頭に近いものを選ぶ
+ */
+export function selectIllustration(
+  entries: IllustrationEntry[],
+  query: IllustrationQuery,
+  used: ReadonlySet<string> = new Set()
+): IllustrationEntry | null {
+  let best: { entry: IllustrationEntry; score: number; themeScore: number } | null = null;
+
+  for (const entry of entries) {
+    const relevance = scoreIllustration(entry, query);
+    if (relevance <= 0) continue;
+
+    const score = relevance - (used.has(entry.id) ? reusePenalty : 0);
+    const themeScore = (query.themeKeywords || []).reduce((sum, keyword) => sum + termScore(keyword, entry.tags), 0);
+    if (!best || score > best.score || (score === best.score && themeScore > best.themeScore)) {
+      best = { entry, score, themeScore };
+    }
+  }
+  return best?.entry ?? null;
+}
+
+/**
+ * SVGの currentColor を指定色（"#"なし6桁HEX）に置き換える
+ */
+export function recolorSvg(svg: string, color: string): string {
+  return svg
+    .replace(/currentColor/g, `#${color}`)
+    .replace(/(<svg\b[^>]*\bcolor=")[^"]*(")/, `$1#${color}$2`);
+}
+
+/**
+ * 文字列から決まる疑似乱数（同じシードなら同じ列）
+ */
+function seededRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (const char of seed) {
+    state = Math.imul(state ^ char.codePointAt(0)!, 16777619);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * フォールバックのイラスト（円・角丸四角形・三角形を重ねた抽象図形、シードが同じなら同じ図形）
+ */
+export function fallbackIllustration(seed: string, color: string): string {
+  const random = seededRandom(seed);
+  const between = (min: number, max: number) => Math.round(min + (max - min) * random());
+  const { width, height } = fallbackSize;
+  const shapes: string[] = [
+    `<circle cx="${width / 2}" cy="${height / 2}" r="${height * 0.45}" fill="#${mixColors(color, 'FFFFFF', 0.85)}"/>`
+  ];
+
+  const count = between(4, 6);
+  for (let i = 0; i < count; i++) {
+    const cx = between(100, 300);
+    const cy = between(70, 230);
+    const size = between(30, 80);
+    const fill = `#${mixColors(color, 'FFFFFF', [0, 0.3, 0.55][i % 3])}`;
+    const opacity = (between(60, 95) / 100).toFixed(2);
+    switch (between(0, 2)) {
+      case 0:
+        shapes.push(`<circle cx="${cx}" cy="${cy}" r="${size / 2}" fill="${fill}" fill-opacity="${opacity}"/>`);
+        break;
+      case 1:
+        shapes.push(
+          `<rect x="${cx - size / 2}" y="${cy - size / 2}" width="${size}" height="${size}" rx="${size / 5}" ` +
+          `fill="${fill}" fill-opacity="${opacity}" transform="rotate(${between(-30, 30)} ${cx} ${cy})"/>`
+        );
+        break;
+      default:
+        shapes.push(
+          `<path d="M${cx} ${cy - size / 2} L${cx + size / 2} ${cy + size / 2} L${cx - size / 2} ${cy + size / 2}Z" ` +
+          `fill="${fill}" fill-opacity="${opacity}"/>`
+        );
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}">${shapes.join('')}</svg>`;
+}
+
+/**
+ * スライドに貼るイラスト（合うものがなければフォールバック）
+ * 注: SVGはPowerPoint 2016以降で表示される（Node.jsではPNGの代替画像を生成できないため）
+ */
+export function resolveIllustration(
+  entries: IllustrationEntry[],
+  query: IllustrationQuery,
+  color: string,
+  used: ReadonlySet<string> = new Set()
+): IllustrationImage {
+  const entry = selectIllustration(entries, query, used);
+  if (!entry) {
+    const svg = fallbackIllustration(query.title, color);
+    return { data: `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`, size: fallbackSize, id: null };
+  }
+
+  const data = entry.format === 'svg'
+    ? `data:image/svg+xml;base64,${Buffer.from(recolorSvg(readFileSync(entry.path, 'utf-8'), color)).toString('base64')}`
+    : `data:image/png;base64,${readFileSync(entry.path).toString('base64')}`;
+  return { data, size: entry.size, id: entry.id };
+}
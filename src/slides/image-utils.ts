@@ -0,0 +1,117 @@
+import { readFileSync, existsSync } from 'fs';
+import type { Annotation } from '../types.js';
+
+/**
+ * 画像サイズ（ピクセル）
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * スライド上の矩形領域（インチ）
+ */
+export interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * 画像ファイルのヘッダーからピクセルサイズを取得
+ * 対応形式: PNG / JPEG / GIF（外部ライブラリ不要）
+ * 読み取れない場合は null を返す
+ */
+export function readImageSize(imagePath: string): ImageSize | null {
+  if (!existsSync(imagePath)) return null;
+
+  let buffer: Buffer;
+  try {
+    buffer = readFileSync(imagePath);
+  } catch {
+    return null;
+  }
+
+  // PNG: IHDRチャンクに幅・高さ
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return {
+      width: buffer.readUInt32BE(16),
+      height: buffer.readUInt32BE(20)
+    };
+  }
+
+  // GIF: 論理スクリーン記述子（リトルエンディアン）
+  if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+    return {
+      width: buffer.readUInt16LE(6),
+      height: buffer.readUInt16LE(8)
+    };
+  }
+
+  // JPEG: SOFnマーカーを探索
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        offset++;
+        continue;
+      }
+      const marker = buffer[offset + 1];
+      const segmentLength = buffer.readUInt16BE(offset + 2);
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          width: buffer.readUInt16BE(offset + 7),
+          height: buffer.readUInt16BE(offset + 5)
+        };
+      }
+      offset += 2 + segmentLength;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * アスペクト比を保ったまま領域内に収まる配置を計算（中央寄せ）
+ */
+export function fitImageInBox(size: ImageSize, box: Box): Box {
+  const imageRatio = size.width / size.height;
+  const boxRatio = box.w / box.h;
+
+  let w = box.w;
+  let h = box.h;
+  if (imageRatio > boxRatio) {
+    h = box.w / imageRatio;
+  } else {
+    w = box.h * imageRatio;
+  }
+
+  return {
+    x: box.x + (box.w - w) / 2,
+    y: box.y + (box.h - h) / 2,
+    w,
+    h
+  };
+}
+
+/**
+ * 注釈座標を画像サイズに対する割合（0〜1）に変換
+ * unit 省略時は x・y がともに 1 以下なら割合、どちらかが 1 を超えればピクセル座標とみなす
+ * （軸ごとに判定すると x: 0.5, y: 300 のような混在が起きるため、両軸をまとめて判定する）
+ */
+export function annotationToRatio(
+  annotation: Pick<Annotation, 'x' | 'y' | 'unit'>,
+  size: ImageSize
+): { x: number; y: number } {
+  const unit = annotation.unit ?? (annotation.x <= 1 && annotation.y <= 1 ? 'ratio' : 'px');
+  const ratioX = unit === 'px' ? annotation.x / size.width : annotation.x;
+  const ratioY = unit === 'px' ? annotation.y / size.height : annotation.y;
+  return {
+    x: Math.min(Math.max(ratioX, 0), 1),
+    y: Math.min(Math.max(ratioY, 0), 1)
+  };
+}
@@ -0,0 +1,34 @@
+import { QuizData } from '../types.js';
+
+/**
+ * クイズ用のユーティリティ - 正解の番号・選択肢のラベル
+ */
+
+/**
+ * 選択肢のラベル（0 → "A", 1 → "B", ...）
+ */
+export function choiceLabel(index: number): string {
+  return String.fromCharCode('A'.charCodeAt(0) + index);
+}
+
+/**
+ * 正解の選択肢の番号（1始まり、重複を除いて昇順）
+ */
+export function quizAnswers(quiz: QuizData): number[] {
+  const answers = Array.isArray(quiz.answer) ? quiz.answer : [quiz.answer];
+  return [...new Set(answers)].sort((a, b) => a - b);
+}
+
+/**
+ * 複数選択の問題か（multiple の指定がなければ answer が配列かどうかで判定）
+ */
+export function isMultipleChoice(quiz: QuizData): boolean {
+  return quiz.multiple ?? Array.isArray(quiz.answer);
+}
+
+/**
+ * 正解の表記（例: "B" / "A, C"）
+ */
+export function formatQuizAnswer(quiz: QuizData): string {
+  return quizAnswers(quiz).map(answer => choiceLabel(answer - 1)).join(', ');
+}
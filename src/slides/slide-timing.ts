@@ -0,0 +1,107 @@
+import JSZip from 'jszip';
+
+/**
+ * スライドの自動切り替え・音声自動再生の設定
+ *
+ * pptxgenjsは画面切り替え（advTm）とメディアの自動再生に対応していないため、
+ * 生成したPPTXのスライドXMLに <p:transition> と <p:timing> を直接書き込む。
+ */
+
+/**
+ * ナレーション音声のメディアオブジェクト名（スライドXMLから図形IDを探すために使用）
+ */
+export const NARRATION_MEDIA_NAME = 'Narration Audio';
+
+const AUDIO_RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/audio';
+
+/**
+ * スライドごとのタイミング設定（配列の順番 = スライド番号）
+ */
+export interface SlideTiming {
+  advanceSec: number; // 自動切り替えまでの秒数
+  audioDurationSec?: number; // ナレーション音声の長さ（音声を埋め込んだスライドのみ）
+}
+
+/**
+ * ナレーション音声をスライド表示と同時に再生するタイミングXML
+ * （PowerPointの「自動再生」「スライドショーを実行中にサウンドのアイコンを隠す」と同じ構造）
+ */
+function audioTimingXml(shapeId: string, durationMs: number): string {
+  return '<p:timing><p:tnLst><p:par><p:cTn id="1" dur="indefinite" restart="never" nodeType="tmRoot"><p:childTnLst>'
+    + '<p:par><p:cTn id="2" fill="hold"><p:stCondLst><p:cond delay="indefinite"/><p:cond evt="onBegin" delay="0"><p:tn val="2"/></p:cond></p:stCondLst><p:childTnLst>'
+    + '<p:par><p:cTn id="3" fill="hold"><p:stCondLst><p:cond delay="0"/></p:stCondLst><p:childTnLst>'
+    + '<p:par><p:cTn id="4" presetID="1" presetClass="mediacall" presetSubtype="0" fill="hold" nodeType="afterEffect"><p:stCondLst><p:cond delay="0"/></p:stCondLst><p:childTnLst>'
+    + `<p:cmd type="call" cmd="playFrom(0.0)"><p:cBhvr><p:cTn id="5" dur="${durationMs}" fill="hold"/><p:tgtEl><p:spTgt spid="${shapeId}"/></p:tgtEl></p:cBhvr></p:cmd>`
+    + '</p:childTnLst></p:cTn></p:par></p:childTnLst></p:cTn></p:par></p:childTnLst></p:cTn></p:par>'
+    + '<p:audio><p:cMediaNode vol="80000" showWhenStopped="0"><p:cTn id="6" fill="hold" display="0"><p:stCondLst><p:cond delay="indefinite"/></p:stCondLst>'
+    + '<p:endCondLst><p:cond evt="onStopAudio" delay="0"><p:tgtEl><p:sldTgt/></p:tgtEl></p:cond></p:endCondLst></p:cTn>'
+    + `<p:tgtEl><p:spTgt spid="${shapeId}"/></p:tgtEl></p:cMediaNode></p:audio>`
+    + '</p:childTnLst></p:cTn></p:par></p:tnLst></p:timing>';
+}
+
+/**
+ * スライドXMLに自動切り替えと音声再生の設定を追加
+ */
+export function applyTimingToSlideXml(xml: string, timing: SlideTiming): string {
+  const advanceMs = Math.max(Math.round(timing.advanceSec * 1000), 0);
+  let extra = `<p:transition spd="med" advTm="${advanceMs}"/>`;
+
+  if (timing.audioDurationSec !== undefined) {
+    const shapeId = xml.match(new RegExp(`<p:cNvPr id="(\\d+)" name="${NARRATION_MEDIA_NAME}"`))?.[1];
+    if (shapeId) {
+      extra += audioTimingXml(shapeId, Math.round(timing.audioDurationSec * 1000));
+      // pptxgenjsは音声も <a:videoFile> として書き出すため、ナレーションは <a:audioFile> に直す
+      // （参照先のリレーションシップの種類は applyAudioRelationship で audio に揃える）
+      xml = xml.replace(
+        new RegExp(`(name="${NARRATION_MEDIA_NAME}"[\\s\\S]*?)<a:videoFile `),
+        '$1<a:audioFile '
+      );
+    }
+  }
+
+  // <p:transition> と <p:timing> は <p:clrMapOvr> の直後に置く必要がある
+  return xml.replace('</p:clrMapOvr>', `</p:clrMapOvr>${extra}`);
+}
+
+/**
+ * ナレーション音声の <a:audioFile> が参照するリレーションシップID
+ */
+export function narrationAudioLink(xml: string): string | null {
+  return xml.match(new RegExp(`name="${NARRATION_MEDIA_NAME}"[\\s\\S]*?<a:audioFile r:link="([^"]+)"`))?.[1] ?? null;
+}
+
+/**
+ * スライドのリレーションシップXMLで、指定したIDの種類を audio にする
+ * （<a:audioFile> の参照先が video のままだとPowerPointが修復を求めることがある）
+ */
+export function applyAudioRelationship(relsXml: string, relationshipId: string): string {
+  return relsXml.replace(
+    new RegExp(`<Relationship\\b[^>]*\\bId="${relationshipId}"[^>]*/>`),
+    relationship => relationship.replace(/\bType="[^"]*"/, `Type="${AUDIO_RELATIONSHIP_TYPE}"`)
+  );
+}
+
+/**
+ * PPTXの各スライドにタイミング設定を書き込む
+ */
+export async function applySlideTimings(pptx: Buffer, timings: SlideTiming[]): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(pptx);
+
+  for (const [index, timing] of timings.entries()) {
+    const slidePath = `ppt/slides/slide${index + 1}.xml`;
+    const file = zip.file(slidePath);
+    if (!file) continue;
+
+    const xml = applyTimingToSlideXml(await file.async('string'), timing);
+    zip.file(slidePath, xml);
+
+    const audioLink = narrationAudioLink(xml);
+    const relsPath = `ppt/slides/_rels/slide${index + 1}.xml.rels`;
+    const relsFile = zip.file(relsPath);
+    if (audioLink && relsFile) {
+      zip.file(relsPath, applyAudioRelationship(await relsFile.async('string'), audioLink));
+    }
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,77 @@
+import { Section } from '../types.js';
+import { choiceLabel, formatQuizAnswer, quizAnswers } from './quiz-utils.js';
+import { stripSpeechMarkup } from '../narration/speech-markup.js';
+
+/**
+ * スピーカーノート生成 - ナレーション原稿を発表者ノートに書き出す
+ *
+ * ノートには読み上げ辞書を適用する前の原文をそのまま使う
+ * （辞書はTTS用の読み替えのため、発表者が読む原稿には適用しない、読み上げ記法も取り除く）
+ */
+
+// 「目安: 30分」「目安時間：1分」「レッスン1 (5分)」などの時間表記
+const timingPattern = /(?:[（(]|目安[^:：\d]*[:：]?)\s*(\d+(?:\.\d+)?)\s*(分|秒)/;
+
+/**
+ * サブタイトルから時間の目安を抽出（見つからなければ null）
+ */
+export function extractTimingHint(subtitle: string | undefined): string | null {
+  if (!subtitle) return null;
+
+  const match = subtitle.match(timingPattern);
+  return match ? `${match[1]}${match[2]}` : null;
+}
+
+/**
+ * セクションのスピーカーノート本文を生成（ナレーション・会話も目安時間もなければ空文字）
+ */
+export function buildSpeakerNotes(section: Section): string {
+  const lines: string[] = [];
+
+  const timing = extractTimingHint(section.subtitle);
+  if (timing) {
+    lines.push(`目安時間: ${timing}`);
+  }
+
+  const narration = section.narration ? stripSpeechMarkup(section.narration).trim() : '';
+  if (narration) {
+    if (lines.length > 0) lines.push('');
+    lines.push(narration);
+  }
+
+  // 会話形式のナレーションは「話者: セリフ」の行で書き出す
+  const dialogue = (section.dialogue || [])
+    .map(line => ({ speaker: line.speaker, text: stripSpeechMarkup(line.text).trim() }))
+    .filter(line => line.text);
+  if (dialogue.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push(...dialogue.map(line => `${line.speaker}: ${line.text}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 講師用ビルドの解答スライドのスピーカーノート（クイズの正解・解説、演習の解答例）
+ */
+export function buildAnswerKeyNotes(section: Section): string {
+  const lines: string[] = [];
+
+  if (section.quiz) {
+    const { quiz } = section;
+    lines.push(`正解: ${formatQuizAnswer(quiz)}`);
+    for (const answer of quizAnswers(quiz)) {
+      const choice = quiz.choices[answer - 1];
+      if (choice !== undefined) lines.push(`${choiceLabel(answer - 1)}. ${choice}`);
+    }
+    if (quiz.explanation?.trim()) {
+      lines.push('', `解説: ${quiz.explanation.trim()}`);
+    }
+  }
+
+  if (section.exercise?.expectedOutput?.trim()) {
+    lines.push('解答例:', section.exercise.expectedOutput.trim());
+  }
+
+  return lines.join('\n');
+}
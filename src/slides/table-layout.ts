@@ -0,0 +1,135 @@
+import { TableData } from '../types.js';
+import { measureTextEm, estimateTextHeight } from './text-measure.js';
+
+export type CellAlign = 'left' | 'center' | 'right';
+
+/**
+ * テーブルのレイアウト計算結果
+ */
+export interface TableLayout {
+  colW: number[]; // 列幅（インチ）
+  aligns: CellAlign[]; // 列ごとの配置
+  fontSize: number;
+  headerHeight: number; // ヘッダー行の高さ（インチ）
+  rowHeights: number[]; // データ行の高さ（インチ）
+  pages: number[][]; // ページごとのデータ行インデックス
+}
+
+/**
+ * レイアウト領域の指定
+ */
+export interface TableArea {
+  width: number; // テーブル全体の幅（インチ）
+  height: number; // ヘッダーを含めて使える高さ（インチ）
+}
+
+// セル内余白（上下・左右の合計、インチ）
+const CELL_PADDING = 0.16;
+const MIN_COLUMN_WIDTH = 0.6;
+const MIN_COLUMN_EM = 2.5;
+const MAX_COLUMN_EM = 30;
+const MIN_ROW_HEIGHT = 0.4;
+
+// 数値・記号のみの列は中央揃え（例: "1", "20ドル", "○", "×"）
+const compactCellPattern = /^[\d,.%¥$＄+\-−/～〜()（）○×△◎✓✗ ]*$/;
+
+/**
+ * 列数に応じたフォントサイズ
+ */
+function fontSizeForColumns(columnCount: number): number {
+  if (columnCount <= 3) return 13;
+  if (columnCount <= 4) return 12;
+  return 11;
+}
+
+/**
+ * 列幅を計算
+ * - 幅指定のある列はその値を使用
+ * - 残りの幅は各列の内容量（ヘッダー・セルの最長テキスト）に比例して配分
+ */
+function computeColumnWidths(table: TableData, totalWidth: number): number[] {
+  const columnCount = table.headers.length;
+  const hints = table.columns || [];
+
+  const weights = table.headers.map((header, col) => {
+    const cellEms = table.rows.map(row => measureTextEm(row[col] || ''));
+    const longest = Math.max(measureTextEm(header), ...cellEms);
+    return Math.min(Math.max(longest, MIN_COLUMN_EM), MAX_COLUMN_EM);
+  });
+
+  const fixedWidth = hints.reduce((sum, hint, col) => (
+    col < columnCount && hint?.width ? sum + hint.width : sum
+  ), 0);
+  const flexibleWeight = weights.reduce((sum, weight, col) => (
+    hints[col]?.width ? sum : sum + weight
+  ), 0);
+  const remaining = Math.max(totalWidth - fixedWidth, 0);
+
+  const widths = weights.map((weight, col) => {
+    const hinted = hints[col]?.width;
+    if (hinted) return hinted;
+    return Math.max((remaining * weight) / (flexibleWeight || 1), MIN_COLUMN_WIDTH);
+  });
+
+  // 最小幅の保証や幅指定で合計が変わった場合は全体幅に合わせて調整
+  const sum = widths.reduce((a, b) => a + b, 0);
+  return widths.map(w => Number(((w * totalWidth) / sum).toFixed(3)));
+}
+
+/**
+ * 列ごとの配置を決定（指定がなければ内容から推定）
+ */
+function computeAlignments(table: TableData): CellAlign[] {
+  return table.headers.map((_, col) => {
+    const hinted = table.columns?.[col]?.align;
+    if (hinted) return hinted;
+
+    const cells = table.rows.map(row => (row[col] || '').trim()).filter(cell => cell.length > 0);
+    const isCompact = cells.length > 0 && cells.every(cell => compactCellPattern.test(cell));
+    return isCompact ? 'center' : 'left';
+  });
+}
+
+/**
+ * 行の高さ（最も行数の多いセルに合わせる）
+ */
+function rowHeight(cells: string[], colW: number[], fontSize: number): number {
+  const lineSpacing = fontSize * 1.2;
+  const heights = colW.map((width, col) => (
+    estimateTextHeight(cells[col] || '', fontSize, width, lineSpacing) + CELL_PADDING
+  ));
+  return Math.max(MIN_ROW_HEIGHT, ...heights);
+}
+
+/**
+ * テーブルのレイアウトを計算
+ * 領域の高さに収まらない行は次ページ（ヘッダー行を繰り返す）に送る
+ */
+export function layoutTable(table: TableData, area: TableArea): TableLayout {
+  const fontSize = fontSizeForColumns(table.headers.length);
+  const colW = computeColumnWidths(table, area.width);
+  const aligns = computeAlignments(table);
+
+  const headerHeight = rowHeight(table.headers, colW, fontSize);
+  const rowHeights = table.rows.map(row => rowHeight(row, colW, fontSize));
+
+  const pages: number[][] = [];
+  let current: number[] = [];
+  let used = headerHeight;
+
+  rowHeights.forEach((height, index) => {
+    if (current.length > 0 && used + height > area.height) {
+      pages.push(current);
+      current = [];
+      used = headerHeight;
+    }
+    current.push(index);
+    used += height;
+  });
+
+  if (current.length > 0 || pages.length === 0) {
+    pages.push(current);
+  }
+
+  return { colW, aligns, fontSize, headerHeight, rowHeights, pages };
+}
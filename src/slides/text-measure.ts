@@ -0,0 +1,91 @@
+/**
+ * テキスト計測 - 全角/半角を考慮した行数・高さの推定
+ *
+ * PowerPointの実際の描画は行わず、文字幅の近似値から推定する:
+ * - 全角文字（漢字・かな・全角記号・絵文字）: 1em
+ * - 半角文字（英数字・半角記号）: 0.6em
+ */
+
+// テキストボックスの左右内部余白（インチ、pptxgenjsの既定値）
+const BOX_INSET = 0.2;
+
+const HALF_WIDTH_EM = 0.6;
+
+const fullWidthPattern =
+  /[\u1100-\u115F\u2E80-\u303E\u3040-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]|[\uD800-\uDBFF][\uDC00-\uDFFF]/;
+
+/**
+ * 1文字が全角幅かどうか
+ */
+export function isFullWidth(char: string): boolean {
+  return fullWidthPattern.test(char);
+}
+
+/**
+ * テキストの表示幅（em単位）
+ */
+export function measureTextEm(text: string): number {
+  let em = 0;
+  for (const char of text) {
+    em += isFullWidth(char) ? 1 : HALF_WIDTH_EM;
+  }
+  return em;
+}
+
+/**
+ * 指定幅のボックスで折り返した場合の行数
+ * 改行（\n）は段落区切りとして扱い、空行も1行と数える
+ */
+export function countWrappedLines(text: string, fontSize: number, boxWidth: number): number {
+  const emPerLine = Math.max((boxWidth - BOX_INSET) / (fontSize / 72), 1);
+
+  return text.split('\n').reduce((total, paragraph) => {
+    const em = measureTextEm(paragraph);
+    return total + Math.max(Math.ceil(em / emPerLine), 1);
+  }, 0);
+}
+
+/**
+ * 折り返しを考慮したテキストの高さ（インチ）
+ * @param lineSpacing 行間（ポイント）
+ */
+export function estimateTextHeight(
+  text: string,
+  fontSize: number,
+  boxWidth: number,
+  lineSpacing: number
+): number {
+  return (countWrappedLines(text, fontSize, boxWidth) * lineSpacing) / 72;
+}
+
+/**
+ * 文単位でテキストを分割し、各グループが最大高さに収まるようにまとめる
+ * 1文だけで最大高さを超える場合はそのまま1グループとする
+ */
+export function splitTextToFit(
+  text: string,
+  fontSize: number,
+  boxWidth: number,
+  lineSpacing: number,
+  maxHeight: number
+): string[] {
+  const sentences = text.split(/(?<=[。！？!?\n])/).filter(s => s.length > 0);
+  const groups: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    const candidate = current + sentence;
+    if (current && estimateTextHeight(candidate.trim(), fontSize, boxWidth, lineSpacing) > maxHeight) {
+      groups.push(current.trim());
+      current = sentence;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current.trim()) {
+    groups.push(current.trim());
+  }
+
+  return groups;
+}
@@ -0,0 +1,90 @@
+import { readFileSync, existsSync, readdirSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Theme } from '../types.js';
+import { defaultTheme } from '../templates.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * 同梱テーマのディレクトリ（src/themes/*.json）
+ * tsc はJSONを dist/ にコピーしないため、src/slides・dist/slides のどちらから読み込まれても
+ * プロジェクトルート基準で src/themes を参照する
+ */
+export const THEMES_DIR = path.join(__dirname, '../../src/themes');
+
+// extends の循環参照を防ぐための上限
+const MAX_EXTENDS_DEPTH = 5;
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * テーマを再帰的にマージ（配列・プリミティブ・null は上書き）
+ */
+function mergeTheme<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const merged: PlainObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = key in base ? mergeTheme(base[key], value) : value;
+  }
+  return merged as T;
+}
+
+/**
+ * テーマ名またはパスからテーマJSONのパスを解決
+ */
+function resolveThemePath(nameOrPath: string): string {
+  if (nameOrPath.endsWith('.json') || nameOrPath.includes('/') || nameOrPath.includes('\\')) {
+    return path.resolve(nameOrPath);
+  }
+  return path.join(THEMES_DIR, `${nameOrPath}.json`);
+}
+
+/**
+ * 同梱テーマ名の一覧
+ */
+export function listThemes(): string[] {
+  if (!existsSync(THEMES_DIR)) return ['default'];
+  const names = readdirSync(THEMES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''));
+  return ['default', ...names];
+}
+
+/**
+ * テーマを読み込む
+ * - 未指定または "default" の場合はデフォルトテーマ
+ * - テーマJSONは extends で指定したテーマ（未指定時はデフォルト）に上書きマージされる
+ */
+export function loadTheme(nameOrPath?: string, depth: number = 0): Theme {
+  if (!nameOrPath || nameOrPath === 'default') {
+    return defaultTheme;
+  }
+
+  if (depth > MAX_EXTENDS_DEPTH) {
+    throw new Error(`Theme "extends" is nested too deeply (possible cycle): ${nameOrPath}`);
+  }
+
+  const themePath = resolveThemePath(nameOrPath);
+  if (!existsSync(themePath)) {
+    throw new Error(`Theme not found: ${nameOrPath} (available: ${listThemes().join(', ')})`);
+  }
+
+  let override: Partial<Theme>;
+  try {
+    override = JSON.parse(readFileSync(themePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse theme ${themePath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const base = loadTheme(override.extends, depth + 1);
+  return mergeTheme(base, { ...override, name: override.name || nameOrPath });
+}
@@ -1,22 +1,73 @@
-import { SlideTemplate } from './types.js';
+import { SlideTemplate, BrandingConfig, SectionType, Theme } from './types.js';
+import { normalizeColor, darken, lighten } from './slides/color-utils.js';
 
 /**
  * Stella Co., Ltd.のブランドカラーに基づいたスライドテンプレート
+ * 色はHEX（"FFFFFF"）またはパレット名（"primary" / "text" など）で指定
+ * 位置・サイズはインチ（13.33 x 7.5）
  */
-export const slideTemplates: Record<string, SlideTemplate> = {
+export const slideTemplates: Record<SectionType, SlideTemplate> = {
   // タイトルスライド
   title: {
     layout: 'titleOnly',
-    background: '#FFFFFF',
+    background: 'background',
+    accentLine: { x: 0, y: 0, w: 13.33, h: 0.05, color: 'primary' },
+    logo: { x: 0.5, y: 0.5, w: 2.5, h: 0.58, fontSize: 14 }, // タイトルスライドのみ大きめ
     titleStyle: {
-      fontSize: 32,
+      x: 0.8,
+      y: 2,
+      w: 11.7,
+      h: 1.5,
+      fontSize: 36,
       bold: true,
-      color: '333333',
+      color: 'text',
+      align: 'left',
+      lineSpacing: 40
+    },
+    subtitleStyle: {
+      x: 0.8,
+      y: 3.7,
+      w: 11.7,
+      h: 0.6,
+      fontSize: 18,
+      color: 'textLight',
       align: 'left'
     },
     contentStyle: {
+      x: 1.5,
+      y: 4.5,
+      w: 11,
+      h: 2.2,
+      fontSize: 15,
+      color: 'textLight',
+      align: 'left',
+      valign: 'top',
+      lineSpacing: 32
+    }
+  },
+
+  // アジェンダスライド（後続のセクション区切りから自動生成）
+  agenda: {
+    layout: 'bulletPoints',
+    background: 'background',
+    accentLine: { x: 0, y: 0.7, w: 13.33, h: 0.02, color: 'primary' },
+    titleStyle: {
+      x: 0.5,
+      y: 0.85,
+      w: 10.5,
+      h: 0.7,
+      fontSize: 22,
+      bold: true,
+      color: 'text',
+      align: 'left'
+    },
+    contentStyle: {
+      x: 1.2,
+      y: 1.9,
+      w: 10.9,
+      h: 4.8,
       fontSize: 18,
-      color: '666666',
+      color: 'text',
       align: 'left'
     }
   },
@@ -28,15 +79,21 @@ export const slideTemplates: Record<string, SlideTemplate> = {
       type: 'linear',
       angle: 135,
       stops: [
-        { position: 0, color: '5FB8A6' }, // ターコイズグリーン
-        { position: 100, color: '4A9D8E' } // ダークターコイズ
+        { position: 0, color: 'primary' }, // ターコイズグリーン
+        { position: 100, color: 'secondary' } // ダークターコイズ
       ]
     },
+    darkBackground: true,
     titleStyle: {
+      x: 1,
+      y: 2,
+      w: 6,
+      h: 2,
       fontSize: 48,
       bold: true,
       color: 'FFFFFF',
-      align: 'left'
+      align: 'left',
+      valign: 'middle'
     },
     illustration: {
       position: 'right',
@@ -49,16 +106,104 @@ export const slideTemplates: Record<string, SlideTemplate> = {
   // コンテンツスライド（箇条書き）
   content: {
     layout: 'bulletPoints',
-    background: '#FFFFFF',
+    background: 'background',
+    accentLine: { x: 0, y: 0.7, w: 13.33, h: 0.02, color: 'primary' },
     titleStyle: {
-      fontSize: 28,
+      x: 0.5,
+      y: 0.85,
+      w: 10.5,
+      h: 0.7,
+      fontSize: 22,
       bold: true,
-      color: '333333',
+      color: 'text',
       align: 'left'
     },
+    subtitleStyle: {
+      x: 11.2,
+      y: 0.88,
+      w: 1.8,
+      h: 0.4,
+      fontSize: 11,
+      color: 'textMuted',
+      align: 'right'
+    },
     contentStyle: {
-      fontSize: 18,
-      color: '333333',
+      x: 0.8,
+      y: 1.8,
+      w: 11.7,
+      h: 4.7,
+      fontSize: 14,
+      color: 'text',
+      align: 'left'
+    }
+  },
+
+  // 比較スライド（列ごとの見出し + 箇条書き、列の間に VS を表示）
+  comparison: {
+    layout: 'comparison',
+    background: 'background',
+    accentLine: { x: 0, y: 0.7, w: 13.33, h: 0.02, color: 'primary' },
+    titleStyle: {
+      x: 0.5,
+      y: 0.85,
+      w: 10.5,
+      h: 0.7,
+      fontSize: 22,
+      bold: true,
+      color: 'text',
+      align: 'left'
+    },
+    subtitleStyle: {
+      x: 11.2,
+      y: 0.88,
+      w: 1.8,
+      h: 0.4,
+      fontSize: 11,
+      color: 'textMuted',
+      align: 'right'
+    },
+    contentStyle: {
+      x: 0.8,
+      y: 1.8,
+      w: 11.7,
+      h: 4.7,
+      fontSize: 14,
+      color: 'text',
+      align: 'left'
+    }
+  },
+
+  // 2カラムスライド（列ごとの見出し + 箇条書き）
+  twoColumn: {
+    layout: 'twoColumn',
+    background: 'background',
+    accentLine: { x: 0, y: 0.7, w: 13.33, h: 0.02, color: 'primary' },
+    titleStyle: {
+      x: 0.5,
+      y: 0.85,
+      w: 10.5,
+      h: 0.7,
+      fontSize: 22,
+      bold: true,
+      color: 'text',
+      align: 'left'
+    },
+    subtitleStyle: {
+      x: 11.2,
+      y: 0.88,
+      w: 1.8,
+      h: 0.4,
+      fontSize: 11,
+      color: 'textMuted',
+      align: 'right'
+    },
+    contentStyle: {
+      x: 0.8,
+      y: 1.8,
+      w: 11.7,
+      h: 4.7,
+      fontSize: 14,
+      color: 'text',
       align: 'left'
     }
   },
@@ -66,56 +211,234 @@ export const slideTemplates: Record<string, SlideTemplate> = {
   // テーブルスライド
   table: {
     layout: 'table',
-    background: '#FFFFFF',
+    background: 'background',
     titleStyle: {
-      fontSize: 28,
+      x: 0.5,
+      y: 0.4,
+      w: 12,
+      h: 0.7,
+      fontSize: 24,
       bold: true,
-      color: '333333',
+      color: 'text',
       align: 'left'
     },
     contentStyle: {
-      fontSize: 16,
-      color: '333333',
+      x: 0.5,
+      y: 1.5,
+      w: 12.3,
+      h: 5.3,
+      fontSize: 12,
+      color: 'text',
       align: 'center'
     }
   },
 
+  // グラフスライド（PowerPointのネイティブグラフ）
+  chart: {
+    layout: 'chart',
+    background: 'background',
+    titleStyle: {
+      x: 0.5,
+      y: 0.4,
+      w: 12,
+      h: 0.7,
+      fontSize: 24,
+      bold: true,
+      color: 'text',
+      align: 'left'
+    },
+    contentStyle: {
+      x: 0.8,
+      y: 1.4,
+      w: 11.7,
+      h: 5.4,
+      fontSize: 12,
+      color: 'text',
+      align: 'left'
+    }
+  },
+
+  // フロー図スライド（DSLから自動レイアウトした図形と矢印）
+  diagram: {
+    layout: 'diagram',
+    background: 'background',
+    accentLine: { x: 0, y: 0.7, w: 13.33, h: 0.02, color: 'primary' },
+    titleStyle: {
+      x: 0.5,
+      y: 0.85,
+      w: 10.5,
+      h: 0.7,
+      fontSize: 22,
+      bold: true,
+      color: 'text',
+      align: 'left'
+    },
+    subtitleStyle: {
+      x: 11.2,
+      y: 0.88,
+      w: 1.8,
+      h: 0.4,
+      fontSize: 11,
+      color: 'textMuted',
+      align: 'right'
+    },
+    contentStyle: {
+      x: 0.8,
+      y: 1.8,
+      w: 11.7,
+      h: 4.7,
+      fontSize: 14,
+      color: 'text',
+      align: 'left'
+    }
+  },
+
   // コードブロックスライド
   codeBlock: {
     layout: 'code',
-    background: '#FFFFFF',
+    background: 'background',
     titleStyle: {
-      fontSize: 28,
+      x: 0.5,
+      y: 0.4,
+      w: 12,
+      h: 0.7,
+      fontSize: 24,
       bold: true,
-      color: '333333',
+      color: 'text',
       align: 'left'
     },
     contentStyle: {
-      fontSize: 14,
+      x: 0.8,
+      y: 1.5,
+      w: 11.7,
+      h: 5,
+      fontSize: 13,
       color: 'FFFFFF',
       align: 'left',
-      font: 'Courier New'
+      font: 'Consolas'
     }
   },
 
   // スクリーンショットスライド
   screenshot: {
     layout: 'image',
-    background: '#FFFFFF',
+    background: 'backgroundLight',
     titleStyle: {
+      x: 0.5,
+      y: 0.5,
+      w: 12,
+      h: 0.8,
       fontSize: 28,
       bold: true,
-      color: '333333',
+      color: 'text',
+      align: 'left'
+    },
+    subtitleStyle: {
+      x: 0.5,
+      y: 1.5,
+      w: 12,
+      h: 0.8,
+      fontSize: 16,
+      color: 'textLight',
       align: 'left'
     },
     contentStyle: {
+      x: 0.8,
+      y: 1.5,
+      w: 11.7,
+      h: 5.3,
       fontSize: 16,
-      color: '666666',
+      color: 'textLight',
+      align: 'left'
+    }
+  },
+
+  // クイズスライド（問題 + A, B, C... の選択肢、講師用ビルドでは解答スライドを追加）
+  quiz: {
+    layout: 'quiz',
+    background: 'background',
+    accentLine: { x: 0, y: 0.7, w: 13.33, h: 0.02, color: 'primary' },
+    titleStyle: {
+      x: 0.5,
+      y: 0.85,
+      w: 10.5,
+      h: 0.7,
+      fontSize: 22,
+      bold: true,
+      color: 'text',
+      align: 'left'
+    },
+    subtitleStyle: {
+      x: 11.2,
+      y: 0.88,
+      w: 1.8,
+      h: 0.4,
+      fontSize: 11,
+      color: 'textMuted',
+      align: 'right'
+    },
+    contentStyle: {
+      x: 0.8,
+      y: 1.8,
+      w: 11.7,
+      h: 4.7,
+      fontSize: 14,
+      color: 'text',
+      align: 'left'
+    }
+  },
+
+  // 演習スライド（ゴール + 番号付きの手順 + 制限時間、講師用ビルドでは解答例スライドを追加）
+  exercise: {
+    layout: 'exercise',
+    background: 'background',
+    accentLine: { x: 0, y: 0.7, w: 13.33, h: 0.02, color: 'primary' },
+    titleStyle: {
+      x: 0.5,
+      y: 0.85,
+      w: 10.5,
+      h: 0.7,
+      fontSize: 22,
+      bold: true,
+      color: 'text',
+      align: 'left'
+    },
+    subtitleStyle: {
+      x: 11.2,
+      y: 0.88,
+      w: 1.8,
+      h: 0.4,
+      fontSize: 11,
+      color: 'textMuted',
+      align: 'right'
+    },
+    contentStyle: {
+      x: 0.8,
+      y: 1.8,
+      w: 11.7,
+      h: 4.7,
+      fontSize: 14,
+      color: 'text',
       align: 'left'
     }
   }
 };
 
+/**
+ * デフォルトテーマ（テーマJSONはこれを基準に上書きする）
+ */
+export const defaultTheme: Theme = {
+  name: 'default',
+  description: 'Stella標準テーマ（白背景 + ブランドカラーのアクセント）',
+  logo: { x: 0.3, y: 0.25, w: 1.5, h: 0.35, show: true, fontSize: 11 },
+  footer: {
+    copyright: { x: 0.3, y: 7.1, w: 3, h: 0.3, show: true, fontSize: 9, align: 'left' },
+    pageNumber: { x: 12.5, y: 7.1, w: 0.5, h: 0.3, show: true, fontSize: 11, align: 'right' }
+  },
+  progressTracker: { x: 3.6, y: 7.1, w: 8.6, h: 0.3, fontSize: 9, labelWidth: 3.2 },
+  slides: slideTemplates
+};
+
 /**
  * ブランドカラーパレット（まじん式v3準拠）
  * Stella Co., Ltd.のブランドカラーから派生色を生成
@@ -124,6 +447,7 @@ export const brandColors = {
   primary: '5FB8A6', // ターコイズグリーン（メインカラー）
   secondary: '4A9D8E', // ダークターコイズ
   accent: '3D8A7D', // さらに濃いターコイズ
+  primaryTint: 'E7F4F2', // 薄いターコイズ（強調背景）
   text: '333333', // ダークグレー（本文）
   textLight: '666666', // ライトグレー（補助テキスト）
   textMuted: '999999', // さらにライト（時間表示等）
@@ -134,6 +458,62 @@ export const brandColors = {
   success: '27AE60' // グリーン
 };
 
+export type BrandColors = typeof brandColors;
+
+/**
+ * 既定フォント（BrandingConfig.font 未指定時）
+ */
+export const defaultFont = 'Yu Gothic';
+
+/**
+ * BrandingConfigからカラーパレットを生成
+ * - primaryColor から secondary / accent / tint を派生
+ * - secondaryColor が指定されていればそれを優先
+ * - Stellaのブランドカラーの場合は調整済みの brandColors をそのまま使用
+ */
+export function createBrandColors(branding: BrandingConfig): BrandColors {
+  const primary = normalizeColor(branding.primaryColor);
+  const secondary = normalizeColor(branding.secondaryColor);
+
+  if (!primary) {
+    console.warn(`⚠️  Invalid primaryColor "${branding.primaryColor}", using default brand colors`);
+  }
+
+  if (!primary || primary === brandColors.primary) {
+    return { ...brandColors, secondary: secondary || brandColors.secondary };
+  }
+
+  return {
+    ...brandColors,
+    primary,
+    secondary: secondary || darken(primary, 0.15),
+    accent: darken(primary, 0.3),
+    primaryTint: lighten(primary, 0.85)
+  };
+}
+
+/**
+ * コードブロックの配色（ダークテーマ）
+ * トークン種別ごとの文字色と、背景・行番号・強調行の色
+ */
+export const codeColors = {
+  background: '2D2D2D',
+  lineNumber: '858585',
+  highlightLine: '3A4A47',
+  tokens: {
+    plain: 'E6E6E6',
+    keyword: '569CD6',
+    string: 'CE9178',
+    number: 'B5CEA8',
+    comment: '6A9955',
+    function: 'DCDCAA',
+    property: '9CDCFE',
+    variable: '4EC9B0',
+    punctuation: 'C8C8C8',
+    heading: '5FB8A6'
+  }
+};
+
 /**
  * まじん式v3デザインルール
  *
@@ -148,6 +528,9 @@ export const brandColors = {
  * - 四角記号（■）禁止
  * - 箇条書き文末の句点（。）禁止（体言止め推奨）
  *
+ * ■ はみ出し対策
+ * - 本文は12ptまで縮小、それでも収まらない場合は「(1/2)」「(2/2)」の継続スライドに分割
+ *
  * ■ デザイン原則
  * - カラー: 2-3色統一（Stellaブランド + グレー階調 + アクセント1色）
  * - 余白: 適切な余白と行間を確保
@@ -164,6 +547,9 @@ export const designRules = {
       subhead: 2
     }
   },
+  overflow: {
+    minFontSize: 12 // 本文を縮小できる下限（これ以上は継続スライドに分割）
+  },
   forbidden: {
     symbols: ['→', '■', '⇒', '▶'],
     punctuation: ['。'], // 箇条書き文末のみ
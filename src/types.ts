@@ -4,9 +4,18 @@ export interface ScriptInput {
   title: string;
   duration: string; // "15分"
   branding: BrandingConfig;
+  theme?: string; // テーマ名（"corporate" | "seminar" | "dark"）またはテーマJSONのパス
+  illustrations?: string; // 独自のイラストカタログのディレクトリ（index.json を含む、同梱のカタログより優先）
+  narrationPlacement?: NarrationPlacement; // ナレーションの表示先（デフォルト: "slide"）
+  progressTracker?: boolean; // 本文スライドに現在の部（セクション区切り）の進捗を表示
+  voice?: string; // ナレーションの声（TTSプロバイダーの声の名前、未指定時はプロバイダーの既定の声）
+  speakers?: Record<string, string>; // 会話形式のナレーションの話者名 → 声（{ "講師": "Charon", "受講生": "Puck" }）
   sections: Section[];
 }
 
+// "slide": スライド本文とスピーカーノートの両方 / "notes": スピーカーノートのみ
+export type NarrationPlacement = 'slide' | 'notes';
+
 export interface BrandingConfig {
   company: string;
   logo?: string; // ロゴ画像のパス
@@ -15,28 +24,102 @@ export interface BrandingConfig {
   font?: string;
 }
 
+export type SectionType =
+  | 'title'
+  | 'agenda'
+  | 'sectionDivider'
+  | 'content'
+  | 'comparison'
+  | 'twoColumn'
+  | 'table'
+  | 'chart'
+  | 'diagram'
+  | 'codeBlock'
+  | 'screenshot'
+  | 'quiz'
+  | 'exercise';
+
 export interface Section {
-  type: 'title' | 'sectionDivider' | 'content' | 'table' | 'codeBlock' | 'screenshot';
+  type: SectionType;
   title: string;
   subtitle?: string;
   narration?: string;
   bullets?: string[];
-  keywords?: string[]; // イラスト検索用
+  columns?: ColumnContent[]; // comparison / twoColumn の各列（左から順）
+  keywords?: string[]; // セクション区切りのイラスト選択用（イラストカタログのタグと照合）
   table?: TableData;
+  chart?: ChartData;
+  diagram?: DiagramData;
   code?: CodeBlock;
   screenshot?: ScreenshotData;
+  quiz?: QuizData;
+  exercise?: ExerciseData;
+  voice?: string; // このセクションのナレーションの声（台本の voice より優先）
+  dialogue?: DialogueLine[]; // 会話形式のナレーション（指定時は narration の代わりに読み上げる）
+}
+
+/**
+ * 会話形式のナレーションの1行（speaker は台本の speakers に定義した話者名）
+ */
+export interface DialogueLine {
+  speaker: string;
+  text: string; // 読み上げ記法を使える
+}
+
+export interface ColumnContent {
+  heading: string;
+  bullets?: string[];
+  color?: string; // 見出しのアイコン・アクセントの色（未指定時はブランドカラーなど）
+  image?: string; // 見出しの下に表示する画像のパス
 }
 
 export interface TableData {
   headers: string[];
   rows: string[][];
   headerColor?: string;
+  columns?: TableColumn[]; // 列ごとの幅・配置の指定（headersと同じ順）
+  zebra?: boolean; // 縞模様（デフォルト: true）
+}
+
+export interface TableColumn {
+  width?: number; // インチ（未指定の列は内容量に応じて自動配分）
+  align?: 'left' | 'center' | 'right';
+}
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'doughnut';
+
+export interface ChartData {
+  type: ChartType;
+  labels: string[]; // カテゴリ（横軸・円グラフの項目）
+  series: ChartSeries[]; // 円グラフ・ドーナツグラフは最初の系列のみ使用
+  horizontal?: boolean; // 横棒グラフ（bar のみ）
+  stacked?: boolean; // 積み上げ（bar のみ）
+  showValues?: boolean; // データラベル（デフォルト: true）
+  valueFormat?: string; // 数値の表示形式（Excelの書式、例: "#,##0" / "0.0%"）
+  unit?: string; // 値の単位（軸ラベル・データラベルの末尾に表示、例: "万人"）
+  colors?: string[]; // 系列（円グラフは項目）ごとの色（未指定時はブランドカラーから生成）
+  source?: string; // 出典（グラフ下の脚注）
+}
+
+export interface ChartSeries {
+  name: string;
+  values: number[]; // labels と同じ順・同じ数
+}
+
+// "horizontal": 左から右へ流れる / "vertical": 上から下へ流れる
+export type DiagramDirection = 'horizontal' | 'vertical';
+
+export interface DiagramData {
+  source: string; // フロー図DSL（ノード・矢印・スイムレーン、記法は slides/diagram-dsl.ts）
+  direction?: DiagramDirection; // デフォルト: "horizontal"
 }
 
 export interface CodeBlock {
-  language: string;
+  language: string; // "javascript" | "typescript" | "python" | "json" | "sql" | "shell" | "prompt"
   code: string;
-  description?: string;
+  description?: string; // コードブロック下のキャプション
+  showLineNumbers?: boolean;
+  highlightLines?: string | number[]; // 強調表示する行（例: "2,4-6" または [2, 4, 5, 6]）
 }
 
 export interface ScreenshotData {
@@ -44,20 +127,50 @@ export interface ScreenshotData {
   annotations?: Annotation[];
 }
 
+export interface QuizData {
+  question: string;
+  choices: string[]; // スライド上は A, B, C... の順に表示
+  answer: number | number[]; // 正解の選択肢の番号（1始まり、複数の正解は配列）
+  multiple?: boolean; // 複数選択の問題（デフォルト: answer が配列なら true）
+  explanation?: string; // 解説（講師用ビルドの解答スライドにのみ表示）
+}
+
+export interface ExerciseData {
+  goal: string; // 演習のゴール
+  steps: string[]; // 手順（番号付きで表示）
+  timerMinutes?: number; // 制限時間（分）
+  expectedOutput?: string; // 期待される成果物・出力例（講師用ビルドの解答例スライドにのみ表示）
+}
+
 export interface Annotation {
+  // 画像左上を原点とした位置。単位は unit で指定する
+  // unit 省略時: x・y がともに 1 以下なら割合（x: 1 は画像の右端）、どちらかが 1 を超えればピクセル座標
   x: number;
   y: number;
+  unit?: 'ratio' | 'px'; // 'ratio': 画像サイズに対する割合（0〜1） / 'px': 元画像のピクセル座標
   text: string;
-  color: string;
+  color: string; // "E74C3C" または "#E74C3C"
+}
+
+// ナレーション音声の埋め込み設定
+
+export interface NarrationAudioConfig {
+  audioDir: string; // section_NN_*.mp3 の出力先（NarrationGeneratorAgentの出力ディレクトリ）
+  defaultSlideDurationSec?: number; // 音声のないスライド（タイトル・区切りなど）の表示秒数（デフォルト: 5）
+  paddingSec?: number; // 音声終了から次のスライドまでの余白秒数（デフォルト: 1）
 }
 
 // スライドテンプレート
 
 export interface SlideTemplate {
   layout: string;
-  background: string | GradientConfig;
+  background: string | GradientConfig; // 色はHEXまたはパレット名（"primary" など）
   titleStyle: TextStyle;
-  contentStyle?: TextStyle;
+  subtitleStyle?: TextStyle;
+  contentStyle?: TextStyle; // 本文領域（位置・サイズを含む）
+  accentLine?: AccentLineConfig | null;
+  logo?: Partial<LogoConfig>; // テーマ共通のロゴ配置を上書き
+  darkBackground?: boolean; // 濃い背景（ロゴ代替テキスト・フッターを白で表示）
   illustration?: IllustrationConfig;
 }
 
@@ -67,30 +180,139 @@ export interface GradientConfig {
   stops: Array<{ position: number; color: string }>;
 }
 
-export interface TextStyle {
+export interface TextStyle extends Partial<BoxConfig> {
   fontSize: number;
   bold?: boolean;
   color: string;
   align?: 'left' | 'center' | 'right';
+  valign?: 'top' | 'middle' | 'bottom';
+  lineSpacing?: number; // ポイント
   font?: string;
 }
 
+export interface BoxConfig {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface AccentLineConfig extends BoxConfig {
+  color: string;
+}
+
+export interface LogoConfig extends BoxConfig {
+  show: boolean;
+  fontSize: number; // ロゴ画像がない場合の会社名テキストのサイズ
+}
+
+export interface ProgressTrackerConfig extends BoxConfig {
+  fontSize: number;
+  labelWidth: number; // 現在の部のラベル幅（残りの幅に部ごとの進捗バーを並べる）
+}
+
+export interface FooterTextConfig extends BoxConfig {
+  show: boolean;
+  fontSize: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+// テーマ（テーマJSONで定義）
+
+export interface Theme {
+  name: string;
+  description?: string;
+  extends?: string; // 継承元のテーマ名（未指定時はデフォルトテーマ）
+  colors?: Partial<Record<'text' | 'textLight' | 'textMuted' | 'background' | 'backgroundLight' | 'backgroundTinted', string>>;
+  logo: LogoConfig;
+  footer: {
+    copyright: FooterTextConfig;
+    pageNumber: FooterTextConfig;
+  };
+  progressTracker: ProgressTrackerConfig;
+  slides: Record<SectionType, SlideTemplate>;
+}
+
 export interface IllustrationConfig {
   position: 'right' | 'left' | 'center';
   width: number;
   height: number;
-  keywords: string[];
+  keywords: string[]; // テーマの好みのタグ（関連度が同じイラストのうち、これに合うものを優先）
+}
+
+// SlideGeneratorAgentの出力先
+
+export type SlideOutput =
+  | { type: 'file'; path: string } // 指定したパスに保存
+  | { type: 'directory'; dir: string } // ディレクトリに「タイトル_タイムスタンプ.pptx」で保存
+  | { type: 'buffer' } // 保存せず SlideGenerationResult.buffer で返す
+  | { type: 'stream'; stream: NodeJS.WritableStream }; // ストリームに書き込む（書き込み後に end する）
+
+export interface SlideGenerationOptions {
+  output?: SlideOutput; // デフォルト: { type: 'directory', dir: './output' }
+  instructor?: boolean; // 講師用ビルド（クイズの解答スライド・演習の解答例スライドを追加）
+  pageNumber?: PageNumberOptions;
+}
+
+// 表示するページ番号は prefix + (offset + スライド番号)（例: offset 40 → 41ページから、prefix "2-" → "2-1"）
+export interface PageNumberOptions {
+  offset?: number;
+  prefix?: string;
+}
+
+// 生成したスライド1枚ごとの情報
+
+export interface SlideMetadata {
+  slideNumber: number;
+  sectionIndex: number; // ScriptInput.sections のインデックス
+  sectionType: SectionType;
+  title: string; // セクションのタイトル
+  continuation: boolean; // はみ出しによる継続スライド（セクションの2枚目以降）
+  answerKey?: boolean; // 講師用ビルドの解答・解答例スライド
+  hasNotes: boolean;
+  advanceSec?: number; // 自動切り替えまでの秒数（ナレーション音声を埋め込んだ場合のみ）
+  audioDurationSec?: number;
 }
 
 // SlideGeneratorAgentの出力
 
 export interface SlideGenerationResult {
   status: 'success' | 'error';
-  filename?: string;
+  filename?: string; // 保存先のパス（file / directory 出力のみ）
+  buffer?: Buffer; // buffer 出力のみ
   slideCount?: number;
+  slides?: SlideMetadata[];
+  runtimeSec?: number; // 自動切り替えの合計時間（ナレーション音声を埋め込んだ場合のみ）
   error?: string;
   metrics?: {
     durationMs: number;
     timestamp: string;
   };
 }
+
+// 講座マニフェスト（複数の章の台本をまとめてビルド）
+
+// "chapter": 章ごとに1から / "course": 章をまたいだ通し番号 / "chapterPrefixed": "2-5" のように章番号を付ける
+export type PageNumbering = 'chapter' | 'course' | 'chapterPrefixed';
+
+export interface CourseManifest {
+  title: string;
+  subtitle?: string;
+  duration?: string;
+  branding?: BrandingConfig; // 全章共通のブランディング（各章の branding を上書き）
+  theme?: string; // 全章共通のテーマ（各章の theme を上書き）
+  progressTracker?: boolean;
+  narrationPlacement?: NarrationPlacement;
+  dictionary?: string; // ナレーションの読み替え辞書（マニフェストからの相対パス）
+  chapters: Array<string | CourseChapter>; // 章の台本（マニフェストからの相対パス、文字列は1ファイルの章）
+  combined?: boolean; // 全章をまとめた資料も出力する
+  pageNumbering?: PageNumbering; // デフォルト: "chapter"
+  outputDir?: string; // 出力先（マニフェストからの相対パス、デフォルト: ./output/講座タイトル）
+}
+
+export interface CourseChapter {
+  scripts: string[]; // 複数のファイルはセクションを順につなげて1つの章にする
+  title?: string; // 章のタイトル（デフォルト: 最初の台本の title）
+  duration?: string;
+  voice?: string; // 章のナレーションの声（台本の voice より優先）
+}
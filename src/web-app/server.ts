@@ -9,6 +9,8 @@ import { promisify } from 'util';
 import { existsSync, statSync } from 'fs';
 import { NarrationGeneratorAgent } from '../narration/narration-generator.js';
 import { DenoiseLevel } from '../narration/audio-denoiser.js';
+import { SlideGeneratorAgent } from '../slide-generator.js';
+import { findServerFileReferences } from './untrusted-script.js';
 
 const execAsync = promisify(exec);
 
@@ -71,7 +73,7 @@ app.post('/api/generate-narration', async (req, res) => {
       return res.status(400).json({ error: 'テキストが空です' });
     }
 
-    if (!process.env.GEMINI_API_KEY) {
+    if (process.env.TTS_PROVIDER !== 'local' && !process.env.GEMINI_API_KEY) {
       return res.status(500).json({
         error: 'GEMINI_API_KEYが設定されていません。.envファイルを確認してください。'
       });
@@ -139,6 +141,47 @@ app.post('/api/generate-narration', async (req, res) => {
   }
 });
 
+/**
+ * スライド生成API（台本JSONを受け取り、PPTXをそのまま返す・サーバーには保存しない）
+ * ?instructor=true で講師用ビルド（クイズの解答・演習の解答例スライド付き）
+ */
+const slideGenerator = new SlideGeneratorAgent();
+
+app.post('/api/generate-slides', async (req, res) => {
+  try {
+    const script = req.body;
+    if (!script || !Array.isArray(script.sections)) {
+      return res.status(400).json({ error: '台本JSON（sections を含む）を送信してください' });
+    }
+
+    // サーバー上のファイルを読み込ませるパス（ロゴ・画像・テーマJSONなど）は受け付けない
+    const fileReferences = findServerFileReferences(script);
+    if (fileReferences.length > 0) {
+      return res.status(400).json({
+        error: `サーバー上のファイルは参照できません: ${fileReferences.map(reference => reference.path).join(', ')}`,
+        fields: fileReferences.map(reference => reference.path)
+      });
+    }
+
+    const instructor = req.query.instructor === 'true';
+    const result = await slideGenerator.generate(script, { output: { type: 'buffer' }, instructor });
+    if (result.status !== 'success' || !result.buffer) {
+      return res.status(400).json({ error: result.error || 'スライド生成に失敗しました' });
+    }
+
+    const filename = `${String(script.title || 'slides').replace(/\s+/g, '_')}${instructor ? '_講師用' : ''}.pptx`;
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.presentationml.presentation');
+    res.setHeader('X-Slide-Count', String(result.slideCount));
+    res.send(result.buffer);
+  } catch (error) {
+    console.error('❌ スライド生成エラー:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'スライド生成に失敗しました'
+    });
+  }
+});
+
 /**
  * 辞書取得API
  */
@@ -0,0 +1,56 @@
+import { listThemes } from '../slides/theme-loader.js';
+
+/**
+ * Web APIで受け取った台本のうち、サーバー上のファイルを参照するプロパティ
+ */
+export interface ServerFileReference {
+  path: string; // 台本内の位置（"sections[2].screenshot.imagePath" など）
+  value: unknown;
+}
+
+type PlainObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * クライアントから送られた台本で、サーバー上のファイルを読み込ませるプロパティを列挙
+ *
+ * ロゴ・スクリーンショット・列の画像・イラストカタログ・テーマJSONのパスは
+ * SlideGeneratorAgent がそのまま読み込んでPPTXに埋め込むため、Web APIでは受け付けない
+ * （テーマは同梱のテーマ名のみ許可する）
+ */
+export function findServerFileReferences(script: unknown): ServerFileReference[] {
+  const references: ServerFileReference[] = [];
+  if (!isPlainObject(script)) return references;
+
+  const add = (path: string, value: unknown) => {
+    // 空文字はファイルを参照しない（スクリーンショットはプレースホルダーになる）
+    if (value !== undefined && value !== '') references.push({ path, value });
+  };
+
+  if (isPlainObject(script.branding)) {
+    add('branding.logo', script.branding.logo);
+  }
+  if (script.theme !== undefined && !(typeof script.theme === 'string' && listThemes().includes(script.theme))) {
+    add('theme', script.theme);
+  }
+  add('illustrations', script.illustrations);
+
+  if (Array.isArray(script.sections)) {
+    script.sections.forEach((section, index) => {
+      if (!isPlainObject(section)) return;
+      if (isPlainObject(section.screenshot)) {
+        add(`sections[${index}].screenshot.imagePath`, section.screenshot.imagePath);
+      }
+      if (Array.isArray(section.columns)) {
+        section.columns.forEach((column, columnIndex) => {
+          if (isPlainObject(column)) add(`sections[${index}].columns[${columnIndex}].image`, column.image);
+        });
+      }
+    });
+  }
+
+  return references;
+}
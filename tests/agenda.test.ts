@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildAgenda, computeSectionProgress, stripPartNumber } from '../src/slides/agenda.js';
+import { validateScript } from '../src/script/script-validator.js';
+import { Section } from '../src/types.js';
+
+const sections: Section[] = [
+  { type: 'title', title: '研修' },
+  { type: 'agenda', title: '本日の内容' },
+  { type: 'sectionDivider', title: '1. 基本操作', subtitle: '30分' },
+  { type: 'content', title: '画面の見方' },
+  { type: 'sectionDivider', title: '第2部 応用' },
+  { type: 'table', title: '比較', table: { headers: ['A'], rows: [['1']] } },
+  { type: 'agenda', title: '午後の内容' },
+  { type: 'sectionDivider', title: 'まとめ' }
+];
+
+describe('agenda', () => {
+  it('should build agenda items from the dividers up to the next agenda', () => {
+    expect(buildAgenda(sections, 1)).toEqual([
+      { number: 1, title: '基本操作', subtitle: '30分', sectionIndex: 2 },
+      { number: 2, title: '応用', sectionIndex: 4 }
+    ]);
+    expect(buildAgenda(sections, 6)).toEqual([{ number: 3, title: 'まとめ', sectionIndex: 7 }]);
+  });
+
+  it('should track the current part of each section', () => {
+    const progress = computeSectionProgress(sections);
+
+    expect(progress.slice(0, 2)).toEqual([null, null]);
+    expect(progress[3]).toEqual({ part: 1, total: 3, title: '基本操作' });
+    expect(progress[5]).toEqual({ part: 2, total: 3, title: '応用' });
+    expect(progress[7]).toEqual({ part: 3, total: 3, title: 'まとめ' });
+  });
+
+  it('should strip leading part numbers only', () => {
+    expect(stripPartNumber('1. ChatGPTとは')).toBe('ChatGPTとは');
+    expect(stripPartNumber('Part 4: Tips')).toBe('Tips');
+    expect(stripPartNumber('1.5倍の効果')).toBe('1.5倍の効果');
+    expect(stripPartNumber('2024年の動向')).toBe('2024年の動向');
+  });
+
+  it('should warn about agendas without dividers and check progressTracker', () => {
+    const result = validateScript({
+      title: '研修',
+      duration: '10分',
+      branding: { company: 'Stella株式会社', primaryColor: '5FB8A6' },
+      progressTracker: 'yes',
+      sections: [{ type: 'agenda', title: '本日の内容' }, { type: 'content', title: '概要', bullets: ['項目'] }]
+    });
+
+    expect(result.issues.map(issue => [issue.severity, issue.path])).toEqual([
+      ['error', 'progressTracker'],
+      ['warning', 'sections[0]']
+    ]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parseAudioDuration } from '../src/slides/audio-utils.js';
+
+// MPEG1 Layer III, 128kbps, 44.1kHz, ステレオ
+const FRAME_HEADER = [0xff, 0xfb, 0x90, 0x44];
+const FRAME_SIZE = 417;
+
+function mp3Frames(count: number): Buffer {
+  const frame = Buffer.alloc(FRAME_SIZE);
+  Buffer.from(FRAME_HEADER).copy(frame);
+  return Buffer.concat(Array.from({ length: count }, () => frame));
+}
+
+function wav(sampleRate: number, seconds: number): Buffer {
+  const data = Buffer.alloc(sampleRate * 2 * seconds);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVEfmt ', 8, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // モノラル
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+describe('audio-utils', () => {
+  it('should estimate constant bitrate MP3 duration', () => {
+    // 100フレーム × 1152サンプル / 44100Hz ≒ 2.61秒
+    expect(parseAudioDuration(mp3Frames(100))).toBeCloseTo(2.61, 1);
+  });
+
+  it('should use the frame count from the Info header', () => {
+    const buffer = mp3Frames(2);
+    buffer.write('Info', 36, 'latin1');
+    buffer.writeUInt32BE(0x01, 40);
+    buffer.writeUInt32BE(441, 44);
+    expect(parseAudioDuration(buffer)).toBeCloseTo(441 * 1152 / 44100, 5);
+  });
+
+  it('should skip ID3v2 tags', () => {
+    const tag = Buffer.alloc(30);
+    tag.write('ID3', 0, 'latin1');
+    tag[9] = 20; // タグ本体のサイズ
+    Buffer.from([0xff, 0xfb, 0x10, 0x44]).copy(tag, 10); // タグ内のフレームヘッダー風のデータ（32kbps）
+    expect(parseAudioDuration(Buffer.concat([tag, mp3Frames(100)]))).toBeCloseTo(2.61, 1);
+  });
+
+  it('should read WAV duration', () => {
+    expect(parseAudioDuration(wav(24000, 2))).toBe(2);
+  });
+
+  it('should return null for unknown data', () => {
+    expect(parseAudioDuration(Buffer.from('not audio'))).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { chartColors, chartFormatCode, toChartSeriesData } from '../src/slides/chart-utils.js';
+import { ChartData } from '../src/types.js';
+
+const barChart: ChartData = {
+  type: 'bar',
+  labels: ['2022', '2023', '2024'],
+  series: [
+    { name: '導入企業', values: [10, 25, 40] },
+    { name: '検討中', values: [30, 35, 30] },
+    { name: '未定', values: [60, 40, 30] }
+  ]
+};
+
+describe('chart-utils', () => {
+  it('should color series from the brand color, preferring script colors', () => {
+    const colors = chartColors(barChart, '5FB8A6');
+
+    expect(colors).toHaveLength(3);
+    expect(colors[0]).toBe('5FB8A6');
+    expect(new Set(colors).size).toBe(3);
+    expect(chartColors({ ...barChart, colors: ['#E74C3C', 'invalid'] }, '5FB8A6').slice(0, 2)).toEqual(['E74C3C', colors[1]]);
+  });
+
+  it('should color pie charts per label and use only the first series', () => {
+    const pie: ChartData = { ...barChart, type: 'pie', labels: ['A', 'B', 'C', 'D'] };
+
+    expect(chartColors(pie, '5FB8A6')).toHaveLength(4);
+    expect(toChartSeriesData(pie)).toEqual([{ name: '導入企業', labels: ['A', 'B', 'C', 'D'], values: [10, 25, 40] }]);
+    expect(toChartSeriesData(barChart)).toHaveLength(3);
+  });
+
+  it('should append the unit to the number format', () => {
+    expect(chartFormatCode(barChart)).toBe('General');
+    expect(chartFormatCode({ ...barChart, unit: '万人' })).toBe('General"万人"');
+    expect(chartFormatCode({ ...barChart, valueFormat: '#,##0', unit: '社' })).toBe('#,##0"社"');
+  });
+});
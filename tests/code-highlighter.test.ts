@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  tokenizeLines,
+  parseLineRanges,
+  countCodeLines,
+  resolveLanguage
+} from '../src/slides/code-highlighter.js';
+
+describe('code-highlighter', () => {
+  it('should resolve language aliases', () => {
+    expect(resolveLanguage('TS')).toBe('javascript');
+    expect(resolveLanguage('bash')).toBe('shell');
+    expect(resolveLanguage('unknown')).toBe('prompt');
+    expect(resolveLanguage(undefined)).toBe('prompt');
+  });
+
+  it('should tokenize JavaScript keywords, strings and calls', () => {
+    const tokens = tokenize("const msg = greet('hi'); // done", 'javascript');
+    expect(tokens).toContainEqual({ type: 'keyword', text: 'const' });
+    expect(tokens).toContainEqual({ type: 'function', text: 'greet' });
+    expect(tokens).toContainEqual({ type: 'string', text: "'hi'" });
+    expect(tokens).toContainEqual({ type: 'comment', text: '// done' });
+  });
+
+  it('should distinguish JSON properties from string values', () => {
+    const tokens = tokenize('{"name": "ChatGPT", "free": true}', 'json');
+    expect(tokens).toContainEqual({ type: 'property', text: '"name"' });
+    expect(tokens).toContainEqual({ type: 'string', text: '"ChatGPT"' });
+    expect(tokens).toContainEqual({ type: 'keyword', text: 'true' });
+  });
+
+  it('should match SQL keywords case-insensitively', () => {
+    const tokens = tokenize('SELECT name FROM users', 'sql');
+    expect(tokens.filter(t => t.type === 'keyword').map(t => t.text)).toEqual(['SELECT', 'FROM']);
+  });
+
+  it('should highlight shell variables and options', () => {
+    const tokens = tokenize('echo $HOME --verbose', 'shell');
+    expect(tokens).toContainEqual({ type: 'variable', text: '$HOME' });
+    expect(tokens).toContainEqual({ type: 'property', text: '--verbose' });
+  });
+
+  it('should highlight placeholders in prompt text', () => {
+    const tokens = tokenize('# 役割\nあなたは【職種】です', 'prompt');
+    expect(tokens[0]).toEqual({ type: 'heading', text: '# 役割' });
+    expect(tokens).toContainEqual({ type: 'variable', text: '【職種】' });
+  });
+
+  it('should split multi-line tokens into lines', () => {
+    const lines = tokenizeLines('x = 1\n"""doc\nstring"""\n', 'python');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toEqual([{ type: 'string', text: '"""doc' }]);
+    expect(lines[2]).toEqual([{ type: 'string', text: 'string"""' }]);
+  });
+
+  it('should parse highlighted line ranges', () => {
+    expect([...parseLineRanges('2,4-6', 10)]).toEqual([2, 4, 5, 6]);
+    expect([...parseLineRanges([1, 3], 10)]).toEqual([1, 3]);
+    expect(parseLineRanges(undefined, 10).size).toBe(0);
+  });
+
+  it('should limit highlighted line ranges to the code lines', () => {
+    expect([...parseLineRanges('3-2000000000', 5)]).toEqual([3, 4, 5]);
+    expect([...parseLineRanges([0, 2, 9], 5)]).toEqual([2]);
+    expect(countCodeLines('a\nb\r\nc\n\n')).toBe(3);
+  });
+});
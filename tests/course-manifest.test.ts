@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+  loadCourseManifest,
+  loadChapterScripts,
+  mergeChapterScripts,
+  combineCourse,
+  chapterPageNumber,
+  sumDurations,
+  safeFileName
+} from '../src/course/course-manifest.js';
+import { ScriptInput, CourseManifest } from '../src/types.js';
+
+const branding = { company: 'Stella株式会社', primaryColor: '5FB8A6' };
+
+const chapter = (title: string, duration: string, sectionTitle: string): ScriptInput => ({
+  title,
+  duration,
+  branding,
+  sections: [{ type: 'content', title: sectionTitle, bullets: ['項目'] }]
+});
+
+describe('course-manifest', () => {
+  it('should load the sample manifest with chapter paths relative to the manifest', async () => {
+    const course = await loadCourseManifest(path.resolve('scripts/chatgpt-course.json'));
+
+    expect(course.chapters.map(item => item.scripts.map(script => path.basename(script)))).toEqual([
+      ['chatgpt-master-12h.json'],
+      ['chapter1-detailed.json', 'chapter1-remaining.json']
+    ]);
+    expect(course.chapters[1]).toMatchObject({ number: 2, title: '第1章: ChatGPTとの対話' });
+    expect(course.dictionary).toBe(path.resolve('src/narration/dictionary.json'));
+    expect(course.outputDir).toBe(path.resolve('output/ChatGPT生成AI活用講座'));
+
+    const [detailed, remaining] = await loadChapterScripts(course, course.chapters[1]);
+    const merged = mergeChapterScripts(course.chapters[1], [detailed.script, remaining.script]);
+    expect(merged.title).toBe('第1章: ChatGPTとの対話');
+    expect(merged.duration).toBe('165分');
+    expect(merged.sections).toHaveLength(detailed.script.sections.length + remaining.script.sections.length);
+  });
+
+  it('should apply the chapter voice to sections without their own voice', () => {
+    const first = { ...chapter('第1章', '30分', 'A'), voice: 'Kore', speakers: { 講師: 'Charon' } };
+    const second = chapter('第1章 続き', '30分', 'B');
+    second.sections.push({ type: 'content', title: 'C', voice: 'Puck' });
+
+    const merged = mergeChapterScripts({ number: 1, scripts: [], voice: 'Fenrir' }, [first, second]);
+    expect(merged.voice).toBe('Fenrir');
+    expect(merged.speakers).toEqual({ 講師: 'Charon' });
+    expect(merged.sections.map(section => section.voice)).toEqual(['Fenrir', 'Fenrir', 'Puck']);
+
+    const unvoiced = mergeChapterScripts({ number: 1, scripts: [] }, [first, second]);
+    expect(unvoiced.sections.map(section => section.voice)).toEqual(['Kore', undefined, 'Puck']);
+  });
+
+  it('should combine chapters behind a course title slide', () => {
+    const manifest: CourseManifest = { title: '講座', subtitle: '全3時間', branding: { ...branding, primaryColor: '336699' }, chapters: [] };
+    const combined = combineCourse(manifest, [chapter('第1章', '60分', 'A'), chapter('第2章', '2時間', 'B')]);
+
+    expect(combined.title).toBe('講座');
+    expect(combined.duration).toBe('60分 + 2時間');
+    expect(combined.branding.primaryColor).toBe('336699');
+    expect(combined.sections.map(section => [section.type, section.title])).toEqual([
+      ['title', '講座'],
+      ['content', 'A'],
+      ['content', 'B']
+    ]);
+  });
+
+  it('should number chapter pages per chapter, across the course or with a chapter prefix', () => {
+    expect(chapterPageNumber('chapter', 2, 40)).toEqual({});
+    expect(chapterPageNumber('course', 2, 40)).toEqual({ offset: 40 });
+    expect(chapterPageNumber('chapterPrefixed', 2, 40)).toEqual({ prefix: '2-' });
+    expect(sumDurations(['30分', ' 45 分'])).toBe('75分');
+    expect(safeFileName('第1章: 基本 / 応用')).toBe('第1章_基本_応用');
+  });
+});
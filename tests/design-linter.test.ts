@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { lintScript, fixScript, fixDesignText, fixJsonSource, fixMarkdownSource, formatLintReport } from '../src/script/design-linter.js';
+import { parseMarkdownSource } from '../src/script/markdown-script.js';
+import { parseJsonSource } from '../src/script/script-source.js';
+import { ScriptInput } from '../src/types.js';
+
+function scriptWith(sections: ScriptInput['sections']): ScriptInput {
+  return {
+    title: 'テスト台本',
+    duration: '10分',
+    branding: { company: 'Stella株式会社', primaryColor: '5FB8A6' },
+    sections
+  };
+}
+
+describe('design-linter', () => {
+  it('should report forbidden symbols, emoji and bullet punctuation with fixes', () => {
+    const report = lintScript(scriptWith([
+      { type: 'content', title: '入力→出力', bullets: ['問題なし', 'まとめます。', '便利🚀'] }
+    ]));
+
+    expect(report.violations.map(v => [v.rule, v.sectionIndex, v.field, v.fix])).toEqual([
+      ['forbidden-symbol', 0, 'title', '入力出力'],
+      ['bullet-punctuation', 0, 'bullets[1]', 'まとめます'],
+      ['emoji', 0, 'bullets[2]', '便利']
+    ]);
+    expect(report.fixableCount).toBe(3);
+  });
+
+  it('should report length and subhead line limits without a fix', () => {
+    const report = lintScript(scriptWith([
+      { type: 'title', title: 'あ'.repeat(41), subtitle: 'い'.repeat(60) },
+      // コンテンツスライドのサブタイトル欄は右上の小さなラベル
+      { type: 'content', title: '概要', subtitle: 'う'.repeat(30) }
+    ]));
+
+    expect(report.violations.map(v => [v.rule, v.sectionIndex])).toEqual([
+      ['title-length', 0],
+      ['subhead-length', 0],
+      ['subhead-lines', 1]
+    ]);
+    expect(report.violations.every(v => v.fix === undefined)).toBe(true);
+    expect(report.fixableCount).toBe(0);
+    expect(report.violations[0].message).toContain('41/40');
+  });
+
+  it('should fix a script without mutating the original', () => {
+    const script = scriptWith([{ type: 'content', title: '■概要', narration: '説明します。', bullets: ['項目。'] }]);
+    const fixed = fixScript(script);
+
+    expect(fixed.sections[0]).toMatchObject({ title: '概要', narration: '説明します。', bullets: ['項目'] });
+    expect(script.sections[0].title).toBe('■概要');
+    expect(lintScript(fixed).violations).toEqual([]);
+    expect(fixDesignText('▶ 次へ。', 'title')).toBe('次へ。');
+  });
+
+  it('should fix only the offending strings in JSON source and keep its formatting', () => {
+    const json = [
+      '{',
+      '  "title": "テスト", "duration": "10分",',
+      '  "branding": { "company": "Stella株式会社" },',
+      '  "sections": [',
+      '    { "type": "content", "title": "概要", "bullets": ["A→B。", "問題なし"] }',
+      '  ]',
+      '}'
+    ].join('\n');
+    const source = parseJsonSource(json);
+    const report = lintScript(source.data as ScriptInput, source.lines);
+
+    expect(report.violations.map(v => v.rule)).toEqual(['forbidden-symbol', 'bullet-punctuation']);
+    expect(fixJsonSource(json, report.violations)).toBe(json.replace('"A→B。"', '"AB"'));
+  });
+
+  it('should locate violations in Markdown and fix them line by line', () => {
+    const markdown = [
+      '---',
+      'title: テスト',
+      'branding:',
+      '  company: Stella株式会社',
+      '---',
+      '',
+      '### 手順⇒結果',
+      '',
+      '- 最初の手順。',
+      '- 次の手順'
+    ].join('\n');
+    const source = parseMarkdownSource(markdown);
+    const report = lintScript(source.data as ScriptInput, source.lines);
+
+    expect(report.violations.map(v => [v.rule, v.line])).toEqual([['forbidden-symbol', 7], ['bullet-punctuation', 9]]);
+    expect(formatLintReport(report, 'lesson.md')).toContain('lesson.md:9 sections[0].bullets[0] [bullet-punctuation]');
+
+    const fixed = fixMarkdownSource(markdown, report.violations);
+    expect(fixed.split('\n').slice(6, 10)).toEqual(['### 手順結果', '', '- 最初の手順', '- 次の手順']);
+  });
+});
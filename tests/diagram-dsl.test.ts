@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseDiagram, DiagramSyntaxError } from '../src/slides/diagram-dsl.js';
+
+describe('diagram-dsl', () => {
+  it('should parse node shapes, chained arrows and edge labels', () => {
+    const graph = parseDiagram([
+      '# 問い合わせ対応',
+      'start((受付)) -> check{緊急か} : 確認',
+      'check -> call(電話する) --> 記録',
+      'check -> 記録[記録する]'
+    ].join('\n'));
+
+    expect(graph.nodes).toEqual([
+      { id: 'start', label: '受付', shape: 'terminal' },
+      { id: 'check', label: '緊急か', shape: 'decision' },
+      { id: 'call', label: '電話する', shape: 'rounded' },
+      { id: '記録', label: '記録する', shape: 'box' }
+    ]);
+    expect(graph.edges).toEqual([
+      { from: 'start', to: 'check', label: '確認' },
+      { from: 'check', to: 'call' },
+      { from: 'call', to: '記録', dashed: true },
+      { from: 'check', to: '記録' }
+    ]);
+    expect(graph.lanes).toEqual([]);
+  });
+
+  it('should put nodes into the lane where they first appear', () => {
+    const graph = parseDiagram('申込\nlane 受講者\n申込 -> 受講\nlane 事務局\n確認 -> 受講');
+
+    expect(graph.lanes).toEqual(['受講者', '事務局']);
+    expect(graph.nodes.map(node => [node.id, node.lane])).toEqual([
+      ['申込', undefined],
+      ['受講', '受講者'],
+      ['確認', '事務局']
+    ]);
+  });
+
+  it('should report syntax errors with DSL line numbers', () => {
+    const lineOf = (source: string) => {
+      try {
+        parseDiagram(source);
+      } catch (error) {
+        if (error instanceof DiagramSyntaxError) return [error.line, error.reason];
+        throw error;
+      }
+      return null;
+    };
+
+    expect(lineOf('a -> b\n-> c')).toEqual([2, 'Arrow is missing a node on one side']);
+    expect(lineOf('a -> b -> c : はい')).toEqual([1, '": label" can only be used on a line with exactly one arrow']);
+    expect(lineOf('a[開始]\n\na[終了] -> b')?.[0]).toBe(3);
+    expect(lineOf('a[開始 -> b')?.[0]).toBe(1);
+    expect(lineOf('# コメントのみ')).toEqual([1, 'Diagram has no nodes']);
+  });
+});
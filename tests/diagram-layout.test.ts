@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseDiagram } from '../src/slides/diagram-dsl.js';
+import { assignRanks, layoutDiagram } from '../src/slides/diagram-layout.js';
+
+const area = { x: 1, y: 2, w: 10, h: 4 };
+const graph = parseDiagram('a -> b -> c\na -> c\nc --> b');
+
+describe('diagram-layout', () => {
+  it('should rank nodes by the longest path, ignoring back edges', () => {
+    expect([...assignRanks(graph)]).toEqual([['a', 0], ['b', 1], ['c', 2]]);
+  });
+
+  it('should place ranks along the flow direction inside the area', () => {
+    for (const direction of ['horizontal', 'vertical'] as const) {
+      const layout = layoutDiagram(graph, direction, area);
+      const main = (node: { x: number; y: number }) => (direction === 'horizontal' ? node.x : node.y);
+
+      expect(layout.nodes.map(node => node.node.id)).toEqual(['a', 'b', 'c']);
+      expect(main(layout.nodes[0])).toBeLessThan(main(layout.nodes[1]));
+      expect(main(layout.nodes[1])).toBeLessThan(main(layout.nodes[2]));
+      for (const node of layout.nodes) {
+        expect(node.x).toBeGreaterThanOrEqual(area.x);
+        expect(node.y).toBeGreaterThanOrEqual(area.y);
+        expect(node.x + node.w).toBeLessThanOrEqual(area.x + area.w);
+        expect(node.y + node.h).toBeLessThanOrEqual(area.y + area.h);
+      }
+    }
+  });
+
+  it('should route back edges around the nodes and split lanes into bands', () => {
+    const layout = layoutDiagram(graph, 'horizontal', area);
+    const back = layout.edges.find(edge => edge.edge.from === 'c')!;
+    const bottom = Math.max(...layout.nodes.map(node => node.y + node.h));
+
+    expect(back.points).toHaveLength(4);
+    expect(back.points[1].y).toBeGreaterThan(bottom);
+
+    const laned = layoutDiagram(parseDiagram('lane 受講者\n申込\nlane 事務局\n確認\n申込 -> 確認'), 'horizontal', area);
+    expect(laned.lanes.map(lane => [lane.name, lane.y, lane.h])).toEqual([['受講者', 2, 2], ['事務局', 4, 2]]);
+    expect(laned.nodes[1].y).toBeGreaterThan(4);
+  });
+});
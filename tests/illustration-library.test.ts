@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  loadIllustrationCatalog,
+  scoreIllustration,
+  selectIllustration,
+  recolorSvg,
+  fallbackIllustration,
+  resolveIllustration,
+  IllustrationEntry
+} from '../src/slides/illustration-library.js';
+
+const entry = (id: string, tags: string[]): IllustrationEntry => ({
+  id,
+  path: `${id}.svg`,
+  format: 'svg',
+  tags,
+  size: { width: 400, height: 300 }
+});
+
+const catalog = [
+  entry('communication', ['chat', '質問', 'presentation']),
+  entry('ai', ['ai', 'chatgpt', '生成ai']),
+  entry('team', ['team', 'チーム'])
+];
+
+describe('illustration-library', () => {
+  it('should load the bundled catalog with sizes from the SVG viewBox', () => {
+    const entries = loadIllustrationCatalog();
+
+    expect(entries.length).toBeGreaterThan(0);
+    expect(entries.every(item => item.format === 'svg' && item.size.width === 400 && item.size.height === 300)).toBe(true);
+    expect(entries.map(item => item.id)).toContain('team');
+    expect(() => loadIllustrationCatalog('/nonexistent')).toThrow(/Illustration index not found/);
+  });
+
+  it('should score keyword and title matches', () => {
+    const query = (title: string, keywords: string[] = []) => ({ title, keywords });
+
+    expect(scoreIllustration(catalog[2], query('概要', ['Team']))).toBe(3);
+    expect(scoreIllustration(catalog[2], query('概要', ['チームワーク']))).toBe(1);
+    expect(scoreIllustration(catalog[1], query('1. ChatGPTとは'))).toBe(2);
+    expect(scoreIllustration(catalog[0], query('1. ChatGPTとは'))).toBe(0);
+    expect(scoreIllustration(catalog[0], query('質問の仕方', ['chat']))).toBe(5);
+  });
+
+  it('should prefer unused illustrations, then ones matching the theme keywords', () => {
+    const query = { title: 'AIとチーム', keywords: [], themeKeywords: ['team'] };
+
+    expect(selectIllustration(catalog, query)?.id).toBe('team');
+    expect(selectIllustration(catalog, query, new Set(['team']))?.id).toBe('ai');
+    expect(selectIllustration(catalog, { title: '落語の歴史', keywords: ['落語'] })).toBeNull();
+  });
+
+  it('should recolor SVGs and generate deterministic fallback artwork', () => {
+    expect(recolorSvg('<svg color="#5FB8A6"><rect fill="currentColor"/></svg>', '3366CC'))
+      .toBe('<svg color="#3366CC"><rect fill="#3366CC"/></svg>');
+
+    const art = fallbackIllustration('落語の歴史', '3366CC');
+    expect(art).toBe(fallbackIllustration('落語の歴史', '3366CC'));
+    expect(art).not.toBe(fallbackIllustration('落語の未来', '3366CC'));
+    expect(art).toContain('#3366CC');
+
+    const image = resolveIllustration(catalog, { title: '落語の歴史', keywords: [] }, '3366CC');
+    expect(image.id).toBeNull();
+    expect(image.data.startsWith('data:image/svg+xml;base64,')).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { readImageSize, fitImageInBox, annotationToRatio } from '../src/slides/image-utils.js';
+
+function pngHeader(width: number, height: number): Buffer {
+  const buffer = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(buffer, 0);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write('IHDR', 12, 'ascii');
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+function gifHeader(width: number, height: number): Buffer {
+  const buffer = Buffer.alloc(13);
+  buffer.write('GIF89a', 0, 'ascii');
+  buffer.writeUInt16LE(width, 6);
+  buffer.writeUInt16LE(height, 8);
+  return buffer;
+}
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function jpegWithAppSegments(width: number, height: number): Buffer {
+  const sof = Buffer.alloc(15);
+  sof[0] = 8; // 精度
+  sof.writeUInt16BE(height, 1);
+  sof.writeUInt16BE(width, 3);
+  sof[5] = 3;
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    jpegSegment(0xe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'latin1')),
+    jpegSegment(0xe1, Buffer.alloc(64, 0x20)),
+    jpegSegment(0xdb, Buffer.alloc(65)),
+    jpegSegment(0xc4, Buffer.alloc(30)),
+    jpegSegment(0xc0, sof),
+    Buffer.from([0xff, 0xd9])
+  ]);
+}
+
+describe('image-utils', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'image-utils-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, data: Buffer): string {
+    const filePath = path.join(dir, name);
+    writeFileSync(filePath, data);
+    return filePath;
+  }
+
+  it('should read PNG and GIF sizes from their headers', () => {
+    expect(readImageSize(write('a.png', pngHeader(1280, 720)))).toEqual({ width: 1280, height: 720 });
+    expect(readImageSize(write('a.gif', gifHeader(320, 240)))).toEqual({ width: 320, height: 240 });
+  });
+
+  it('should find the JPEG start-of-frame marker after APPn, DQT and DHT segments', () => {
+    expect(readImageSize(write('a.jpg', jpegWithAppSegments(1920, 1080)))).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('should return null for missing, truncated or unknown files', () => {
+    expect(readImageSize(path.join(dir, 'missing.png'))).toBeNull();
+    expect(readImageSize(write('short.png', pngHeader(10, 10).subarray(0, 20)))).toBeNull();
+    expect(readImageSize(write('short.jpg', jpegWithAppSegments(10, 10).subarray(0, 40)))).toBeNull();
+    expect(readImageSize(write('a.bmp', Buffer.from('BM' + ' '.repeat(40), 'ascii')))).toBeNull();
+  });
+
+  it('should letterbox wide images and pillarbox tall images inside the box', () => {
+    const box = { x: 1, y: 1, w: 8, h: 4 };
+
+    const wide = fitImageInBox({ width: 1600, height: 400 }, box);
+    expect(wide.w).toBeCloseTo(8);
+    expect(wide.h).toBeCloseTo(2);
+    expect(wide.x).toBeCloseTo(1);
+    expect(wide.y).toBeCloseTo(2);
+
+    const tall = fitImageInBox({ width: 300, height: 600 }, box);
+    expect(tall.w).toBeCloseTo(2);
+    expect(tall.h).toBeCloseTo(4);
+    expect(tall.x).toBeCloseTo(4);
+    expect(tall.y).toBeCloseTo(1);
+  });
+
+  it('should treat annotation coordinates as ratios unless unit or a value above 1 says pixels', () => {
+    const size = { width: 1000, height: 500 };
+
+    expect(annotationToRatio({ x: 1, y: 0.5 }, size)).toEqual({ x: 1, y: 0.5 });
+    expect(annotationToRatio({ x: 0.5, y: 250 }, size)).toEqual({ x: 0.0005, y: 0.5 });
+    expect(annotationToRatio({ x: 1, y: 1, unit: 'px' }, size)).toEqual({ x: 0.001, y: 0.002 });
+    expect(annotationToRatio({ x: 2000, y: 100, unit: 'px' }, size)).toEqual({ x: 1, y: 0.2 });
+  });
+});
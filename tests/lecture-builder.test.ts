@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, readdirSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { LectureBuilderAgent } from '../src/lecture/lecture-builder.js';
+import { NarrationGeneratorAgent, NarrationResult } from '../src/narration/narration-generator.js';
+import { LocalTtsProvider } from '../src/narration/local-tts-provider.js';
+import { ScriptInput } from '../src/types.js';
+
+// MPEG1 Layer III, 128kbps, 44.1kHz の100フレーム（約2.61秒）
+function mp3Frames(count: number): Buffer {
+  const frame = Buffer.alloc(417);
+  Buffer.from([0xff, 0xfb, 0x90, 0x44]).copy(frame);
+  return Buffer.concat(Array.from({ length: count }, () => frame));
+}
+
+const script: ScriptInput = {
+  title: 'テスト台本',
+  duration: '10分',
+  branding: { company: 'Stella株式会社', primaryColor: '5FB8A6' },
+  sections: [
+    { type: 'title', title: 'タイトル' },
+    { type: 'content', title: '概要', narration: '説明します', bullets: ['項目1'] }
+  ]
+};
+
+describe('LectureBuilderAgent', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'lecture-builder-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write narration to a non-default audio dir and embed it from there', async () => {
+    // 音声の変換（ffmpeg）の代わりに、ナレーターの出力先にMP3を書き出す
+    const generate = vi.spyOn(NarrationGeneratorAgent.prototype, 'generate').mockImplementation(
+      async function (this: NarrationGeneratorAgent): Promise<NarrationResult> {
+        await mkdir(this.getOutputDir(), { recursive: true });
+        await writeFile(path.join(this.getOutputDir(), 'section_02_概要.mp3'), mp3Frames(100));
+        return {
+          status: 'success',
+          metrics: { totalSections: 1, successCount: 1, failureCount: 0, cachedCount: 0, durationMs: 0, timestamp: '' }
+        };
+      }
+    );
+    const audioDir = path.join(dir, 'audio');
+
+    const { slides, narrationFailures } = await new LectureBuilderAgent(new LocalTtsProvider()).build(script, {
+      audioDir,
+      output: { type: 'buffer' }
+    });
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(readdirSync(audioDir)).toEqual(['section_02_概要.mp3']);
+    expect(narrationFailures).toBe(0);
+    expect(slides.status).toBe('success');
+    expect(slides.slides![1].audioDurationSec).toBeCloseTo(2.61, 1);
+
+    const zip = await JSZip.loadAsync(slides.buffer!);
+    expect(Object.keys(zip.files).some(name => /^ppt\/media\/.+\.mp3$/.test(name))).toBe(true);
+    // <a:audioFile> とその参照先のリレーションシップの種類が揃っている
+    const slideXml = await zip.file('ppt/slides/slide2.xml')!.async('string');
+    const rels = await zip.file('ppt/slides/_rels/slide2.xml.rels')!.async('string');
+    const link = slideXml.match(/<a:audioFile r:link="([^"]+)"/)![1];
+    expect(rels).toMatch(new RegExp(`Id="${link}" Type="[^"]*/relationships/audio"`));
+  });
+
+  it('should use existing audio without a narrator when narration is skipped', async () => {
+    const generate = vi.spyOn(NarrationGeneratorAgent.prototype, 'generate');
+    await writeFile(path.join(dir, 'section_02_概要.mp3'), mp3Frames(100));
+
+    const { slides, narrationFailures } = await new LectureBuilderAgent().build(script, {
+      audioDir: dir,
+      skipNarration: true,
+      output: { type: 'buffer' }
+    });
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(narrationFailures).toBeUndefined();
+    expect(slides.slides![1].audioDurationSec).toBeCloseTo(2.61, 1);
+  });
+
+  it('should pick the audio named after the section over stale files of the same number', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await writeFile(path.join(dir, 'section_02_旧タイトル.mp3'), mp3Frames(200));
+    await writeFile(path.join(dir, 'section_02_概要.mp3'), mp3Frames(100));
+
+    const builder = new LectureBuilderAgent();
+    const exact = await builder.build(script, { audioDir: dir, skipNarration: true, output: { type: 'buffer' } });
+    expect(exact.slides.slides![1].audioDurationSec).toBeCloseTo(2.61, 1);
+    expect(warn).not.toHaveBeenCalled();
+
+    // 規則どおりの名前がなく候補が複数ある場合は、取り違えないよう埋め込まない
+    rmSync(path.join(dir, 'section_02_概要.mp3'));
+    await writeFile(path.join(dir, 'section_02_別の旧タイトル.mp3'), mp3Frames(100));
+    const ambiguous = await builder.build(script, { audioDir: dir, skipNarration: true, output: { type: 'buffer' } });
+    expect(ambiguous.slides.slides![1].audioDurationSec).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Multiple audio files for section 2'));
+  });
+});
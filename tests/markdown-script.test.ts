@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdownScript, parseMarkdownSource } from '../src/script/markdown-script.js';
+import { ScriptInput } from '../src/types.js';
+
+const frontMatter = `---
+title: テスト台本
+duration: 10分
+theme: dark
+branding:
+  company: Stella株式会社
+  primaryColor: "#5FB8A6"
+---
+`;
+
+describe('markdown-script', () => {
+  it('should parse front matter into script settings', () => {
+    const script = parseMarkdownScript(`${frontMatter}\n# タイトル\n`);
+    expect(script.title).toBe('テスト台本');
+    expect(script.duration).toBe('10分');
+    expect(script.theme).toBe('dark');
+    expect(script.branding).toEqual({ company: 'Stella株式会社', primaryColor: '#5FB8A6' });
+  });
+
+  it('should map headings, subtitles, narration and bullets to sections', () => {
+    const script = parseMarkdownScript(`${frontMatter}
+# 研修タイトル
+
+## 第1章
+
+### 1-1. 概要
+
+レッスン1 (5分)
+
+> ChatGPTはOpenAIが開発した
+> 対話型AIです。
+>
+> Large Language
+> Modelを使っています。
+
+- **2022年**に公開
+- 幅広く活用
+  されている
+`);
+
+    expect(script.sections.map(s => s.type)).toEqual(['title', 'sectionDivider', 'content']);
+    expect(script.sections[2]).toEqual({
+      type: 'content',
+      title: '1-1. 概要',
+      subtitle: 'レッスン1 (5分)',
+      narration: 'ChatGPTはOpenAIが開発した対話型AIです。\nLarge Language Modelを使っています。',
+      bullets: ['2022年に公開', '幅広く活用されている']
+    });
+  });
+
+  it('should turn fenced code, pipe tables and images into typed sections', () => {
+    const script = parseMarkdownScript(`${frontMatter}
+### コード
+
+\`\`\`python {2,4-5} showLineNumbers
+print("a")
+\`\`\`
+
+実行結果の例
+
+### 比較表
+
+| 項目 | 無料版 |
+| --- | ---: |
+| 料金 | 0円 |
+
+### 画面
+
+![](./assets/screen.png)
+
+- (0.2, 0.3) 入力欄
+- (120, 48) 送信ボタン #3498DB
+`);
+
+    const [code, table, screenshot] = script.sections;
+    expect(code.type).toBe('codeBlock');
+    expect(code.code).toEqual({
+      language: 'python',
+      code: 'print("a")',
+      highlightLines: '2,4-5',
+      showLineNumbers: true,
+      description: '実行結果の例'
+    });
+
+    expect(table.type).toBe('table');
+    expect(table.table).toEqual({
+      headers: ['項目', '無料版'],
+      rows: [['料金', '0円']],
+      columns: [{}, { align: 'right' }]
+    });
+
+    expect(screenshot.type).toBe('screenshot');
+    expect(screenshot.bullets).toBeUndefined();
+    expect(screenshot.screenshot).toEqual({
+      imagePath: './assets/screen.png',
+      annotations: [
+        { x: 0.2, y: 0.3, text: '入力欄', color: 'E74C3C' },
+        { x: 120, y: 48, text: '送信ボタン', color: '#3498DB' }
+      ]
+    });
+  });
+
+  it('should allow an explicit section type', () => {
+    const script = parseMarkdownScript(`${frontMatter}\n### 画面の構成 {.screenshot}\n`);
+    expect(script.sections[0]).toEqual({ type: 'screenshot', title: '画面の構成' });
+  });
+
+  it('should parse chart blocks with the following paragraph as the source', () => {
+    const chart = '```chart\n{"type": "line", "labels": ["1月", "2月"],\n "series": [{"name": "利用者", "values": [1, 2]}]}\n```';
+    const source = parseMarkdownSource(`${frontMatter}\n### 利用者数\n\n${chart}\n\n社内調査\n`);
+
+    expect((source.data as { sections: unknown[] }).sections[0]).toEqual({
+      type: 'chart',
+      title: '利用者数',
+      chart: {
+        type: 'line',
+        labels: ['1月', '2月'],
+        series: [{ name: '利用者', values: [1, 2] }],
+        source: '社内調査'
+      }
+    });
+    expect(source.lines.get('sections[0].chart.series')).toBe(14);
+    expect(() => parseMarkdownScript(`${frontMatter}\n### 利用者数\n\`\`\`chart\n{"type": }\n\`\`\`\n`)).toThrow(/line 12: Invalid chart JSON/);
+  });
+
+  it('should split comparison sections into columns at #### headings', () => {
+    const markdown = [
+      '### 導入前後の比較 {.comparison}',
+      '',
+      '#### 導入前 {#999999}',
+      '- 手作業で集計',
+      '  （毎月2日）',
+      '#### 導入後',
+      '![画面](assets/after.png)',
+      '- 自動で集計',
+      ''
+    ].join('\n');
+    const source = parseMarkdownSource(`${frontMatter}\n${markdown}`);
+
+    expect((source.data as { sections: unknown[] }).sections[0]).toEqual({
+      type: 'comparison',
+      title: '導入前後の比較',
+      columns: [
+        { heading: '導入前', color: '#999999', bullets: ['手作業で集計（毎月2日）'] },
+        { heading: '導入後', image: 'assets/after.png', bullets: ['自動で集計'] }
+      ]
+    });
+    expect(source.lines.get('sections[0].columns[1].image')).toBe(16);
+    expect(() => parseMarkdownScript(`${frontMatter}\n### 概要\n#### 小見出し\n`)).toThrow(/line 11: Heading level 4/);
+  });
+
+  it('should parse quizzes from task lists and exercises with a timer', () => {
+    const markdown = [
+      '### 確認問題 {.quiz}',
+      '',
+      '良い質問に含める要素は',
+      '',
+      '- [x] 自分の状況',
+      '- [ ] あいさつ',
+      '',
+      '状況を伝えると回答が具体的になります',
+      '',
+      '### 実践ワーク {.exercise timer=10}',
+      '',
+      '良い質問を1つ作る',
+      '',
+      '1. 業務を選ぶ',
+      '2. 質問を送る',
+      '',
+      '```',
+      '経理担当です。',
+      '```',
+      ''
+    ].join('\n');
+    const source = parseMarkdownSource(`${frontMatter}\n${markdown}`);
+
+    expect((source.data as { sections: unknown[] }).sections).toEqual([
+      {
+        type: 'quiz',
+        title: '確認問題',
+        quiz: {
+          question: '良い質問に含める要素は',
+          choices: ['自分の状況', 'あいさつ'],
+          answer: 1,
+          explanation: '状況を伝えると回答が具体的になります'
+        }
+      },
+      {
+        type: 'exercise',
+        title: '実践ワーク',
+        exercise: { goal: '良い質問を1つ作る', steps: ['業務を選ぶ', '質問を送る'], timerMinutes: 10, expectedOutput: '経理担当です。' }
+      }
+    ]);
+    expect(source.lines.get('sections[0].quiz.answer')).toBe(14);
+    expect(() => parseMarkdownScript(`${frontMatter}\n### ワーク {.content timer=5}\n`)).toThrow(/line 10: Unknown heading attribute "timer"/);
+  });
+
+  it('should parse diagram blocks with their direction', () => {
+    const diagram = '```diagram vertical\na[開始] -> b{確認}\nb --> a : やり直し\n```';
+    const source = parseMarkdownSource(`${frontMatter}\n### 流れ\n\n${diagram}\n`);
+
+    expect((source.data as { sections: unknown[] }).sections[0]).toEqual({
+      type: 'diagram',
+      title: '流れ',
+      diagram: { source: 'a[開始] -> b{確認}\nb --> a : やり直し', direction: 'vertical' }
+    });
+    expect(source.lines.get('sections[0].diagram.source')).toBe(13);
+    expect(() => parseMarkdownScript(`${frontMatter}\n### 流れ\n\`\`\`diagram\na -> b\nb -> \n\`\`\`\n`)).toThrow(/line 13: Invalid diagram/);
+  });
+
+  it('should read illustration keywords from heading attributes', () => {
+    const source = parseMarkdownSource(`${frontMatter}\n## 1. 基本 {keywords=AI,業務、効率化}\n\n### 概要 {.content keywords=チーム}\n- 項目\n`);
+    const sections = (source.data as { sections: unknown[] }).sections;
+
+    expect(sections[0]).toEqual({ type: 'sectionDivider', title: '1. 基本', keywords: ['AI', '業務', '効率化'] });
+    expect(sections[1]).toMatchObject({ type: 'content', title: '概要', keywords: ['チーム'] });
+    expect(source.lines.get('sections[0].keywords')).toBe(10);
+  });
+
+  it('should parse dialogue blocks, speakers and section voices', () => {
+    const markdown = frontMatter.replace('theme: dark\n', 'theme: dark\nvoice: Kore\nspeakers: 講師=Charon, 受講生=Puck\n');
+    const source = parseMarkdownSource(`${markdown}\n### 質問タイム {voice=Puck}\n\n\`\`\`dialogue\n講師: 何か質問はありますか？\n\n受講生：プロンプトのコツを教えてください。\n\`\`\`\n`);
+    const script = source.data as ScriptInput;
+
+    expect(script.voice).toBe('Kore');
+    expect(script.speakers).toEqual({ 講師: 'Charon', 受講生: 'Puck' });
+    expect(script.sections[0]).toEqual({
+      type: 'content',
+      title: '質問タイム',
+      voice: 'Puck',
+      dialogue: [
+        { speaker: '講師', text: '何か質問はありますか？' },
+        { speaker: '受講生', text: 'プロンプトのコツを教えてください。' }
+      ]
+    });
+    expect(source.lines.get('sections[0].dialogue[1].speaker')).toBe(17);
+    expect(() => parseMarkdownScript(`${frontMatter}\n### 会話\n\`\`\`dialogue\nこんにちは\n\`\`\`\n`)).toThrow(/line 12: Dialogue line must be "speaker: text"/);
+  });
+
+  it('should report syntax errors with line numbers', () => {
+    expect(() => parseMarkdownScript(`${frontMatter}\n- 見出しのない箇条書き\n`)).toThrow(/line 10:/);
+    expect(() => parseMarkdownScript(`${frontMatter}\n### コード\n\`\`\`js\nconst a = 1;\n`)).toThrow(/line 11: Code block is not closed/);
+    expect(() => parseMarkdownScript('# タイトル\n')).toThrow(/branding/);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, existsSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NarrationCache, narrationHash, NARRATION_CACHE_FILE } from '../src/narration/narration-cache.js';
+
+const input = { text: 'こんにちは', voice: 'Charon', model: 'gemini-2.5-flash-preview-tts', denoise: { level: 'auto' } };
+
+describe('narration-cache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'narration-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should change the hash when text, voice, model or denoise options change', () => {
+    const hash = narrationHash(input);
+
+    expect(narrationHash({ ...input })).toBe(hash);
+    expect(narrationHash({ ...input, text: 'こんばんは' })).not.toBe(hash);
+    expect(narrationHash({ ...input, voice: 'Puck' })).not.toBe(hash);
+    expect(narrationHash({ ...input, model: 'gemini-2.5-pro-preview-tts' })).not.toBe(hash);
+    expect(narrationHash({ ...input, denoise: null })).not.toBe(hash);
+  });
+
+  it('should reuse unchanged audio across runs and copy it when the section number shifts', async () => {
+    const hash = narrationHash(input);
+    writeFileSync(path.join(dir, 'section_02_挨拶.mp3'), 'audio');
+
+    const first = await NarrationCache.load(dir);
+    expect(await first.reuse(hash, 'section_02_挨拶.mp3')).toBe(false);
+    first.record('section_02_挨拶.mp3', hash, '挨拶');
+    await first.save(new Set(['section_02_挨拶.mp3']));
+
+    const second = await NarrationCache.load(dir);
+    expect(await second.reuse(hash, 'section_02_挨拶.mp3')).toBe(true);
+    expect(await second.reuse(narrationHash({ ...input, text: '変更' }), 'section_02_挨拶.mp3')).toBe(false);
+    expect(await second.reuse(hash, 'section_03_挨拶.mp3')).toBe(true);
+    expect(readFileSync(path.join(dir, 'section_03_挨拶.mp3'), 'utf-8')).toBe('audio');
+  });
+
+  it('should remove audio that the script no longer uses', async () => {
+    const cache = await NarrationCache.load(dir);
+    for (const filename of ['section_02_旧.mp3', 'section_02_新.mp3']) {
+      writeFileSync(path.join(dir, filename), 'audio');
+      cache.record(filename, narrationHash({ ...input, text: filename }), filename);
+    }
+
+    expect(await cache.save(new Set(['section_02_新.mp3']))).toEqual(['section_02_旧.mp3']);
+    expect(existsSync(path.join(dir, 'section_02_旧.mp3'))).toBe(false);
+    expect(Object.keys(JSON.parse(readFileSync(path.join(dir, NARRATION_CACHE_FILE), 'utf-8')).files)).toEqual(['section_02_新.mp3']);
+  });
+});
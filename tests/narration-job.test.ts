@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NarrationJob, NARRATION_JOB_FILE, mergeNarrationResults } from '../src/narration/narration-job.js';
+import { NarrationGeneratorAgent, NarrationResult } from '../src/narration/narration-generator.js';
+import { LocalTtsProvider } from '../src/narration/local-tts-provider.js';
+
+const sections = [
+  { filename: 'section_02_挨拶.mp3', hash: 'hash-a', sectionTitle: '挨拶' },
+  { filename: 'section_03_概要.mp3', hash: 'hash-b', sectionTitle: '概要' }
+];
+
+describe('narration-job', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'narration-job-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should save the progress after every section', async () => {
+    const job = NarrationJob.start(dir, '第1章');
+    await job.plan(sections);
+    await job.update('section_02_挨拶.mp3', 'done', true);
+    await job.update('section_03_概要.mp3', 'failed', true, 'Gemini API error');
+
+    const saved = JSON.parse(readFileSync(path.join(dir, NARRATION_JOB_FILE), 'utf-8'));
+    expect(saved.scriptTitle).toBe('第1章');
+    expect(saved.sections['section_02_挨拶.mp3']).toMatchObject({ status: 'done', hash: 'hash-a', attempts: 1 });
+    expect(saved.sections['section_03_概要.mp3']).toMatchObject({ status: 'failed', attempts: 1, error: 'Gemini API error' });
+  });
+
+  it('should resume done sections whose content and audio are unchanged', async () => {
+    const first = NarrationJob.start(dir, '第1章');
+    await first.plan(sections);
+    await first.update('section_02_挨拶.mp3', 'done', true);
+    await first.update('section_03_概要.mp3', 'failed', true, 'timeout');
+    writeFileSync(path.join(dir, 'section_02_挨拶.mp3'), 'audio');
+
+    const previous = await NarrationJob.load(dir);
+    const resumed = NarrationJob.start(dir, '第1章', previous);
+    await resumed.plan([sections[0], { ...sections[1], hash: 'hash-c' }]);
+
+    expect(resumed.isDone('section_02_挨拶.mp3', 'hash-a')).toBe(true);
+    expect(resumed.isDone('section_02_挨拶.mp3', 'hash-x')).toBe(false);
+    expect(resumed.entry('section_03_概要.mp3')).toMatchObject({ status: 'pending', hash: 'hash-c', attempts: 1 });
+  });
+
+  it('should refuse to resume without a previous job', async () => {
+    const narrator = new NarrationGeneratorAgent(undefined, true, new LocalTtsProvider());
+    narrator.setOutputDir(dir);
+    const result = await narrator.generate({
+      title: '第1章',
+      duration: '10分',
+      branding: { company: 'Stella株式会社', primaryColor: '5FB8A6' },
+      sections: [{ type: 'content', title: '概要', narration: 'こんにちは。' }]
+    }, { resume: true });
+
+    expect(result.status).toBe('error');
+    expect(result.error).toContain(`${NARRATION_JOB_FILE} not found`);
+  });
+
+  it('should refuse to resume a job for another script', async () => {
+    const job = NarrationJob.start(dir, '第1章');
+    await job.plan(sections);
+
+    const narrator = new NarrationGeneratorAgent(undefined, true, new LocalTtsProvider());
+    narrator.setOutputDir(dir);
+    const result = await narrator.generate({
+      title: '第2章',
+      duration: '10分',
+      branding: { company: 'Stella株式会社', primaryColor: '5FB8A6' },
+      sections: [{ type: 'content', title: '概要', narration: 'こんにちは。' }]
+    }, { resume: true });
+
+    expect(result.status).toBe('error');
+    expect(result.error).toContain('is for "第1章", not "第2章"');
+    expect(JSON.parse(readFileSync(path.join(dir, NARRATION_JOB_FILE), 'utf-8')).scriptTitle).toBe('第1章');
+  });
+
+  it('should keep earlier results of sections that were not retried', () => {
+    const metrics = { totalSections: 3, successCount: 0, failureCount: 0, cachedCount: 0, durationMs: 0, timestamp: '' };
+    const failure = (filename: string, error: string) => ({ sectionTitle: filename, filename, chunk: 1, chunkCount: 1, chars: 10, error });
+    const previous: NarrationResult = {
+      status: 'error',
+      files: [{ sectionTitle: '挨拶', filename: 'section_02_挨拶.mp3' }],
+      failures: [failure('section_03_概要.mp3', 'timeout'), failure('section_04_まとめ.mp3', 'timeout')],
+      metrics
+    };
+    const current: NarrationResult = {
+      status: 'error',
+      files: [{ sectionTitle: '概要', filename: 'section_03_概要.mp3', chunks: 1 }],
+      failures: [failure('section_04_まとめ.mp3', 'quota exceeded')],
+      metrics: { ...metrics, successCount: 1, failureCount: 1, durationMs: 1200 }
+    };
+
+    const merged = mergeNarrationResults(previous, current, ['section_02_挨拶.mp3', 'section_03_概要.mp3', 'section_04_まとめ.mp3']);
+
+    expect(merged.status).toBe('error');
+    expect(merged.files!.map(file => file.filename)).toEqual(['section_02_挨拶.mp3', 'section_03_概要.mp3']);
+    expect(merged.failures).toEqual([failure('section_04_まとめ.mp3', 'quota exceeded')]);
+    expect(merged.metrics).toMatchObject({ successCount: 2, failureCount: 1, durationMs: 1200 });
+
+    // 台本から消えたセクションは残さない
+    expect(mergeNarrationResults(previous, { ...current, failures: [] }, ['section_03_概要.mp3'])).toMatchObject({
+      status: 'success',
+      files: [{ filename: 'section_03_概要.mp3' }]
+    });
+  });
+});
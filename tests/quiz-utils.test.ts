@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { choiceLabel, formatQuizAnswer, isMultipleChoice, quizAnswers } from '../src/slides/quiz-utils.js';
+import { buildAnswerKeyNotes } from '../src/slides/speaker-notes.js';
+import { QuizData } from '../src/types.js';
+
+const quiz: QuizData = {
+  question: '良い質問に含める要素は',
+  choices: ['状況', 'あいさつ', '回答の形式'],
+  answer: [3, 1, 3],
+  explanation: '状況と形式を伝えると回答が具体的になります'
+};
+
+describe('quiz-utils', () => {
+  it('should normalize answers and label choices', () => {
+    expect(quizAnswers(quiz)).toEqual([1, 3]);
+    expect(quizAnswers({ ...quiz, answer: 2 })).toEqual([2]);
+    expect(choiceLabel(0)).toBe('A');
+    expect(formatQuizAnswer(quiz)).toBe('A, C');
+  });
+
+  it('should treat array answers as multiple choice unless specified', () => {
+    expect(isMultipleChoice(quiz)).toBe(true);
+    expect(isMultipleChoice({ ...quiz, answer: 1 })).toBe(false);
+    expect(isMultipleChoice({ ...quiz, answer: [1], multiple: false })).toBe(false);
+    expect(isMultipleChoice({ ...quiz, answer: 1, multiple: true })).toBe(true);
+  });
+
+  it('should build answer key notes for quizzes and exercises', () => {
+    expect(buildAnswerKeyNotes({ type: 'quiz', title: '確認', quiz })).toBe(
+      '正解: A, C\nA. 状況\nC. 回答の形式\n\n解説: 状況と形式を伝えると回答が具体的になります'
+    );
+    expect(buildAnswerKeyNotes({
+      type: 'exercise',
+      title: 'ワーク',
+      exercise: { goal: '質問を作る', steps: ['書く'], expectedOutput: '経理担当です。\n' }
+    })).toBe('解答例:\n経理担当です。');
+  });
+});
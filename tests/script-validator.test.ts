@@ -0,0 +1,313 @@
+import { describe, it, expect } from 'vitest';
+import { validateScript, validateVoices, validateCourseManifest, formatValidationReport } from '../src/script/script-validator.js';
+import { parseJsonSource } from '../src/script/script-source.js';
+
+const validScript = {
+  title: 'テスト台本',
+  duration: '10分',
+  branding: { company: 'Stella株式会社', primaryColor: '5FB8A6' },
+  sections: [
+    { type: 'title', title: 'タイトル' },
+    { type: 'content', title: '概要', narration: 'ナレーション', bullets: ['項目1'] },
+    { type: 'table', title: '比較', table: { headers: ['項目', '値'], rows: [['A', '1']] } },
+    { type: 'codeBlock', title: 'コード', code: { language: 'python', code: 'print(1)', highlightLines: '1' } }
+  ]
+};
+
+describe('script-validator', () => {
+  it('should accept a valid script', () => {
+    expect(validateScript(validScript)).toEqual({ valid: true, issues: [] });
+  });
+
+  it('should treat an empty logo as no logo', () => {
+    expect(validateScript({ ...validScript, branding: { ...validScript.branding, logo: '' } }).issues).toEqual([]);
+    expect(validateScript({ ...validScript, branding: { ...validScript.branding, logo: 'missing.png' } }).issues).toMatchObject([
+      { severity: 'warning', path: 'branding.logo' }
+    ]);
+  });
+
+  it('should report missing required fields per section type', () => {
+    const result = validateScript({
+      ...validScript,
+      branding: { company: 'Stella株式会社' },
+      sections: [
+        { type: 'table', title: '比較' },
+        { type: 'codeBlock', title: 'コード', code: { language: 'python' } },
+        { type: 'content' }
+      ]
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.filter(issue => issue.severity === 'error').map(issue => issue.path)).toEqual([
+      'branding.primaryColor',
+      'sections[0].table',
+      'sections[1].code.code',
+      'sections[2].title'
+    ]);
+  });
+
+  it('should suggest the closest section type and property for typos', () => {
+    const result = validateScript({
+      ...validScript,
+      sections: [{ type: 'contnet', title: '概要', narraton: 'ナレーション' }]
+    });
+
+    expect(result.issues).toContainEqual(expect.objectContaining({
+      severity: 'error',
+      path: 'sections[0].type',
+      message: expect.stringContaining('did you mean "content"?')
+    }));
+    expect(result.issues).toContainEqual(expect.objectContaining({
+      severity: 'warning',
+      path: 'sections[0].narraton',
+      message: expect.stringContaining('did you mean "narration"?')
+    }));
+  });
+
+  it('should keep warnings separate from errors', () => {
+    const result = validateScript({
+      ...validScript,
+      sections: [
+        { type: 'table', title: '比較', table: { headers: ['項目', '値'], rows: [['A']] } },
+        { type: 'screenshot', title: '画面' }
+      ]
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.issues.map(issue => `${issue.severity} ${issue.path}`)).toEqual([
+      'warning sections[0].table.rows[0]',
+      'warning sections[1].screenshot'
+    ]);
+  });
+
+  it('should check chart series against labels', () => {
+    const result = validateScript({
+      ...validScript,
+      sections: [
+        {
+          type: 'chart',
+          title: '推移',
+          chart: {
+            type: 'pie',
+            labels: ['A', 'B'],
+            series: [{ name: '今年', values: [1, 2, 3] }, { name: '昨年', values: [1, '2'] }],
+            stacked: true
+          }
+        },
+        { type: 'chart', title: 'グラフなし' }
+      ]
+    });
+
+    expect(result.issues.map(issue => [issue.severity, issue.path])).toEqual([
+      ['error', 'sections[0].chart.series[0].values'],
+      ['error', 'sections[0].chart.series[1].values'],
+      ['warning', 'sections[0].chart.series'],
+      ['warning', 'sections[0].chart.stacked'],
+      ['error', 'sections[1].chart']
+    ]);
+  });
+
+  it('should check columns of comparison and two-column sections', () => {
+    const result = validateScript({
+      ...validScript,
+      sections: [
+        { type: 'comparison', title: '比較', columns: [{ heading: 'A' }, { heading: 'B', bullets: 'x' }, { heading: 'C' }, { heading: 'D' }] },
+        { type: 'twoColumn', title: '2列', columns: [{ heading: 'A', colour: 'FF0000' }] },
+        { type: 'twoColumn', title: '列なし' },
+        { type: 'content', title: '概要', bullets: ['項目'], columns: [{ heading: 'A' }, { heading: 'B' }] }
+      ]
+    });
+
+    expect(result.issues.map(issue => [issue.severity, issue.path])).toEqual([
+      ['warning', 'sections[0].columns'],
+      ['error', 'sections[0].columns[1].bullets'],
+      ['error', 'sections[1].columns'],
+      ['warning', 'sections[1].columns[0].colour'],
+      ['error', 'sections[2].columns'],
+      ['warning', 'sections[3].columns']
+    ]);
+  });
+
+  it('should check quiz answers and exercise steps', () => {
+    const result = validateScript({
+      ...validScript,
+      sections: [
+        { type: 'quiz', title: '確認', quiz: { question: '正しいものは', choices: ['A', 'B'], answer: [1, 3], multiple: false } },
+        { type: 'quiz', title: '選択肢不足', quiz: { question: '正しいものは', choices: ['A'], answer: 0 } },
+        { type: 'exercise', title: 'ワーク', exercise: { goal: '質問を作る', steps: [], timerMinutes: '10分' } },
+        { type: 'exercise', title: '演習なし' }
+      ]
+    });
+
+    expect(result.issues.map(issue => [issue.severity, issue.path])).toEqual([
+      ['error', 'sections[0].quiz.answer[1]'],
+      ['error', 'sections[0].quiz.answer'],
+      ['error', 'sections[1].quiz.choices'],
+      ['error', 'sections[1].quiz.answer'],
+      ['error', 'sections[2].exercise.steps'],
+      ['error', 'sections[2].exercise.timerMinutes'],
+      ['error', 'sections[3].exercise']
+    ]);
+  });
+
+  it('should report highlighted lines outside the code', () => {
+    const code = { language: 'python', code: 'a = 1\nb = 2\nprint(a + b)\n' };
+    const result = validateScript({
+      ...validScript,
+      sections: [
+        { type: 'codeBlock', title: '範囲内', code: { ...code, highlightLines: '1,2-3' } },
+        { type: 'codeBlock', title: '巨大な範囲', code: { ...code, highlightLines: '1-2000000000' } },
+        { type: 'codeBlock', title: '配列', code: { ...code, highlightLines: [2, 4] } }
+      ]
+    });
+
+    expect(result.issues.map(issue => [issue.path, issue.message])).toEqual([
+      ['sections[1].code.highlightLines', 'Line 1-2000000000 is outside the code (3 lines)'],
+      ['sections[2].code.highlightLines', 'Line 4 is outside the code (3 lines)']
+    ]);
+  });
+
+  it('should check screenshot annotation units', () => {
+    const result = validateScript({
+      ...validScript,
+      sections: [
+        {
+          type: 'screenshot',
+          title: '画面',
+          screenshot: {
+            imagePath: 'missing.png',
+            annotations: [
+              { x: 1, y: 1, unit: 'px', text: '左上', color: 'E74C3C' },
+              { x: 0.5, y: 1.5, unit: 'ratio', text: '範囲外', color: 'E74C3C' },
+              { x: 10, y: 20, unit: 'pt', text: '不明な単位', color: 'E74C3C' }
+            ]
+          }
+        }
+      ]
+    });
+
+    expect(result.issues.filter(issue => issue.severity === 'error').map(issue => issue.path)).toEqual([
+      'sections[0].screenshot.annotations[1].y',
+      'sections[0].screenshot.annotations[2].unit'
+    ]);
+  });
+
+  it('should check diagram sources and directions', () => {
+    const manyNodes = Array.from({ length: 16 }, (_, i) => `n${i}`).join(' -> ');
+    const result = validateScript({
+      ...validScript,
+      sections: [
+        { type: 'diagram', title: '流れ', diagram: { source: 'a -> b', direction: 'diagonal' } },
+        { type: 'diagram', title: '記法エラー', diagram: { source: 'a -> b -> c : はい' } },
+        { type: 'diagram', title: '多すぎる', diagram: { source: manyNodes } },
+        { type: 'diagram', title: '図なし' }
+      ]
+    });
+
+    expect(result.issues.map(issue => [issue.severity, issue.path])).toEqual([
+      ['error', 'sections[0].diagram.direction'],
+      ['error', 'sections[1].diagram.source'],
+      ['warning', 'sections[2].diagram.source'],
+      ['error', 'sections[3].diagram']
+    ]);
+  });
+
+  it('should check speech markup in narration', () => {
+    const result = validateScript({
+      ...validScript,
+      sections: [
+        { type: 'content', title: '概要', narration: '{slow}ゆっくり読む{/slow}[pause 800ms]{read:ジーピーティー}GPT{/read}' },
+        { type: 'content', title: '閉じ忘れ', narration: '{emphasis}強調' },
+        { type: 'content', title: 'プロンプト', narration: '「{topic}について教えて」と入力します' }
+      ]
+    });
+
+    expect(result.issues).toMatchObject([
+      { severity: 'error', path: 'sections[1].narration', message: expect.stringMatching(/"\{emphasis\}" is not closed/) }
+    ]);
+  });
+
+  it('should check dialogue lines and their speakers', () => {
+    const result = validateScript({
+      ...validScript,
+      speakers: { 講師: 'Charon', 受講生: 'Puck' },
+      sections: [
+        { type: 'content', title: '会話', bullets: ['質疑応答'], dialogue: [{ speaker: '講師', text: '今日は[pause]プロンプトの話です。' }, { speaker: '受講生', text: 'はい！' }] },
+        { type: 'content', title: '誤り', narration: '読まれない', dialogue: [{ speaker: '講帥', text: 'こんにちは' }, { speaker: '受講生' }] }
+      ]
+    });
+
+    expect(result.issues.map(issue => [issue.severity, issue.path])).toEqual([
+      ['error', 'sections[1].dialogue[0].speaker'],
+      ['warning', 'sections[1].narration'],
+      ['error', 'sections[1].dialogue[1].text']
+    ]);
+    expect(result.issues[0].message).toBe('Speaker "講帥" is not defined in "speakers" (did you mean "講師"?) (defined: 講師, 受講生)');
+  });
+
+  it('should check voices against the TTS provider catalog', () => {
+    const script = {
+      ...validScript,
+      voice: 'Charon',
+      speakers: { 講師: 'Charon', 受講生: 'Puk' },
+      sections: [{ type: 'content' as const, title: '概要', voice: 'Kore' }, { type: 'content' as const, title: '補足', voice: 'Nova' }]
+    };
+    const result = validateVoices(script, ['Charon', 'Puck', 'Kore'], 'gemini');
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => issue.path)).toEqual(['speakers.受講生', 'sections[1].voice']);
+    expect(result.issues[0].message).toBe('Unknown voice "Puk" for the gemini TTS provider (did you mean "Puck"?) (available: Charon, Puck, Kore)');
+  });
+
+  it('should check the illustration catalog directory', () => {
+    const result = validateScript({ ...validScript, illustrations: '/nonexistent/illustrations' });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toMatchObject([{ severity: 'error', path: 'illustrations', message: expect.stringMatching(/Illustration index not found/) }]);
+  });
+
+  it('should check course manifests against the files next to them', () => {
+    const result = validateCourseManifest({
+      title: '講座',
+      branding: { company: 'Stella株式会社' },
+      pageNumbering: 'courses',
+      chapters: ['chapter1-detailed.json', { scripts: [] }, { scripts: ['missing.json'], name: '第3章' }]
+    }, 'scripts');
+
+    expect(result.issues.map(issue => [issue.severity, issue.path])).toEqual([
+      ['error', 'branding.primaryColor'],
+      ['error', 'pageNumbering'],
+      ['error', 'chapters[1].scripts'],
+      ['warning', 'chapters[2].name'],
+      ['error', 'chapters[2].scripts[0]']
+    ]);
+    expect(result.issues[1].message).toContain('did you mean "course"?');
+  });
+
+  it('should attach JSON line numbers to issues', () => {
+    const text = [
+      '{',
+      '  "title": "テスト",',
+      '  "duration": "10分",',
+      '  "branding": { "company": "Stella", "primaryColor": "5FB8A6" },',
+      '  "sections": [',
+      '    { "type": "title", "title": "タイトル" },',
+      '    {',
+      '      "type": "contnet",',
+      '      "title": "概要"',
+      '    }',
+      '  ]',
+      '}'
+    ].join('\n');
+    const source = parseJsonSource(text);
+    const result = validateScript(source.data, source.lines);
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ path: 'sections[1].type', line: 8 });
+    expect(formatValidationReport(result, 'script.json')).toContain('script.json:8 sections[1].type: Unknown section type "contnet"');
+  });
+
+  it('should report JSON syntax errors with line numbers', () => {
+    expect(() => parseJsonSource('{\n  "title": "x",\n}')).toThrow(/JSON script line 3:/);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { PassThrough } from 'stream';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { SlideGeneratorAgent } from '../src/slide-generator.js';
+import { ScriptInput } from '../src/types.js';
+
+const script: ScriptInput = {
+  title: 'テスト台本',
+  duration: '10分',
+  branding: { company: 'Stella株式会社', primaryColor: '5FB8A6' },
+  sections: [
+    { type: 'title', title: 'タイトル' },
+    { type: 'sectionDivider', title: '1. 基本' },
+    {
+      type: 'content',
+      title: '長い箇条書き',
+      narration: '説明します',
+      bullets: Array.from({ length: 30 }, (_, i) => `項目${i + 1}の説明テキストです`)
+    }
+  ]
+};
+
+async function countSlides(buffer: Buffer): Promise<number> {
+  const zip = await JSZip.loadAsync(buffer);
+  return Object.keys(zip.files).filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name)).length;
+}
+
+describe('SlideGeneratorAgent', () => {
+  it('should return a buffer with per-slide metadata', async () => {
+    const result = await new SlideGeneratorAgent().generate(script, { output: { type: 'buffer' } });
+
+    expect(result.status).toBe('success');
+    expect(result.filename).toBeUndefined();
+    expect(await countSlides(result.buffer!)).toBe(result.slideCount);
+
+    const slides = result.slides!;
+    expect(slides.map(slide => slide.slideNumber)).toEqual(slides.map((_, i) => i + 1));
+    expect(slides.slice(0, 3)).toMatchObject([
+      { sectionIndex: 0, sectionType: 'title', continuation: false, hasNotes: false },
+      { sectionIndex: 1, sectionType: 'sectionDivider', continuation: false },
+      { sectionIndex: 2, sectionType: 'content', title: '長い箇条書き', continuation: false, hasNotes: true }
+    ]);
+    expect(slides.length).toBeGreaterThan(3);
+    expect(slides.slice(3).every(slide => slide.sectionIndex === 2 && slide.continuation && !slide.hasNotes)).toBe(true);
+  });
+
+  it('should start a new deck on every call, including concurrent ones', async () => {
+    const generator = new SlideGeneratorAgent();
+    const [first, second] = await Promise.all([
+      generator.generate(script, { output: { type: 'buffer' } }),
+      generator.generate(script, { output: { type: 'buffer' } })
+    ]);
+    const third = await generator.generate(script, { output: { type: 'buffer' } });
+
+    expect(second.slideCount).toBe(first.slideCount);
+    expect(third.slides).toEqual(first.slides);
+    expect(await countSlides(third.buffer!)).toBe(first.slideCount);
+  });
+
+  it('should add answer key slides only to the instructor build', async () => {
+    const quizScript: ScriptInput = {
+      ...script,
+      sections: [
+        { type: 'quiz', title: '確認問題', quiz: { question: '正しいものは', choices: ['A案', 'B案'], answer: 2, explanation: '理由' } },
+        { type: 'exercise', title: 'ワーク', exercise: { goal: '質問を作る', steps: ['書く'], expectedOutput: '出力例' } },
+        { type: 'exercise', title: '解答例なし', exercise: { goal: '質問を送る', steps: ['送る'], timerMinutes: 5 } }
+      ]
+    };
+    const generator = new SlideGeneratorAgent();
+    const trainee = await generator.generate(quizScript, { output: { type: 'buffer' } });
+    const instructor = await generator.generate(quizScript, { output: { type: 'buffer' }, instructor: true });
+
+    expect(trainee.slideCount).toBe(3);
+    expect(trainee.slides!.some(slide => slide.answerKey)).toBe(false);
+    expect(instructor.slides!.map(slide => [slide.sectionIndex, slide.answerKey === true, slide.continuation])).toEqual([
+      [0, false, false],
+      [0, true, false],
+      [1, false, false],
+      [1, true, false],
+      [2, false, false]
+    ]);
+    expect(instructor.slides![1].hasNotes).toBe(true);
+  });
+
+  it('should offset and prefix page numbers', async () => {
+    const pageText = async (buffer: Buffer) => {
+      const zip = await JSZip.loadAsync(buffer);
+      return zip.file('ppt/slides/slide2.xml')!.async('string');
+    };
+    const generator = new SlideGeneratorAgent();
+    const offset = await generator.generate(script, { output: { type: 'buffer' }, pageNumber: { offset: 40 } });
+    const prefixed = await generator.generate(script, { output: { type: 'buffer' }, pageNumber: { prefix: '3-' } });
+
+    expect(await pageText(offset.buffer!)).toContain('<a:t>42</a:t>');
+    expect(await pageText(prefixed.buffer!)).toContain('<a:t>3-2</a:t>');
+  });
+
+  it('should expand 3-digit table header colors', async () => {
+    const result = await new SlideGeneratorAgent().generate({
+      ...script,
+      sections: [{ type: 'table', title: '比較', table: { headers: ['項目', '値'], rows: [['A', '1']], headerColor: '#abc' } }]
+    }, { output: { type: 'buffer' } });
+
+    const zip = await JSZip.loadAsync(result.buffer!);
+    const xml = await zip.file('ppt/slides/slide1.xml')!.async('string');
+    expect(xml).toContain('<a:srgbClr val="AABBCC"/>');
+  });
+
+  it('should expand 3-digit annotation colors', async () => {
+    // IHDRのみのPNG（400×300）
+    const png = Buffer.alloc(33);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png, 0);
+    png.writeUInt32BE(13, 8);
+    png.write('IHDR', 12, 'ascii');
+    png.writeUInt32BE(400, 16);
+    png.writeUInt32BE(300, 20);
+    const dir = mkdtempSync(path.join(tmpdir(), 'slide-generator-'));
+    const imagePath = path.join(dir, 'screen.png');
+    writeFileSync(imagePath, png);
+
+    try {
+      const result = await new SlideGeneratorAgent().generate({
+        ...script,
+        sections: [{
+          type: 'screenshot',
+          title: '画面',
+          screenshot: { imagePath, annotations: [{ x: 0.5, y: 0.5, text: 'ここを押す', color: '#f00' }] }
+        }]
+      }, { output: { type: 'buffer' } });
+
+      const zip = await JSZip.loadAsync(result.buffer!);
+      const xml = await zip.file('ppt/slides/slide1.xml')!.async('string');
+      expect(xml).toContain('<a:srgbClr val="FF0000"/>');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should write to a stream', async () => {
+    const stream = new PassThrough();
+    const chunks: Buffer[] = [];
+    stream.on('data', chunk => chunks.push(chunk));
+
+    const result = await new SlideGeneratorAgent().generate(script, { output: { type: 'stream', stream } });
+
+    expect(result.status).toBe('success');
+    expect(result.buffer).toBeUndefined();
+    expect(await countSlides(Buffer.concat(chunks))).toBe(result.slideCount);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTimingToSlideXml,
+  applyAudioRelationship,
+  narrationAudioLink,
+  NARRATION_MEDIA_NAME
+} from '../src/slides/slide-timing.js';
+
+const slideXml = (media: string = '') =>
+  `<p:sld><p:cSld><p:spTree>${media}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+
+describe('slide-timing', () => {
+  it('should add auto-advance after clrMapOvr', () => {
+    const xml = applyTimingToSlideXml(slideXml(), { advanceSec: 5 });
+    expect(xml).toContain('</p:clrMapOvr><p:transition spd="med" advTm="5000"/></p:sld>');
+    expect(xml).not.toContain('<p:timing>');
+  });
+
+  it('should autoplay the narration audio shape', () => {
+    const media = `<p:pic><p:nvPicPr><p:cNvPr id="7" name="${NARRATION_MEDIA_NAME}"/><p:nvPr><a:videoFile r:link="rId2"/></p:nvPr></p:nvPicPr></p:pic>`;
+    const xml = applyTimingToSlideXml(slideXml(media), { advanceSec: 13.5, audioDurationSec: 12.5 });
+
+    expect(xml).toContain('advTm="13500"');
+    expect(xml).toContain('cmd="playFrom(0.0)"><p:cBhvr><p:cTn id="5" dur="12500"');
+    expect(xml).toContain('<p:spTgt spid="7"/>');
+    expect(xml).toContain('<a:audioFile r:link="rId2"/>');
+    expect(xml.indexOf('<p:transition')).toBeLessThan(xml.indexOf('<p:timing>'));
+  });
+
+  it('should retype the narration relationship as audio together with the audioFile tag', () => {
+    const media = `<p:pic><p:nvPicPr><p:cNvPr id="7" name="${NARRATION_MEDIA_NAME}"/><p:nvPr><a:videoFile r:link="rId1"/></p:nvPr></p:nvPicPr></p:pic>`;
+    const xml = applyTimingToSlideXml(slideXml(media), { advanceSec: 13.5, audioDurationSec: 12.5 });
+    const rels = '<Relationships>'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/video" Target="../media/media-2-1.mp3"/>'
+      + '<Relationship Id="rId10" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/video" Target="../media/media-2-9.mp4"/>'
+      + '</Relationships>';
+
+    expect(narrationAudioLink(xml)).toBe('rId1');
+    expect(narrationAudioLink(slideXml())).toBeNull();
+
+    const fixed = applyAudioRelationship(rels, 'rId1');
+    expect(fixed).toContain('<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/audio" Target="../media/media-2-1.mp3"/>');
+    expect(fixed).toContain('<Relationship Id="rId10" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/video"');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { extractTimingHint, buildSpeakerNotes } from '../src/slides/speaker-notes.js';
+
+describe('speaker-notes', () => {
+  it('should extract timing hints from subtitles', () => {
+    expect(extractTimingHint('レッスン1 (5分)')).toBe('5分');
+    expect(extractTimingHint('目安: 30分')).toBe('30分');
+    expect(extractTimingHint('目安時間：1分')).toBe('1分');
+    expect(extractTimingHint('基礎編（90秒）')).toBe('90秒');
+  });
+
+  it('should ignore subtitles without timing hints', () => {
+    expect(extractTimingHint('12時間マスター版')).toBeNull();
+    expect(extractTimingHint('3分でわかるAI')).toBeNull();
+    expect(extractTimingHint(undefined)).toBeNull();
+  });
+
+  it('should build notes from timing hint and original narration', () => {
+    const notes = buildSpeakerNotes({
+      type: 'content',
+      title: 'ChatGPTとは',
+      subtitle: '目安: 5分',
+      narration: 'ChatGPTはOpenAIが開発したAIです。'
+    });
+    expect(notes).toBe('目安時間: 5分\n\nChatGPTはOpenAIが開発したAIです。');
+  });
+
+  it('should strip speech markup from the narration in notes', () => {
+    const notes = buildSpeakerNotes({
+      type: 'content',
+      title: 'GPT-4',
+      narration: '{slow}{read:ジーピーティーフォー}GPT-4{/read}は{/slow}[pause 500ms]最新のモデルです。'
+    });
+    expect(notes).toBe('GPT-4は最新のモデルです。');
+  });
+
+  it('should write dialogue lines with their speakers', () => {
+    const notes = buildSpeakerNotes({
+      type: 'content',
+      title: '質問タイム',
+      dialogue: [
+        { speaker: '講師', text: '何か質問は{emphasis}ありますか{/emphasis}？' },
+        { speaker: '受講生', text: '[pause 300ms]はい。' }
+      ]
+    });
+    expect(notes).toBe('講師: 何か質問はありますか？\n受講生: はい。');
+  });
+
+  it('should return empty notes when there is nothing to write', () => {
+    expect(buildSpeakerNotes({ type: 'title', title: 'タイトル' })).toBe('');
+  });
+});
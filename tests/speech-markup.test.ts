@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSpeechMarkup,
+  mergeSpeechRuns,
+  serializeSpeechRuns,
+  stripSpeechMarkup,
+  planSpeechChunks
+} from '../src/narration/speech-markup.js';
+
+describe('speech-markup', () => {
+  it('should parse pauses, pace, emphasis and read-as', () => {
+    expect(parseSpeechMarkup('はじめに。[pause 800ms]{slow}定義は{emphasis}{read:ジーピーティーフォー}GPT-4{/read}{/emphasis}です{/slow}[pause 1.5s]')).toEqual([
+      { type: 'text', text: 'はじめに。', pace: 'normal', emphasis: false },
+      { type: 'pause', ms: 800 },
+      { type: 'text', text: '定義は', pace: 'slow', emphasis: false },
+      { type: 'text', text: 'ジーピーティーフォー', pace: 'slow', emphasis: true, literal: true },
+      { type: 'text', text: 'です', pace: 'slow', emphasis: false },
+      { type: 'pause', ms: 1500 }
+    ]);
+    expect(parseSpeechMarkup('記法なし')).toEqual([{ type: 'text', text: '記法なし', pace: 'normal', emphasis: false }]);
+  });
+
+  it('should read other braces as plain text', () => {
+    const text = '「{topic}について{count}個の例を挙げて」と入力します。{slowly}';
+    expect(parseSpeechMarkup(text)).toEqual([{ type: 'text', text, pace: 'normal', emphasis: false }]);
+    expect(stripSpeechMarkup(`{slow}${text}{/slow}`)).toBe(text);
+  });
+
+  it('should reject unclosed and misnested tags', () => {
+    expect(() => parseSpeechMarkup('{slow}ゆっくり')).toThrow(/"\{slow\}" is not closed/);
+    expect(() => parseSpeechMarkup('{slow}{emphasis}強調{/slow}{/emphasis}')).toThrow(/Unexpected "\{\/slow\}" \(expected \{\/emphasis\}\)/);
+    expect(() => parseSpeechMarkup('{read:よみ}[pause]{/read}')).toThrow(/cannot be used inside/);
+    expect(() => parseSpeechMarkup('[pause 3 minutes]')).toThrow(/Invalid pause/);
+    expect(() => parseSpeechMarkup('[pause 20s]')).toThrow(/between 1ms and 10s/);
+  });
+
+  it('should strip markup for slides and notes, keeping the written form of read-as', () => {
+    expect(stripSpeechMarkup('はじめに。[pause 800ms]{slow}{read:ジーピーティーフォー}GPT-4{/read}の話{/slow}です')).toBe('はじめに。GPT-4の話です');
+    expect(stripSpeechMarkup('Say [pause] it {fast}now{/fast}')).toBe('Say it now');
+  });
+
+  it('should serialize merged runs back to markup', () => {
+    const runs = mergeSpeechRuns(parseSpeechMarkup('これは{read:エーピーアイ}API{/read}です。[pause]{fast}速く{/fast}'));
+
+    expect(runs[0]).toEqual({ type: 'text', text: 'これはエーピーアイです。', pace: 'normal', emphasis: false });
+    expect(serializeSpeechRuns(runs)).toBe('これはエーピーアイです。[pause 500ms]{fast}速く{/fast}');
+    expect(serializeSpeechRuns(mergeSpeechRuns(parseSpeechMarkup('記法なし')))).toBe('記法なし');
+  });
+
+  it('should plan chunks with pauses attached to the neighbouring chunks', () => {
+    const chunks = planSpeechChunks(parseSpeechMarkup('[pause 300ms]一文目。二文目。{slow}定義{/slow}[pause 1s]'), 4);
+
+    expect(chunks).toEqual([
+      { text: '一文目。', pace: 'normal', emphasis: false, pauseBeforeMs: 300, pauseAfterMs: 0 },
+      { text: '二文目。', pace: 'normal', emphasis: false, pauseBeforeMs: 0, pauseAfterMs: 0 },
+      { text: '定義', pace: 'slow', emphasis: false, pauseBeforeMs: 0, pauseAfterMs: 1000 }
+    ]);
+  });
+});
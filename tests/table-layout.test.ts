@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { layoutTable } from '../src/slides/table-layout.js';
+
+const area = { width: 12, height: 5 };
+
+describe('table-layout', () => {
+  it('should size columns by content and fill the table width', () => {
+    const layout = layoutTable({
+      headers: ['#', '説明'],
+      rows: [['1', 'ChatGPTに特定の専門家や立場を与える']]
+    }, area);
+
+    expect(layout.colW).toHaveLength(2);
+    expect(layout.colW[0]).toBeLessThan(layout.colW[1]);
+    expect(layout.colW.reduce((a, b) => a + b, 0)).toBeCloseTo(12, 1);
+  });
+
+  it('should honor column width and alignment hints', () => {
+    const layout = layoutTable({
+      headers: ['項目', '無料版', '有料版'],
+      rows: [['月額料金', '無料', '20ドル']],
+      columns: [{ width: 3 }, { align: 'right' }]
+    }, area);
+
+    expect(layout.colW[0]).toBeCloseTo(3);
+    expect(layout.aligns).toEqual(['left', 'right', 'left']);
+  });
+
+  it('should center columns that contain only numbers or symbols', () => {
+    const layout = layoutTable({
+      headers: ['機能', '対応'],
+      rows: [['画像認識', '○'], ['Web検索', '×']]
+    }, area);
+
+    expect(layout.aligns).toEqual(['left', 'center']);
+  });
+
+  it('should paginate rows that do not fit', () => {
+    const rows = Array.from({ length: 30 }, (_, i) => [`${i + 1}`, `行${i + 1}`]);
+    const layout = layoutTable({ headers: ['#', '内容'], rows }, area);
+
+    expect(layout.pages.length).toBeGreaterThan(1);
+    expect(layout.pages.flat()).toEqual(rows.map((_, i) => i));
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { splitTextIntoChunks } from '../src/narration/text-chunks.js';
+
+describe('text-chunks', () => {
+  it('should keep short text as a single chunk', () => {
+    expect(splitTextIntoChunks('こんにちは。', 1000)).toEqual(['こんにちは。']);
+  });
+
+  it('should split at sentence boundaries without exceeding the limit', () => {
+    const text = 'あいうえお。かきくけこ。さしすせそ。\nたちつてと！';
+    const chunks = splitTextIntoChunks(text, 12);
+
+    expect(chunks).toEqual(['あいうえお。かきくけこ。', 'さしすせそ。', 'たちつてと！']);
+    expect(chunks.every(chunk => chunk.length <= 12)).toBe(true);
+  });
+
+  it('should split sentences longer than the limit at commas, then by length', () => {
+    const chunks = splitTextIntoChunks('あいうえお、かきくけこ、さしすせそたちつてとなにぬねの。', 10);
+
+    expect(chunks).toEqual(['あいうえお、', 'かきくけこ、', 'さしすせそたちつてと', 'なにぬねの。']);
+    expect(chunks.join('')).toBe('あいうえお、かきくけこ、さしすせそたちつてとなにぬねの。');
+  });
+});
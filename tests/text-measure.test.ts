@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isFullWidth,
+  measureTextEm,
+  countWrappedLines,
+  splitTextToFit
+} from '../src/slides/text-measure.js';
+
+describe('text-measure', () => {
+  it('should treat CJK characters as full width', () => {
+    expect(isFullWidth('あ')).toBe(true);
+    expect(isFullWidth('漢')).toBe(true);
+    expect(isFullWidth('Ａ')).toBe(true);
+    expect(isFullWidth('A')).toBe(false);
+  });
+
+  it('should measure mixed text in em', () => {
+    expect(measureTextEm('AIの活用')).toBeCloseTo(0.6 * 2 + 3);
+  });
+
+  it('should count wrapped lines per paragraph', () => {
+    // 14pt・幅2.2インチ → 1行あたり約10.3em
+    expect(countWrappedLines('あいうえお', 14, 2.2)).toBe(1);
+    expect(countWrappedLines('あ'.repeat(25), 14, 2.2)).toBe(3);
+    expect(countWrappedLines('あ\n\nい', 14, 2.2)).toBe(3);
+  });
+
+  it('should split text at sentence boundaries to fit a height', () => {
+    const text = 'あ'.repeat(8) + '。' + 'い'.repeat(8) + '。' + 'う'.repeat(8) + '。';
+    const groups = splitTextToFit(text, 14, 2.2, 28, 28 / 72);
+    expect(groups).toEqual(['あ'.repeat(8) + '。', 'い'.repeat(8) + '。', 'う'.repeat(8) + '。']);
+  });
+});
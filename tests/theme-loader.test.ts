@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { loadTheme, listThemes } from '../src/slides/theme-loader.js';
+import { defaultTheme } from '../src/templates.js';
+
+describe('theme-loader', () => {
+  it('should return the default theme when no theme is given', () => {
+    expect(loadTheme()).toBe(defaultTheme);
+    expect(loadTheme('default')).toBe(defaultTheme);
+  });
+
+  it('should list bundled themes', () => {
+    expect(listThemes()).toEqual(expect.arrayContaining(['default', 'corporate', 'seminar', 'dark']));
+  });
+
+  it('should merge a bundled theme over the default theme', () => {
+    const theme = loadTheme('dark');
+    expect(theme.name).toBe('dark');
+    expect(theme.colors?.background).toBe('1E1F22');
+    // 上書きしていない値はデフォルトを継承
+    expect(theme.slides.content.titleStyle.fontSize).toBe(defaultTheme.slides.content.titleStyle.fontSize);
+    expect(theme.footer).toEqual(defaultTheme.footer);
+  });
+
+  it('should allow null to remove an accent line', () => {
+    const theme = loadTheme('seminar');
+    expect(theme.slides.title.accentLine).toBeNull();
+  });
+
+  it('should throw for an unknown theme', () => {
+    expect(() => loadTheme('no-such-theme')).toThrow(/Theme not found/);
+  });
+});
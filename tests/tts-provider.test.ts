@@ -0,0 +1,45 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createTtsProvider } from '../src/narration/tts-provider.js';
+import { LocalTtsProvider } from '../src/narration/local-tts-provider.js';
+import { NarrationGeneratorAgent } from '../src/narration/narration-generator.js';
+
+describe('tts-provider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should select the provider from config or TTS_PROVIDER', () => {
+    vi.stubEnv('TTS_PROVIDER', 'local');
+    expect(createTtsProvider().name).toBe('local');
+    expect(createTtsProvider({ provider: 'gemini', apiKey: 'test-key' }).name).toBe('gemini');
+    expect(() => createTtsProvider({ provider: 'polly' })).toThrow(/Unknown TTS provider "polly"/);
+  });
+
+  it('should require an API key only for Gemini', () => {
+    vi.stubEnv('GEMINI_API_KEY', '');
+    expect(() => createTtsProvider({ provider: 'gemini' })).toThrow(/GEMINI_API_KEY/);
+    expect(() => new NarrationGeneratorAgent(undefined, false, new LocalTtsProvider())).not.toThrow();
+  });
+
+  it('should synthesize deterministic PCM proportional to the text length', async () => {
+    const provider = new LocalTtsProvider();
+    const short = await provider.synthesize('こんにちは。', 'tone-low');
+    const long = await provider.synthesize('こんにちは。こんにちは。', 'tone-low');
+
+    expect(short.sampleRate).toBe(24000);
+    // 5文字 × 0.12秒 + 句点 0.4秒（16-bit = 2バイト/サンプル）
+    expect(short.pcm.length).toBe((5 * 2880 + 9600) * 2);
+    expect(long.pcm.length).toBe(short.pcm.length * 2);
+    expect((await provider.synthesize('こんにちは。', 'tone-low')).pcm.equals(short.pcm)).toBe(true);
+    expect((await provider.synthesize('こんにちは。', 'tone-high')).pcm.equals(short.pcm)).toBe(false);
+  });
+
+  it('should reject voices the provider does not have', async () => {
+    const provider = new LocalTtsProvider();
+    await expect(provider.synthesize('テスト', 'Charon')).rejects.toThrow(/Unknown voice "Charon"/);
+
+    const narrator = new NarrationGeneratorAgent(undefined, false, provider);
+    expect(() => narrator.setVoice('Charon')).toThrow(/available: tone-low, tone-high/);
+    expect(() => narrator.setVoice('tone-high')).not.toThrow();
+  });
+});
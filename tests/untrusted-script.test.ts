@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { findServerFileReferences } from '../src/web-app/untrusted-script.js';
+
+const script = {
+  title: 'テスト台本',
+  duration: '10分',
+  branding: { company: 'Stella株式会社', primaryColor: '5FB8A6' },
+  sections: [
+    { type: 'title', title: 'タイトル' },
+    { type: 'content', title: '概要', bullets: ['項目1'] }
+  ]
+};
+
+describe('untrusted-script', () => {
+  it('should accept scripts without file paths and with bundled theme names', () => {
+    expect(findServerFileReferences(script)).toEqual([]);
+    expect(findServerFileReferences({ ...script, theme: 'dark' })).toEqual([]);
+    expect(findServerFileReferences({ ...script, theme: 'default' })).toEqual([]);
+    expect(findServerFileReferences({
+      ...script,
+      sections: [{ type: 'screenshot', title: '画面', screenshot: { imagePath: '' } }]
+    })).toEqual([]);
+  });
+
+  it('should report every property that names a file on the server', () => {
+    const references = findServerFileReferences({
+      ...script,
+      branding: { ...script.branding, logo: '/etc/passwd' },
+      theme: '../../etc/theme.json',
+      illustrations: '/var/lib/catalog',
+      sections: [
+        { type: 'screenshot', title: '画面', screenshot: { imagePath: '/root/.ssh/id_rsa' } },
+        { type: 'twoColumn', title: '比較', columns: [{ heading: 'A' }, { heading: 'B', image: '~/secret.png' }] }
+      ]
+    });
+
+    expect(references.map(reference => reference.path)).toEqual([
+      'branding.logo',
+      'theme',
+      'illustrations',
+      'sections[0].screenshot.imagePath',
+      'sections[1].columns[1].image'
+    ]);
+  });
+
+  it('should reject theme objects and unknown theme names', () => {
+    expect(findServerFileReferences({ ...script, theme: 'corporate.json' })).toHaveLength(1);
+    expect(findServerFileReferences({ ...script, theme: { extends: '/etc/passwd' } })).toHaveLength(1);
+  });
+});